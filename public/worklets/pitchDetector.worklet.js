@@ -754,43 +754,467 @@ function ceilPow2(v) {
 // src/audio/pitchDetection.ts
 var DEFAULT_MIN_FREQ = 80;
 var DEFAULT_MAX_FREQ = 1e3;
+var TARGET_SEMITONE_SPAN = 3;
 var RMS_THRESHOLD = 5e-3;
-var ws = {
-  n: 0,
-  hann: new Float32Array(0),
-  windowed: new Float32Array(0),
-  prefixEnergy: new Float64Array(0)
+var MIN_CLARITY = 0.35;
+var SPIKE_GATE_CENTS = 80;
+var SPIKE_GATE_CONFIRM_FRAMES = 2;
+var PYIN_THRESHOLD_COUNT = 100;
+var PYIN_BETA_A = 2;
+var PYIN_BETA_B = 8;
+var PYIN_NO_DIP_PROB = 0.01;
+var PYIN_MAX_CANDIDATES = 32;
+var PYIN_CONTINUITY_SEMITONES = 2;
+var PYIN_CONTINUITY_WEIGHT = 0.5;
+var PYIN_ANALYSIS_RATE = 11025;
+var PYIN_OCTAVE_RATIO = 0.5;
+var PYIN_OCTAVE_MIN_CMND = 0.02;
+var DETECTORS = {
+  pitchy: { kind: "pitchy", label: "Pitchy (McLeod)", targetAware: false, spikeGated: false },
+  nacf: { kind: "nacf", label: "NACF (target-aware)", targetAware: true, spikeGated: true },
+  pyin: { kind: "pyin", label: "pYIN (probabilistic YIN)", targetAware: false, spikeGated: false }
 };
-var pitchyDetectorN = 0;
-var pitchyDetector = null;
-function getPitchyDetector(n) {
-  if (!pitchyDetector || pitchyDetectorN !== n) {
-    pitchyDetector = PitchDetector.forFloat32Array(n);
-    pitchyDetectorN = n;
-  }
-  return pitchyDetector;
+var DEFAULT_DETECTOR_KIND = "pitchy";
+function isDetectorKind(value) {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(DETECTORS, value);
+}
+var PYIN_THRESHOLDS = new Float64Array(PYIN_THRESHOLD_COUNT);
+var PYIN_THRESHOLD_WEIGHTS = (() => {
+  const w = new Float64Array(PYIN_THRESHOLD_COUNT);
+  let sum = 0;
+  for (let i = 0; i < PYIN_THRESHOLD_COUNT; i++) {
+    const x = (i + 1) / PYIN_THRESHOLD_COUNT;
+    PYIN_THRESHOLDS[i] = x;
+    w[i] = Math.pow(x, PYIN_BETA_A - 1) * Math.pow(Math.max(0, 1 - x), PYIN_BETA_B - 1);
+    sum += w[i];
+  }
+  for (let i = 0; i < PYIN_THRESHOLD_COUNT; i++) w[i] /= sum;
+  return w;
+})();
+function midiToFreq(midi) {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+function freqToExactMidi(freq) {
+  return 69 + 12 * Math.log2(freq / 440);
 }
 function clamp(v, lo, hi) {
   return Math.max(lo, Math.min(hi, v));
 }
-function detectPitchPitchy(buffer, sampleRate2, _targetHint) {
-  const n = buffer.length;
-  if (n === 0) return { frequency: null, clarity: 0 };
+function dcRemoveAndApplyHann(src, dst, hann, mean) {
+  for (let i = 0; i < src.length; i++) {
+    dst[i] = (src[i] - mean) * hann[i];
+  }
+}
+function fillPrefixEnergy(x, prefixEnergy) {
+  prefixEnergy[0] = 0;
+  for (let i = 0; i < x.length; i++) prefixEnergy[i + 1] = prefixEnergy[i] + x[i] * x[i];
+}
+function nacfAtLag(x, prefixEnergy, lag) {
+  const m = x.length - lag;
+  if (m <= 0) return 0;
+  let num = 0;
+  for (let i = 0; i < m; i++) {
+    num += x[i] * x[i + lag];
+  }
+  const e1 = prefixEnergy[m] - prefixEnergy[0];
+  const e2 = prefixEnergy[lag + m] - prefixEnergy[lag];
+  const den = Math.sqrt(e1 * e2);
+  if (den <= 1e-12) return 0;
+  return num / den;
+}
+function parabolicInterpolatePeak(x, prefixEnergy, lag) {
+  const c0 = nacfAtLag(x, prefixEnergy, lag - 1);
+  const c1 = nacfAtLag(x, prefixEnergy, lag);
+  const c2 = nacfAtLag(x, prefixEnergy, lag + 1);
+  const denom = c0 - 2 * c1 + c2;
+  if (Math.abs(denom) < 1e-12) return lag;
+  const delta = 0.5 * (c0 - c2) / denom;
+  if (Math.abs(delta) > 1) return lag;
+  return lag + delta;
+}
+function rmsOf(buffer) {
   let sumSq = 0;
-  for (let i = 0; i < n; i++) sumSq += buffer[i] * buffer[i];
-  const rms = Math.sqrt(sumSq / n);
-  if (rms < RMS_THRESHOLD) return { frequency: null, clarity: 0 };
-  const detector = getPitchyDetector(n);
-  const [pitch, c] = detector.findPitch(buffer, sampleRate2);
-  const clarity = clamp(typeof c === "number" ? c : 0, 0, 1);
-  let frequency = typeof pitch === "number" && Number.isFinite(pitch) && pitch > 0 ? pitch : null;
-  if (frequency != null && (frequency < DEFAULT_MIN_FREQ || frequency > DEFAULT_MAX_FREQ)) {
-    frequency = null;
-  }
-  return { frequency, clarity };
+  for (let i = 0; i < buffer.length; i++) sumSq += buffer[i] * buffer[i];
+  return Math.sqrt(sumSq / buffer.length);
+}
+var PitchDetectorInstance = class {
+  constructor(config) {
+    __publicField(this, "config");
+    // Spike gate
+    __publicField(this, "lastStableMidi", null);
+    __publicField(this, "pendingJumpMidi", null);
+    __publicField(this, "pendingJumpCount", 0);
+    __publicField(this, "lastPyinMidi", null);
+    // previous voiced pYIN frame (continuity prior)
+    // NACF workspace
+    __publicField(this, "n", 0);
+    __publicField(this, "hann", new Float32Array(0));
+    __publicField(this, "windowed", new Float32Array(0));
+    __publicField(this, "prefixEnergy", new Float64Array(0));
+    // length n+1
+    // pYIN workspace: per-lag buffers sized for the largest lag, plus candidates.
+    __publicField(this, "pyinMaxLag", 0);
+    __publicField(this, "pyinDiff", new Float64Array(0));
+    // YIN difference function d(tau)
+    __publicField(this, "pyinCmnd", new Float64Array(0));
+    // cumulative mean normalized difference d'(tau)
+    __publicField(this, "pyinDecimated", new Float32Array(0));
+    // input averaged down to about PYIN_ANALYSIS_RATE
+    __publicField(this, "candLag", new Int32Array(PYIN_MAX_CANDIDATES));
+    __publicField(this, "candProb", new Float64Array(PYIN_MAX_CANDIDATES));
+    // Pitchy: one detector per buffer size.
+    __publicField(this, "pitchy", null);
+    __publicField(this, "pitchyN", 0);
+    __publicField(this, "result", { frequency: null, clarity: 0 });
+    this.config = {
+      kind: config?.kind ?? DEFAULT_DETECTOR_KIND,
+      minFreq: config?.minFreq ?? DEFAULT_MIN_FREQ,
+      maxFreq: config?.maxFreq ?? DEFAULT_MAX_FREQ
+    };
+  }
+  getConfig() {
+    return this.config;
+  }
+  getKind() {
+    return this.config.kind;
+  }
+  setKind(kind) {
+    if (kind === this.config.kind) return;
+    this.config = { ...this.config, kind };
+    this.reset();
+  }
+  reset(opts) {
+    this.lastStableMidi = typeof opts?.seedMidi === "number" ? opts.seedMidi : null;
+    this.pendingJumpMidi = null;
+    this.pendingJumpCount = 0;
+    this.lastPyinMidi = null;
+  }
+  /**
+   * Detect pitch with the configured backend. Target-aware backends use
+   * targetHint to narrow their search; the others ignore it.
+   */
+  detect(buffer, sampleRate2, targetHint) {
+    if (buffer.length === 0) return this.emit(null, 0);
+    switch (this.config.kind) {
+      case "nacf":
+        return this.detectNacf(buffer, sampleRate2, targetHint);
+      case "pyin":
+        return this.detectPyin(buffer, sampleRate2);
+      default:
+        return this.detectPitchy(buffer, sampleRate2);
+    }
+  }
+  applySpikeGate(exactMidi) {
+    if (this.lastStableMidi == null) {
+      this.lastStableMidi = exactMidi;
+      this.pendingJumpMidi = null;
+      this.pendingJumpCount = 0;
+      return exactMidi;
+    }
+    const diffCents = (exactMidi - this.lastStableMidi) * 100;
+    const abs = Math.abs(diffCents);
+    if (abs < SPIKE_GATE_CENTS) {
+      this.lastStableMidi = exactMidi;
+      this.pendingJumpMidi = null;
+      this.pendingJumpCount = 0;
+      return exactMidi;
+    }
+    if (this.pendingJumpMidi == null) {
+      this.pendingJumpMidi = exactMidi;
+      this.pendingJumpCount = 1;
+      return this.lastStableMidi;
+    }
+    const agreeCents = Math.abs((exactMidi - this.pendingJumpMidi) * 100);
+    if (agreeCents <= 30) {
+      this.pendingJumpCount += 1;
+    } else {
+      this.pendingJumpMidi = exactMidi;
+      this.pendingJumpCount = 1;
+      return this.lastStableMidi;
+    }
+    if (this.pendingJumpCount >= SPIKE_GATE_CONFIRM_FRAMES) {
+      this.lastStableMidi = this.pendingJumpMidi;
+      this.pendingJumpMidi = null;
+      this.pendingJumpCount = 0;
+      return this.lastStableMidi;
+    }
+    return this.lastStableMidi;
+  }
+  emit(frequency, clarity) {
+    this.result.frequency = frequency;
+    this.result.clarity = clarity;
+    return this.result;
+  }
+  ensureNacfWorkspace(n) {
+    if (this.n === n) return;
+    this.n = n;
+    this.hann = new Float32Array(n);
+    this.windowed = new Float32Array(n);
+    this.prefixEnergy = new Float64Array(n + 1);
+    if (n > 1) {
+      const k = 2 * Math.PI / (n - 1);
+      for (let i = 0; i < n; i++) {
+        this.hann[i] = 0.5 * (1 - Math.cos(k * i));
+      }
+    } else if (n === 1) {
+      this.hann[0] = 1;
+    }
+  }
+  ensurePyinWorkspace(maxLag, decimatedLength) {
+    if (this.pyinDecimated.length !== decimatedLength) this.pyinDecimated = new Float32Array(decimatedLength);
+    if (this.pyinMaxLag === maxLag) return;
+    this.pyinMaxLag = maxLag;
+    this.pyinDiff = new Float64Array(maxLag + 2);
+    this.pyinCmnd = new Float64Array(maxLag + 2);
+  }
+  getPitchy(n) {
+    if (!this.pitchy || this.pitchyN !== n) {
+      this.pitchy = PitchDetector.forFloat32Array(n);
+      this.pitchyN = n;
+    }
+    return this.pitchy;
+  }
+  /**
+   * NACF:
+   * - If targetHint exists: narrows search to ±3 semitones around target
+   * - Never "snaps" to target: it just constrains the lag range
+   * - Output goes through the spike gate
+   */
+  detectNacf(buffer, sampleRate2, targetHint) {
+    const n = buffer.length;
+    const { minFreq: lo, maxFreq: hi } = this.config;
+    let sum = 0;
+    let sumSq = 0;
+    for (let i = 0; i < n; i++) {
+      const v = buffer[i];
+      sum += v;
+      sumSq += v * v;
+    }
+    const mean = sum / n;
+    const rms = Math.sqrt(sumSq / n);
+    if (rms < RMS_THRESHOLD) {
+      return this.emit(null, 0);
+    }
+    this.ensureNacfWorkspace(n);
+    const x = this.windowed;
+    const prefixEnergy = this.prefixEnergy;
+    dcRemoveAndApplyHann(buffer, x, this.hann, mean);
+    fillPrefixEnergy(x, prefixEnergy);
+    let minFreq = lo;
+    let maxFreq = hi;
+    if (targetHint) {
+      const targetFreq = midiToFreq(targetHint.targetMidi);
+      const ratio = Math.pow(2, TARGET_SEMITONE_SPAN / 12);
+      minFreq = Math.max(lo, targetFreq / ratio);
+      maxFreq = Math.min(hi, targetFreq * ratio);
+    }
+    const minLag = Math.floor(sampleRate2 / maxFreq);
+    const maxLag = Math.floor(sampleRate2 / minFreq);
+    let bestLag = -1;
+    let best = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const c = nacfAtLag(x, prefixEnergy, lag);
+      if (c > best) {
+        best = c;
+        bestLag = lag;
+      }
+    }
+    const clarity = clamp(best, 0, 1);
+    if (bestLag === -1 || clarity < MIN_CLARITY) {
+      return this.emit(null, clarity);
+    }
+    let refinedLag = bestLag;
+    if (bestLag > 2) {
+      refinedLag = parabolicInterpolatePeak(x, prefixEnergy, bestLag);
+    }
+    const frequency = sampleRate2 / refinedLag;
+    if (frequency < lo || frequency > hi) {
+      return this.emit(null, 0);
+    }
+    const exactMidi = freqToExactMidi(frequency);
+    if (this.lastStableMidi == null && targetHint && typeof targetHint.targetMidi === "number") {
+      this.lastStableMidi = targetHint.targetMidi;
+    }
+    const gatedMidi = this.applySpikeGate(exactMidi);
+    return this.emit(midiToFreq(gatedMidi), clarity);
+  }
+  detectPitchy(buffer, sampleRate2) {
+    if (rmsOf(buffer) < RMS_THRESHOLD) return this.emit(null, 0);
+    const [pitch, c] = this.getPitchy(buffer.length).findPitch(buffer, sampleRate2);
+    const clarity = clamp(typeof c === "number" ? c : 0, 0, 1);
+    let frequency = typeof pitch === "number" && Number.isFinite(pitch) && pitch > 0 ? pitch : null;
+    if (frequency != null && (frequency < this.config.minFreq || frequency > this.config.maxFreq)) {
+      frequency = null;
+    }
+    return this.emit(frequency, clarity);
+  }
+  /**
+   * Probabilistic YIN (Mauch & Dixon 2014), frame-wise:
+   * - d'(tau) dips are pitch-period candidates, searched on the signal
+   *   decimated to ~11 kHz (the difference function is O(lags x window))
+   * - each threshold of a Beta prior votes for the first dip below it; the sum
+   *   of votes is the voicing probability (returned as clarity)
+   * - candidates are weighed by a continuity prior around the previous voiced
+   *   frame, and a much deeper dip at twice the chosen period wins (a weak
+   *   fundamental under a strong 2nd harmonic, common on low basses)
+   * - the chosen period is refined on the full-rate signal
+   */
+  detectPyin(buffer, sampleRate2) {
+    const { minFreq, maxFreq } = this.config;
+    if (rmsOf(buffer) < RMS_THRESHOLD) {
+      this.lastPyinMidi = null;
+      return this.emit(null, 0);
+    }
+    const factor = Math.max(1, Math.floor(sampleRate2 / PYIN_ANALYSIS_RATE));
+    const rate = sampleRate2 / factor;
+    const n = Math.floor(buffer.length / factor);
+    const minLag = Math.max(2, Math.floor(rate / maxFreq));
+    const maxLag = Math.min(Math.ceil(rate / minFreq), Math.floor(n / 2) - 1);
+    if (maxLag <= minLag) return this.emit(null, 0);
+    this.ensurePyinWorkspace(maxLag, n);
+    const x = this.pyinDecimated;
+    const diff = this.pyinDiff;
+    const cmnd = this.pyinCmnd;
+    const candLag = this.candLag;
+    const candProb = this.candProb;
+    const integration = n - maxLag - 1;
+    for (let i = 0; i < n; i++) {
+      let v = 0;
+      for (let k = i * factor, end = k + factor; k < end; k++) v += buffer[k];
+      x[i] = v / factor;
+    }
+    diff[0] = 0;
+    for (let tau2 = 1; tau2 <= maxLag + 1; tau2++) {
+      let d = 0;
+      for (let j = 0; j < integration; j++) {
+        const delta = x[j] - x[j + tau2];
+        d += delta * delta;
+      }
+      diff[tau2] = d;
+    }
+    cmnd[0] = 1;
+    let running = 0;
+    for (let tau2 = 1; tau2 <= maxLag + 1; tau2++) {
+      running += diff[tau2];
+      cmnd[tau2] = running > 0 ? diff[tau2] * tau2 / running : 1;
+    }
+    let count = 0;
+    let globalMin = -1;
+    for (let tau2 = minLag; tau2 <= maxLag && count < PYIN_MAX_CANDIDATES; tau2++) {
+      if (cmnd[tau2] < cmnd[tau2 - 1] && cmnd[tau2] <= cmnd[tau2 + 1]) {
+        candLag[count] = tau2;
+        candProb[count] = 0;
+        if (globalMin < 0 || cmnd[tau2] < cmnd[candLag[globalMin]]) globalMin = count;
+        count++;
+      }
+    }
+    if (count === 0) {
+      this.lastPyinMidi = null;
+      return this.emit(null, 0);
+    }
+    let voicing = 0;
+    for (let k = 0; k < PYIN_THRESHOLD_COUNT; k++) {
+      const thr = PYIN_THRESHOLDS[k];
+      const weight = PYIN_THRESHOLD_WEIGHTS[k];
+      let hit = -1;
+      for (let c = 0; c < count; c++) {
+        if (cmnd[candLag[c]] < thr) {
+          hit = c;
+          break;
+        }
+      }
+      if (hit >= 0) {
+        candProb[hit] += weight;
+        voicing += weight;
+      } else {
+        candProb[globalMin] += weight * PYIN_NO_DIP_PROB;
+      }
+    }
+    const prevMidi = this.lastPyinMidi;
+    let best = -1;
+    let bestScore = 0;
+    for (let c = 0; c < count; c++) {
+      const p = candProb[c];
+      if (p <= 0) continue;
+      let score = p;
+      if (prevMidi != null) {
+        const dSemis = freqToExactMidi(rate / candLag[c]) - prevMidi;
+        const g = Math.exp(-0.5 * (dSemis / PYIN_CONTINUITY_SEMITONES) ** 2);
+        score *= 1 - PYIN_CONTINUITY_WEIGHT + PYIN_CONTINUITY_WEIGHT * g;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+    const clarity = clamp(voicing, 0, 1);
+    if (best < 0 || clarity < MIN_CLARITY) {
+      this.lastPyinMidi = null;
+      return this.emit(null, clarity);
+    }
+    let tau = candLag[best];
+    if (cmnd[tau] > PYIN_OCTAVE_MIN_CMND) {
+      const tolerance = Math.max(1, Math.round(tau * 0.06));
+      for (let c = best + 1; c < count; c++) {
+        const lag = candLag[c];
+        if (lag > 2 * tau + tolerance) break;
+        if (lag >= 2 * tau - tolerance && cmnd[lag] < PYIN_OCTAVE_RATIO * cmnd[tau]) {
+          tau = lag;
+          break;
+        }
+      }
+    }
+    let refined = tau + parabolicMinOffset(cmnd[tau - 1], cmnd[tau], cmnd[tau + 1]);
+    if (factor > 1) refined = this.refinePyinPeriod(buffer, refined * factor, factor) / factor;
+    const frequency = rate / refined;
+    if (frequency < minFreq || frequency > maxFreq) {
+      this.lastPyinMidi = null;
+      return this.emit(null, 0);
+    }
+    this.lastPyinMidi = freqToExactMidi(frequency);
+    return this.emit(frequency, clarity);
+  }
+  // Full-rate period (in samples) near `approx`: the minimum of the difference
+  // function over the few lags the decimated estimate can be off by.
+  refinePyinPeriod(buffer, approx, span) {
+    const lo = Math.max(1, Math.floor(approx) - span);
+    const hi = Math.ceil(approx) + span;
+    const integration = buffer.length - hi - 1;
+    if (integration <= 0) return approx;
+    let bestLag = lo;
+    let prev = differenceAt(buffer, integration, lo - 1);
+    let cur = differenceAt(buffer, integration, lo);
+    let bestPrev = prev;
+    let bestVal = cur;
+    let bestNext = 0;
+    let next = 0;
+    for (let tau = lo; tau <= hi; tau++) {
+      next = differenceAt(buffer, integration, tau + 1);
+      if (cur < bestVal || tau === lo) {
+        bestLag = tau;
+        bestPrev = prev;
+        bestVal = cur;
+        bestNext = next;
+      }
+      prev = cur;
+      cur = next;
+    }
+    return bestLag + parabolicMinOffset(bestPrev, bestVal, bestNext);
+  }
+};
+function differenceAt(buffer, integration, tau) {
+  let sum = 0;
+  for (let j = 0; j < integration; j++) {
+    const delta = buffer[j] - buffer[j + tau];
+    sum += delta * delta;
+  }
+  return sum;
 }
-function detectPitch(buffer, sampleRate2, targetHint) {
-  return detectPitchPitchy(buffer, sampleRate2, targetHint);
+function parabolicMinOffset(c0, c1, c2) {
+  const denom = c0 - 2 * c1 + c2;
+  if (Math.abs(denom) <= 1e-12) return 0;
+  const delta = 0.5 * (c0 - c2) / denom;
+  return Math.abs(delta) <= 1 ? delta : 0;
 }
 
 // src/audio/worklets/pitchDetector.worklet.ts
@@ -799,8 +1223,13 @@ var PitchDetectorProcessor = class extends AudioWorkletProcessor {
     super();
     __publicField(this, "windowSize", 4096);
     __publicField(this, "analysisIntervalMs", 50);
-    __publicField(this, "ring", new Float32Array(this.windowSize));
-    __publicField(this, "window", new Float32Array(this.windowSize));
+    __publicField(this, "detectorKind", DEFAULT_DETECTOR_KIND);
+    // All channels receive the same number of samples, so they share the write
+    // position and hop counter. Each hop queues every channel; one queued
+    // channel is analysed per render quantum so several singers never stack
+    // their detectors into a single process() call.
+    __publicField(this, "analysers", []);
+    __publicField(this, "due", []);
     __publicField(this, "writeIdx", 0);
     __publicField(this, "filled", false);
     __publicField(this, "hopSamples", Math.max(1, Math.round(sampleRate * (this.analysisIntervalMs / 1e3))));
@@ -808,61 +1237,121 @@ var PitchDetectorProcessor = class extends AudioWorkletProcessor {
     const po = options?.processorOptions;
     if (po && typeof po.windowSize === "number") this.windowSize = po.windowSize;
     if (po && typeof po.analysisIntervalMs === "number") this.analysisIntervalMs = po.analysisIntervalMs;
-    this.rebuildBuffers();
+    if (po && isDetectorKind(po.detector)) this.detectorKind = po.detector;
+    this.setChannels(po && Array.isArray(po.channels) ? po.channels : [0]);
     this.port.onmessage = (ev) => {
       const msg = ev.data;
       if (!msg || typeof msg !== "object") return;
       if (msg.type === "config") {
-        if (typeof msg.windowSize === "number" && msg.windowSize > 0) this.windowSize = msg.windowSize;
-        if (typeof msg.analysisIntervalMs === "number" && msg.analysisIntervalMs > 0) this.analysisIntervalMs = msg.analysisIntervalMs;
-        this.rebuildBuffers();
+        let rebuild = false;
+        if (typeof msg.windowSize === "number" && msg.windowSize > 0 && msg.windowSize !== this.windowSize) {
+          this.windowSize = msg.windowSize;
+          rebuild = true;
+        }
+        if (typeof msg.analysisIntervalMs === "number" && msg.analysisIntervalMs > 0 && msg.analysisIntervalMs !== this.analysisIntervalMs) {
+          this.analysisIntervalMs = msg.analysisIntervalMs;
+          rebuild = true;
+        }
+        if (Array.isArray(msg.channels)) this.setChannels(msg.channels);
+        else if (rebuild) this.rebuildBuffers();
+        if (isDetectorKind(msg.detector)) {
+          this.detectorKind = msg.detector;
+          for (const a of this.analysers) a.detector.setKind(msg.detector);
+        }
+        if (msg.targetMidi !== void 0) {
+          const a = this.analyserFor(typeof msg.channel === "number" ? msg.channel : 0);
+          if (a) a.targetMidi = typeof msg.targetMidi === "number" ? msg.targetMidi : null;
+        }
+      } else if (msg.type === "reset") {
+        for (const a of this.analysers) {
+          if (typeof msg.channel === "number" && a.channel !== msg.channel) continue;
+          a.detector.reset({ seedMidi: msg.seedMidi });
+        }
       }
     };
     const ready = { type: "ready" };
     this.port.postMessage(ready);
   }
+  analyserFor(channel) {
+    return this.analysers.find((a) => a.channel === channel);
+  }
+  // Keep the detectors of channels that stay (their gate state is still valid).
+  setChannels(channels) {
+    const wanted = channels.filter((c, i) => Number.isInteger(c) && c >= 0 && channels.indexOf(c) === i);
+    this.analysers = wanted.map((channel) => this.analyserFor(channel) ?? {
+      channel,
+      detector: new PitchDetectorInstance({ kind: this.detectorKind }),
+      ring: new Float32Array(0),
+      window: new Float32Array(0),
+      targetMidi: null,
+      targetHint: { targetMidi: 0 }
+    });
+    this.rebuildBuffers();
+  }
   rebuildBuffers() {
-    this.ring = new Float32Array(this.windowSize);
-    this.window = new Float32Array(this.windowSize);
+    for (const a of this.analysers) {
+      a.ring = new Float32Array(this.windowSize);
+      a.window = new Float32Array(this.windowSize);
+    }
     this.writeIdx = 0;
     this.filled = false;
     this.samplesSinceLast = 0;
+    this.due = [];
     this.hopSamples = Math.max(1, Math.round(sampleRate * (this.analysisIntervalMs / 1e3)));
   }
-  pushSamples(input) {
-    for (let i = 0; i < input.length; i++) {
-      this.ring[this.writeIdx] = input[i];
-      this.writeIdx++;
-      if (this.writeIdx >= this.windowSize) {
-        this.writeIdx = 0;
-        this.filled = true;
+  pushSamples(inputs, length) {
+    const n = this.windowSize;
+    for (const a of this.analysers) {
+      const input = inputs[a.channel];
+      let w = this.writeIdx;
+      for (let i = 0; i < length; i++) {
+        a.ring[w] = input ? input[i] : 0;
+        if (++w >= n) w = 0;
       }
     }
+    this.writeIdx += length;
+    while (this.writeIdx >= n) {
+      this.writeIdx -= n;
+      this.filled = true;
+    }
   }
-  snapshotWindow() {
+  snapshotWindow(a) {
     const n = this.windowSize;
     const w = this.writeIdx;
     const firstLen = n - w;
-    this.window.set(this.ring.subarray(w, n), 0);
-    this.window.set(this.ring.subarray(0, w), firstLen);
+    a.window.set(a.ring.subarray(w, n), 0);
+    a.window.set(a.ring.subarray(0, w), firstLen);
   }
   process(inputs, outputs) {
-    const input = inputs[0]?.[0];
+    const channels = inputs[0];
+    const first = channels?.[0];
     const output = outputs[0]?.[0];
-    if (!input) return true;
-    if (output) output.set(input);
-    this.pushSamples(input);
-    this.samplesSinceLast += input.length;
+    if (!first) return true;
+    if (output) output.set(first);
+    this.pushSamples(channels, first.length);
+    this.samplesSinceLast += first.length;
     if (this.filled && this.samplesSinceLast >= this.hopSamples) {
       this.samplesSinceLast = 0;
-      this.snapshotWindow();
+      for (const a2 of this.analysers) {
+        if (!this.due.includes(a2)) this.due.push(a2);
+      }
+    }
+    const a = this.due.shift();
+    if (a) {
+      const blockEndTime = currentTime + first.length / sampleRate;
+      const halfWindowSec = this.windowSize / sampleRate / 2;
+      this.snapshotWindow(a);
+      let hint;
+      if (a.targetMidi != null) {
+        a.targetHint.targetMidi = a.targetMidi;
+        hint = a.targetHint;
+      }
       const t0 = globalThis.performance?.now?.();
-      const r = detectPitch(this.window, sampleRate);
+      const r = a.detector.detect(a.window, sampleRate, hint);
       const t1 = globalThis.performance?.now?.();
-      const blockEndTime = currentTime + input.length / sampleRate;
-      const halfWindowSec = this.windowSize / sampleRate / 2;
       const msg = {
         type: "pitch",
+        channel: a.channel,
         frequency: r.frequency,
         clarity: r.clarity,
         audioTimeSec: blockEndTime,
@@ -0,0 +1,37 @@
+var __defProp = Object.defineProperty;
+var __defNormalProp = (obj, key, value) => key in obj ? __defProp(obj, key, { enumerable: true, configurable: true, writable: true, value }) : obj[key] = value;
+var __publicField = (obj, key, value) => __defNormalProp(obj, typeof key !== "symbol" ? key + "" : key, value);
+
+// src/audio/worklets/takeRecorder.worklet.ts
+var DEFAULT_CHUNK_SIZE = 1024;
+var TakeRecorderProcessor = class extends AudioWorkletProcessor {
+  constructor(options) {
+    super(options);
+    __publicField(this, "chunkSize");
+    __publicField(this, "chunk");
+    __publicField(this, "fill", 0);
+    __publicField(this, "chunkStartTime", 0);
+    const opts = options?.processorOptions ?? {};
+    this.chunkSize = Math.max(128, Math.floor(opts.chunkSize ?? DEFAULT_CHUNK_SIZE));
+    this.chunk = new Float32Array(this.chunkSize);
+  }
+  process(inputs, outputs) {
+    const input = inputs[0]?.[0];
+    const output = outputs[0]?.[0];
+    if (!input) return true;
+    if (output) output.set(input);
+    for (let i = 0; i < input.length; i++) {
+      if (this.fill === 0) this.chunkStartTime = currentTime + i / sampleRate;
+      this.chunk[this.fill++] = input[i];
+      if (this.fill >= this.chunkSize) {
+        const msg = { type: "chunk", audioTimeSec: this.chunkStartTime, samples: this.chunk };
+        this.port.postMessage(msg, [this.chunk.buffer]);
+        this.chunk = new Float32Array(this.chunkSize);
+        this.fill = 0;
+      }
+    }
+    return true;
+  }
+};
+registerProcessor("take-recorder", TakeRecorderProcessor);
+//# sourceMappingURL=takeRecorder.worklet.js.map
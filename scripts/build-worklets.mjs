@@ -4,13 +4,16 @@ import { mkdir } from 'node:fs/promises'
 await mkdir('public/worklets', { recursive: true })
 
 await build({
-  entryPoints: ['src/audio/worklets/pitchDetector.worklet.ts'],
+  entryPoints: [
+    'src/audio/worklets/pitchDetector.worklet.ts',
+    'src/audio/worklets/takeRecorder.worklet.ts',
+  ],
   bundle: true,
   format: 'esm',
   platform: 'browser',
   target: ['es2020'],
   sourcemap: true,
-  outfile: 'public/worklets/pitchDetector.worklet.js',
+  outdir: 'public/worklets',
   logLevel: 'info',
 })
 
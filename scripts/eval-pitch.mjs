@@ -0,0 +1,19 @@
+import { build } from 'esbuild'
+import { mkdir } from 'node:fs/promises'
+import { pathToFileURL } from 'node:url'
+
+// Bundle the TypeScript harness (it imports the detectors from src/) and run it.
+const outfile = 'node_modules/.cache/pitch-eval/main.mjs'
+await mkdir('node_modules/.cache/pitch-eval', { recursive: true })
+
+await build({
+  entryPoints: ['scripts/pitch-eval/main.ts'],
+  bundle: true,
+  format: 'esm',
+  platform: 'node',
+  target: ['node18'],
+  outfile,
+  logLevel: 'warning',
+})
+
+await import(pathToFileURL(outfile).href)
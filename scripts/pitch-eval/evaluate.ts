@@ -0,0 +1,166 @@
+// Frame-by-frame evaluation of one signal, mirroring the worklet: a window of
+// `windowSize` samples analysed every `hopMs`, compared with the ground truth
+// at the window centre.
+
+import { DetectorKind, getPitchDetectorBackend, PitchDetectorInstance, TargetHint } from '../../src/audio/pitchDetection'
+import { PitchDeviationGate } from '../../src/audio/PitchDeviationGate'
+import type { EvalSignal } from './signals'
+
+export type EvalOptions = {
+  windowSize: number
+  hopMs: number
+  minClarity: number        // the page's stable-signal gate (normal difficulty)
+  grossErrorCents: number   // further off than this counts as a wrong note
+  offPitchCents: number     // PitchDeviationGate threshold (normal difficulty)
+}
+
+export const PIPELINES = ['raw', 'spike gate'] as const
+export type Pipeline = (typeof PIPELINES)[number]
+
+// Table label: a detector that spike-gates inside detect() has no ungated output
+export function pipelineLabel(kind: DetectorKind, p: Pipeline): string {
+  if (!getPitchDetectorBackend(kind).spikeGated) return p
+  return p === 'raw' ? 'detector (gated)' : 'spike gate (twice)'
+}
+
+export type Stats = {
+  frames: number
+  voicedFrames: number
+  detected: number          // voiced frames with a pitch
+  gross: number             // detected frames further than grossErrorCents off
+  octave: number            // ...of which about an octave off
+  fineSqCents: number       // sum of squared cents over non-gross frames
+  fine: number
+  unvoicedFrames: number
+  falseVoiced: number
+  flagged: number           // frames PitchDeviationGate would report off-pitch
+  onsetLatencyMs: number[]
+  onsetMisses: number
+  detectMs: number
+}
+
+export function emptyStats(): Stats {
+  return {
+    frames: 0,
+    voicedFrames: 0,
+    detected: 0,
+    gross: 0,
+    octave: 0,
+    fineSqCents: 0,
+    fine: 0,
+    unvoicedFrames: 0,
+    falseVoiced: 0,
+    flagged: 0,
+    onsetLatencyMs: [],
+    onsetMisses: 0,
+    detectMs: 0
+  }
+}
+
+export function addStats(into: Stats, s: Stats) {
+  into.frames += s.frames
+  into.voicedFrames += s.voicedFrames
+  into.detected += s.detected
+  into.gross += s.gross
+  into.octave += s.octave
+  into.fineSqCents += s.fineSqCents
+  into.fine += s.fine
+  into.unvoicedFrames += s.unvoicedFrames
+  into.falseVoiced += s.falseVoiced
+  into.flagged += s.flagged
+  into.onsetLatencyMs.push(...s.onsetLatencyMs)
+  into.onsetMisses += s.onsetMisses
+  into.detectMs += s.detectMs
+}
+
+const exactMidi = (hz: number) => 69 + 12 * Math.log2(hz / 440)
+
+type Frame = { centre: number; end: number; midi: number | null }
+
+// Run a fresh detector of the given kind over the signal. The spike-gate
+// pipeline gets its own instance so its state doesn't leak into the detector's.
+// Target-aware detectors get the true note as their hint, like the page passes
+// the score's target note.
+export function evaluateSignal(signal: EvalSignal, kind: DetectorKind, opts: EvalOptions): Record<Pipeline, Stats> {
+  const { sampleRate, samples } = signal
+  const targetAware = getPitchDetectorBackend(kind).targetAware
+  const detector = new PitchDetectorInstance({ kind })
+  const gate = new PitchDetectorInstance({ kind })
+  const n = opts.windowSize
+  const hop = Math.max(1, Math.round((sampleRate * opts.hopMs) / 1000))
+
+  const frames: Record<Pipeline, Frame[]> = { raw: [], 'spike gate': [] }
+  let detectMs = 0
+  for (let start = 0; start + n <= samples.length; start += hop) {
+    const window = samples.subarray(start, start + n)
+    const centre = (start + n / 2) / sampleRate
+    const end = (start + n) / sampleRate
+    const truth = targetAware ? signal.truthHz(centre) : null
+    const hint: TargetHint | undefined = truth != null ? { targetMidi: Math.round(exactMidi(truth)) } : undefined
+    const t0 = performance.now()
+    const r = detector.detect(window, sampleRate, hint)
+    detectMs += performance.now() - t0
+
+    const raw = r.frequency != null && r.clarity >= opts.minClarity ? exactMidi(r.frequency) : null
+    frames.raw.push({ centre, end, midi: raw })
+    frames['spike gate'].push({ centre, end, midi: raw != null ? gate.applySpikeGate(raw) : null })
+  }
+
+  const out = {} as Record<Pipeline, Stats>
+  for (const p of PIPELINES) {
+    const s = scoreFrames(signal, frames[p], opts)
+    s.detectMs = detectMs
+    out[p] = s
+  }
+  return out
+}
+
+function scoreFrames(signal: EvalSignal, frames: Frame[], opts: EvalOptions): Stats {
+  const s = emptyStats()
+  const gate = new PitchDeviationGate(2)
+  for (const f of frames) {
+    s.frames++
+    const truth = signal.truthHz(f.centre)
+    if (truth == null) {
+      s.unvoicedFrames++
+      if (f.midi != null) s.falseVoiced++
+      continue
+    }
+    s.voicedFrames++
+    if (f.midi == null) {
+      gate.reset()
+      continue
+    }
+    s.detected++
+    const cents = (f.midi - exactMidi(truth)) * 100
+    if (Math.abs(cents) > opts.grossErrorCents) {
+      s.gross++
+      if (Math.abs(Math.abs(cents) - 1200) < 100) s.octave++
+    } else {
+      s.fineSqCents += cents * cents
+      s.fine++
+    }
+    // The singer is exactly on the target here, so every confirmation is a false alarm.
+    gate.push(cents)
+    if (gate.confirmed(opts.offPitchCents)) s.flagged++
+  }
+
+  // Onset latency: from a note change until the first frame within grossErrorCents of the new note
+  const changes = signal.noteChanges ?? []
+  for (let k = 0; k < changes.length; k++) {
+    const tc = changes[k]
+    const until = changes[k + 1] ?? Infinity
+    const target = signal.truthHz(tc + 1e-3)
+    const hit = frames.find(
+      f =>
+        f.end >= tc &&
+        f.end < until &&
+        f.midi != null &&
+        target != null &&
+        Math.abs((f.midi - exactMidi(target)) * 100) <= opts.grossErrorCents
+    )
+    if (hit) s.onsetLatencyMs.push((hit.end - tc) * 1000)
+    else s.onsetMisses++
+  }
+  return s
+}
@@ -0,0 +1,117 @@
+// Offline pitch-detection evaluation. Run with `npm run eval:pitch`
+// (options: --detectors pitchy,nacf  --fixtures <dir>  --sample-rate 48000
+//  --verbose  --json).
+
+import { DetectorKind, isDetectorKind, listPitchDetectors } from '../../src/audio/pitchDetection'
+import { addStats, emptyStats, EvalOptions, evaluateSignal, Pipeline, pipelineLabel, PIPELINES, Stats } from './evaluate'
+import { buildSyntheticSignals, EvalSignal } from './signals'
+import { loadWavFixtures } from './wav'
+
+// Same analysis as the page (FFT_SIZE / ANALYSIS_INTERVAL_MS, normal difficulty)
+const OPTIONS: EvalOptions = {
+  windowSize: 4096,
+  hopMs: 50,
+  minClarity: 0.85,
+  grossErrorCents: 50,
+  offPitchCents: 90
+}
+
+function parseArgs(argv: string[]) {
+  const args = { detectors: [] as DetectorKind[], fixtures: 'scripts/pitch-eval/fixtures', sampleRate: 48000, verbose: false, json: false }
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]
+    if (a === '--detectors') {
+      for (const k of (argv[++i] ?? '').split(',')) {
+        if (!isDetectorKind(k)) throw new Error(`unknown detector "${k}"`)
+        args.detectors.push(k)
+      }
+    } else if (a === '--fixtures') args.fixtures = argv[++i]
+    else if (a === '--sample-rate') args.sampleRate = Number(argv[++i])
+    else if (a === '--verbose') args.verbose = true
+    else if (a === '--json') args.json = true
+    else throw new Error(`unknown option ${a}`)
+  }
+  if (!args.detectors.length) args.detectors = listPitchDetectors().map(d => d.kind)
+  return args
+}
+
+const pct = (a: number, b: number) => (b > 0 ? `${((100 * a) / b).toFixed(1)}%` : '—')
+
+function summarize(s: Stats) {
+  const mean = (xs: number[]) => (xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : null)
+  const onset = mean(s.onsetLatencyMs)
+  return {
+    detected: pct(s.detected, s.voicedFrames),
+    grossErr: pct(s.gross, s.detected),
+    octaveErr: pct(s.octave, s.detected),
+    rmseCents: s.fine ? Math.sqrt(s.fineSqCents / s.fine).toFixed(1) : '—',
+    falseVoicing: pct(s.falseVoiced, s.unvoicedFrames),
+    falseFlags: pct(s.flagged, s.detected),
+    onsetMs: onset != null ? `${Math.round(onset)}${s.onsetMisses ? ` (${s.onsetMisses} missed)` : ''}` : '—',
+    msPerFrame: s.frames ? (s.detectMs / s.frames).toFixed(2) : '—'
+  }
+}
+
+function printTable(title: string, rows: Array<Record<string, string>>) {
+  if (!rows.length) return
+  const cols = Object.keys(rows[0])
+  const width = cols.map(c => Math.max(c.length, ...rows.map(r => r[c].length)))
+  const line = (cells: string[]) => cells.map((c, i) => (i < 2 ? c.padEnd(width[i]) : c.padStart(width[i]))).join('  ')
+  console.log(`\n${title}`)
+  console.log(line(cols))
+  console.log(line(width.map(w => '-'.repeat(w))))
+  for (const r of rows) console.log(line(cols.map(c => r[c])))
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const signals: EvalSignal[] = buildSyntheticSignals(args.sampleRate)
+  const fixtures = loadWavFixtures(args.fixtures)
+  signals.push(...fixtures.signals)
+
+  const totals: Array<Record<string, string>> = []
+  const byCategory: Array<Record<string, string>> = []
+  const perSignal: Array<Record<string, string>> = []
+  const json: Record<string, Record<string, ReturnType<typeof summarize>>> = {}
+
+  for (const kind of args.detectors) {
+    const total: Record<Pipeline, Stats> = { raw: emptyStats(), 'spike gate': emptyStats() }
+    const categories = new Map<string, Record<Pipeline, Stats>>()
+
+    for (const signal of signals) {
+      const result = evaluateSignal(signal, kind, OPTIONS)
+      const cat = categories.get(signal.category) ?? { raw: emptyStats(), 'spike gate': emptyStats() }
+      categories.set(signal.category, cat)
+      for (const p of PIPELINES) {
+        addStats(total[p], result[p])
+        addStats(cat[p], result[p])
+      }
+      if (args.verbose) perSignal.push({ detector: kind, signal: signal.name, ...summarize(result.raw) })
+    }
+
+    json[kind] = {}
+    for (const p of PIPELINES) {
+      totals.push({ detector: kind, pipeline: pipelineLabel(kind, p), ...summarize(total[p]) })
+      json[kind][p] = summarize(total[p])
+    }
+    for (const [category, stats] of categories) byCategory.push({ detector: kind, category, ...summarize(stats.raw) })
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(json, null, 2))
+    return
+  }
+
+  console.log(`${signals.length} signals (${fixtures.signals.length} recorded), window ${OPTIONS.windowSize}, hop ${OPTIONS.hopMs} ms, clarity ≥ ${OPTIONS.minClarity}`)
+  for (const s of fixtures.skipped) console.log(`skipped fixture: ${s}`)
+  printTable('Overall', totals)
+  printTable('By category (detector output)', byCategory)
+  if (args.verbose) printTable('Per signal (detector output)', perSignal)
+  console.log(
+    `\ngrossErr: detected frames more than ${OPTIONS.grossErrorCents} c off; rmseCents: the remaining frames; ` +
+      `falseFlags: frames PitchDeviationGate would report off-pitch (${OPTIONS.offPitchCents} c) on a perfectly sung note; ` +
+      'onsetMs: note change until the first correct frame.'
+  )
+}
+
+main()
@@ -0,0 +1,153 @@
+// Synthetic evaluation signals with known ground truth.
+// All generators are deterministic (seeded noise) so runs are comparable.
+
+export type EvalSignal = {
+  name: string
+  category: string
+  sampleRate: number
+  samples: Float32Array
+  // Ground-truth f0 at a time (seconds); null where nothing should be detected
+  truthHz: (timeSeconds: number) => number | null
+  // Times where the sung note changes (for onset latency)
+  noteChanges?: number[]
+}
+
+const midiToHz = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12)
+
+// Park–Miller PRNG, uniform in [-1, 1)
+function noiseSource(seed: number) {
+  let s = seed
+  return () => {
+    s = (s * 16807) % 2147483647
+    return (s / 2147483647) * 2 - 1
+  }
+}
+
+// A sung-vowel stand-in: harmonic series with a falling spectrum (or given
+// amplitudes), short fades, phase accumulated so f0 may move continuously.
+function voice(
+  sampleRate: number,
+  durationSec: number,
+  f0: (t: number) => number | null,
+  harmonics: number[] = [1, 0.6, 0.4, 0.25, 0.15, 0.1]
+): Float32Array {
+  const n = Math.round(durationSec * sampleRate)
+  const out = new Float32Array(n)
+  const phases = new Float64Array(harmonics.length)
+  const norm = harmonics.reduce((a, b) => a + b, 0)
+  for (let i = 0; i < n; i++) {
+    const t = i / sampleRate
+    const f = f0(t)
+    if (f == null) continue
+    let v = 0
+    for (let k = 0; k < harmonics.length; k++) {
+      phases[k] += (2 * Math.PI * f * (k + 1)) / sampleRate
+      v += harmonics[k] * Math.sin(phases[k])
+    }
+    out[i] = (0.25 * v) / norm
+  }
+  return out
+}
+
+function rms(x: Float32Array) {
+  let s = 0
+  for (let i = 0; i < x.length; i++) s += x[i] * x[i]
+  return Math.sqrt(s / Math.max(1, x.length))
+}
+
+function addNoise(x: Float32Array, snrDb: number, seed: number): Float32Array {
+  const next = noiseSource(seed)
+  // Uniform noise in [-a, a] has RMS a/sqrt(3)
+  const noiseRms = rms(x) / Math.pow(10, snrDb / 20)
+  const a = noiseRms * Math.sqrt(3)
+  const out = new Float32Array(x.length)
+  for (let i = 0; i < x.length; i++) out[i] = x[i] + a * next()
+  return out
+}
+
+export function buildSyntheticSignals(sampleRate: number): EvalSignal[] {
+  const signals: EvalSignal[] = []
+  const steady = (name: string, midi: number, harmonics?: number[], category = 'steady') => {
+    const hz = midiToHz(midi)
+    signals.push({
+      name,
+      category,
+      sampleRate,
+      samples: voice(sampleRate, 2, () => hz, harmonics),
+      truthHz: () => hz
+    })
+  }
+
+  // Across the choir range
+  steady('bass E2', 40)
+  steady('bass G2', 43)
+  steady('tenor D3', 50)
+  steady('alto A3', 57)
+  steady('alto E4', 64)
+  steady('soprano A4', 69)
+  steady('soprano A5', 81)
+
+  // Octave-ambiguous: weak fundamental, dominant second harmonic
+  steady('weak fundamental G2', 43, [0.15, 1, 0.5, 0.3], 'octave')
+  steady('weak fundamental A2', 45, [0.1, 1, 0.2, 0.4], 'octave')
+  steady('weak fundamental A3', 57, [0.2, 1, 0.3], 'octave')
+
+  // Vibrato: 5.5 Hz, ±60 cents
+  {
+    const base = 57
+    const f0 = (t: number) => midiToHz(base + 0.6 * Math.sin(2 * Math.PI * 5.5 * t))
+    signals.push({ name: 'vibrato A3 ±60c', category: 'vibrato', sampleRate, samples: voice(sampleRate, 3, f0), truthHz: f0 })
+  }
+  {
+    const base = 45
+    const f0 = (t: number) => midiToHz(base + 0.4 * Math.sin(2 * Math.PI * 5 * t))
+    signals.push({ name: 'vibrato A2 ±40c', category: 'vibrato', sampleRate, samples: voice(sampleRate, 3, f0), truthHz: f0 })
+  }
+
+  // Glides (scoops): one octave up, a fifth down
+  {
+    const f0 = (t: number) => midiToHz(48 + 12 * Math.min(1, t / 1.5))
+    signals.push({ name: 'glide C3→C4', category: 'glide', sampleRate, samples: voice(sampleRate, 2, f0), truthHz: f0 })
+  }
+  {
+    const f0 = (t: number) => midiToHz(76 - 7 * Math.min(1, t / 0.8))
+    signals.push({ name: 'glide E5→A4', category: 'glide', sampleRate, samples: voice(sampleRate, 1.6, f0), truthHz: f0 })
+  }
+
+  // Legato note changes (onset latency)
+  {
+    const notes = [57, 60, 64, 57, 52, 55]
+    const len = 0.6
+    const f0 = (t: number) => midiToHz(notes[Math.min(notes.length - 1, Math.floor(t / len))])
+    signals.push({
+      name: 'steps A3 C4 E4 A3 E3 G3',
+      category: 'steps',
+      sampleRate,
+      samples: voice(sampleRate, notes.length * len, f0),
+      truthHz: f0,
+      noteChanges: notes.slice(1).map((_, i) => (i + 1) * len)
+    })
+  }
+
+  // Noise at decreasing SNR
+  const clean = voice(sampleRate, 2, () => midiToHz(57))
+  for (const snr of [20, 10, 5, 0]) {
+    signals.push({
+      name: `alto A3 SNR ${snr} dB`,
+      category: 'noise',
+      sampleRate,
+      samples: addNoise(clean, snr, 1000 + snr),
+      truthHz: () => midiToHz(57)
+    })
+  }
+
+  // Breath / room noise only: everything detected is a false voicing
+  {
+    const next = noiseSource(7)
+    const samples = new Float32Array(2 * sampleRate)
+    for (let i = 0; i < samples.length; i++) samples[i] = 0.02 * next()
+    signals.push({ name: 'noise only', category: 'unvoiced', sampleRate, samples, truthHz: () => null })
+  }
+
+  return signals
+}
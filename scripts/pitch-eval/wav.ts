@@ -0,0 +1,107 @@
+// Recorded fixtures: <name>.wav with ground truth in <name>.f0.csv
+// ("time_seconds,hz" per line, hz <= 0 for unvoiced; e.g. exported from
+// Sonic Visualiser / pYIN and corrected by hand).
+
+import { readdirSync, readFileSync, existsSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import type { EvalSignal } from './signals'
+
+type Wav = { sampleRate: number; samples: Float32Array }
+
+// PCM 16/24/32-bit or float32, any channel count (mixed down to mono).
+export function decodeWav(buf: Buffer): Wav {
+  if (buf.toString('ascii', 0, 4) !== 'RIFF' || buf.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('not a RIFF/WAVE file')
+  }
+  let offset = 12
+  let format = 0
+  let channels = 0
+  let sampleRate = 0
+  let bits = 0
+  while (offset + 8 <= buf.length) {
+    const id = buf.toString('ascii', offset, offset + 4)
+    const size = buf.readUInt32LE(offset + 4)
+    const body = offset + 8
+    if (id === 'fmt ') {
+      format = buf.readUInt16LE(body)
+      channels = buf.readUInt16LE(body + 2)
+      sampleRate = buf.readUInt32LE(body + 4)
+      bits = buf.readUInt16LE(body + 14)
+      // WAVE_FORMAT_EXTENSIBLE: the real format is in the sub-format GUID
+      if (format === 0xfffe) format = buf.readUInt16LE(body + 24)
+    } else if (id === 'data') {
+      if (!channels) throw new Error('data chunk before fmt chunk')
+      const bytes = bits / 8
+      const frames = Math.floor(Math.min(size, buf.length - body) / (bytes * channels))
+      const samples = new Float32Array(frames)
+      for (let i = 0; i < frames; i++) {
+        let v = 0
+        for (let c = 0; c < channels; c++) {
+          const p = body + (i * channels + c) * bytes
+          if (format === 3 && bits === 32) v += buf.readFloatLE(p)
+          else if (format === 1 && bits === 16) v += buf.readInt16LE(p) / 32768
+          else if (format === 1 && bits === 24) v += buf.readIntLE(p, 3) / 8388608
+          else if (format === 1 && bits === 32) v += buf.readInt32LE(p) / 2147483648
+          else throw new Error(`unsupported WAV format ${format} / ${bits} bit`)
+        }
+        samples[i] = v / channels
+      }
+      return { sampleRate, samples }
+    }
+    offset = body + size + (size & 1)
+  }
+  throw new Error('no data chunk')
+}
+
+function parseF0Csv(text: string): Array<[number, number]> {
+  const rows: Array<[number, number]> = []
+  for (const line of text.split(/\r?\n/)) {
+    const [a, b] = line.split(/[,;\t]/).map(s => Number(s.trim()))
+    if (Number.isFinite(a) && Number.isFinite(b)) rows.push([a, b])
+  }
+  return rows.sort((x, y) => x[0] - y[0])
+}
+
+// Nearest annotated frame (annotations are usually on a fine, regular hop)
+function truthFromRows(rows: Array<[number, number]>) {
+  return (t: number): number | null => {
+    if (!rows.length) return null
+    let lo = 0
+    let hi = rows.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (rows[mid][0] < t) lo = mid + 1
+      else hi = mid
+    }
+    const i = lo > 0 && Math.abs(rows[lo - 1][0] - t) < Math.abs(rows[lo][0] - t) ? lo - 1 : lo
+    return rows[i][1] > 0 ? rows[i][1] : null
+  }
+}
+
+export function loadWavFixtures(dir: string): { signals: EvalSignal[]; skipped: string[] } {
+  const signals: EvalSignal[] = []
+  const skipped: string[] = []
+  if (!existsSync(dir)) return { signals, skipped }
+
+  for (const file of readdirSync(dir).filter(f => f.toLowerCase().endsWith('.wav')).sort()) {
+    const name = basename(file, '.wav')
+    const csv = join(dir, `${name}.f0.csv`)
+    if (!existsSync(csv)) {
+      skipped.push(`${file} (no ${name}.f0.csv)`)
+      continue
+    }
+    try {
+      const wav = decodeWav(readFileSync(join(dir, file)))
+      signals.push({
+        name,
+        category: 'recorded',
+        sampleRate: wav.sampleRate,
+        samples: wav.samples,
+        truthHz: truthFromRows(parseF0Csv(readFileSync(csv, 'utf8')))
+      })
+    } catch (e) {
+      skipped.push(`${file} (${e instanceof Error ? e.message : String(e)})`)
+    }
+  }
+  return { signals, skipped }
+}
@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server'
+import { getSupabaseAdmin } from '../../../../../lib/supabaseAdmin'
+import { requireUser } from '../../../_auth'
+
+const WINDOW_DAYS = 180
+const MAX_ROWS = 5000
+const HISTORY_LEN = 10
+
+type MemberTakes = { values: number[]; last: string }
+
+type MemberPractice = {
+  userId: string
+  displayName: string
+  takes: number
+  lastPractisedAt: string
+  latestInTune: number
+  // latest take vs. the average of the (up to 3) takes before it; null with a single take
+  trend: number | null
+  history: number[] // in-tune share of the most recent takes, oldest first
+}
+
+export async function GET(
+  request: Request,
+  ctx: { params: Promise<{ groupId: string }> }
+) {
+  const user = await requireUser(request)
+  if (!user.email_confirmed_at) {
+    return NextResponse.json({ error: 'Email not verified' }, { status: 403 })
+  }
+
+  const { groupId } = await ctx.params
+  const supabase = getSupabaseAdmin()
+
+  // Ensure caller is an active admin in this group.
+  const { data: m, error: em } = await supabase
+    .from('group_memberships')
+    .select('role,status')
+    .eq('group_id', groupId)
+    .eq('user_id', user.id)
+    .maybeSingle()
+  if (em) return NextResponse.json({ error: em.message }, { status: 500 })
+  if (!m || m.status !== 'active' || m.role !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+  }
+
+  const { data: scoreRows, error: es } = await supabase
+    .from('group_scores')
+    .select('id,filename,display_name,sort_order,created_at')
+    .eq('group_id', groupId)
+    .order('sort_order', { ascending: true, nullsFirst: false })
+    .order('created_at', { ascending: true })
+  if (es) return NextResponse.json({ error: es.message }, { status: 500 })
+
+  const { data: memberRows, error: emb } = await supabase
+    .from('group_memberships')
+    .select('user_id,profiles:profiles(email,display_name,share_practice)')
+    .eq('group_id', groupId)
+    .eq('status', 'active')
+  if (emb) return NextResponse.json({ error: emb.message }, { status: 500 })
+
+  // Members who opted out of sharing are left out entirely (only counted).
+  const sharing = new Map<string, string>()
+  let optedOut = 0
+  for (const r of (memberRows ?? []) as any[]) {
+    if (r.profiles?.share_practice === false) {
+      optedOut++
+      continue
+    }
+    sharing.set(r.user_id as string, r.profiles?.display_name || r.profiles?.email || r.user_id)
+  }
+
+  const scoreIds = (scoreRows ?? []).map((s: any) => s.id as string)
+  let sessions: any[] = []
+  if (scoreIds.length && sharing.size) {
+    const since = new Date(Date.now() - WINDOW_DAYS * 24 * 3600 * 1000).toISOString()
+    const { data, error } = await supabase
+      .from('practice_sessions')
+      .select('user_id,group_score_id,voice,voice_label,in_tune_fraction,created_at')
+      .in('group_score_id', scoreIds)
+      .in('user_id', Array.from(sharing.keys()))
+      .gte('created_at', since)
+      // Newest first so the row limit drops the oldest sessions, then back to oldest first
+      .order('created_at', { ascending: false })
+      .limit(MAX_ROWS)
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 })
+    sessions = (data ?? []).reverse()
+  }
+
+  // score -> voice part -> member -> in-tune values (oldest first)
+  const tree = new Map<string, Map<string, Map<string, MemberTakes>>>()
+  for (const s of sessions) {
+    const voice = (s.voice_label || s.voice) as string
+    const byVoice = tree.get(s.group_score_id) ?? new Map<string, Map<string, MemberTakes>>()
+    tree.set(s.group_score_id, byVoice)
+    const byMember = byVoice.get(voice) ?? new Map<string, MemberTakes>()
+    byVoice.set(voice, byMember)
+    const entry: MemberTakes = byMember.get(s.user_id) ?? { values: [], last: s.created_at }
+    entry.values.push(Number(s.in_tune_fraction))
+    entry.last = s.created_at
+    byMember.set(s.user_id, entry)
+  }
+
+  const scores = (scoreRows ?? []).map((score: any) => {
+    const byVoice = tree.get(score.id) ?? new Map<string, Map<string, MemberTakes>>()
+    const practised = new Set<string>()
+    const voices = Array.from(byVoice.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([voice, byMember]) => {
+        const members: MemberPractice[] = Array.from(byMember.entries()).map(([userId, e]) => {
+          practised.add(userId)
+          const latest = e.values[e.values.length - 1]
+          const previous = e.values.slice(-4, -1)
+          return {
+            userId,
+            displayName: sharing.get(userId) ?? userId,
+            takes: e.values.length,
+            lastPractisedAt: e.last,
+            latestInTune: latest,
+            trend: previous.length ? latest - previous.reduce((a, b) => a + b, 0) / previous.length : null,
+            history: e.values.slice(-HISTORY_LEN),
+          }
+        })
+        members.sort((a, b) => b.lastPractisedAt.localeCompare(a.lastPractisedAt))
+        return { voice, members }
+      })
+
+    const notPractised = Array.from(sharing.entries())
+      .filter(([userId]) => !practised.has(userId))
+      .map(([userId, displayName]) => ({ userId, displayName }))
+
+    return {
+      scoreId: score.id as string,
+      title: ((score.display_name || score.filename) as string).trim(),
+      voices,
+      notPractised,
+    }
+  })
+
+  return NextResponse.json({ scores, sharingCount: sharing.size, optedOutCount: optedOut, windowDays: WINDOW_DAYS })
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { deleteGroupWarmup, GroupWarmup, listGroupWarmups, warmupPlayHref } from '../../../lib/groupWarmups'
+import { WARMUP_PATTERNS, WARMUP_RANGES } from '../../../utils/warmupGenerator'
+import styles from './group.module.css'
+
+/**
+ * The group's saved warm-up routines. Everyone can play them; admins can add,
+ * edit and remove them.
+ */
+export function GroupWarmups(props: { groupId: string; supabase: SupabaseClient; canAdmin: boolean }) {
+  const { groupId, supabase, canAdmin } = props
+  const [warmups, setWarmups] = useState<GroupWarmup[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!groupId) return
+    setLoading(true)
+    setError(null)
+    try {
+      setWarmups(await listGroupWarmups(supabase, groupId))
+    } catch (e: any) {
+      setError(e?.message ? String(e.message) : 'Failed to load warm-ups')
+    } finally {
+      setLoading(false)
+    }
+  }, [groupId, supabase])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  async function handleDelete(w: GroupWarmup) {
+    if (!confirm(`Delete the warm-up "${w.name}"?`)) return
+    try {
+      await deleteGroupWarmup(supabase, groupId, w.id)
+      await refresh()
+    } catch (e: any) {
+      setError(e?.message ? String(e.message) : 'Failed to delete warm-up')
+    }
+  }
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.row} style={{ justifyContent: 'space-between' }}>
+        <div className={styles.sectionTitle} style={{ marginBottom: 0 }}>
+          Warm-ups
+        </div>
+        {canAdmin && (
+          <a className={styles.btn} href={`/warmups?groupId=${groupId}`}>
+            New warm-up
+          </a>
+        )}
+      </div>
+
+      {loading && <div className={styles.mutedDark} style={{ marginTop: 10 }}>Loading…</div>}
+      {error && <div style={{ marginTop: 10, color: '#991b1b', fontWeight: 700 }}>{error}</div>}
+      {!loading && !error && warmups.length === 0 && (
+        <div className={styles.mutedDark} style={{ marginTop: 10 }}>No warm-ups saved yet.</div>
+      )}
+
+      {warmups.length > 0 && (
+        <div style={{ display: 'grid', gap: 10, marginTop: 10 }}>
+          {warmups.map((w) => (
+            <div
+              key={w.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: 10,
+                padding: 12,
+                borderRadius: 12,
+                border: '1px solid #e5e7eb',
+                background: '#ffffff',
+                flexWrap: 'wrap',
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 700, color: '#111827' }}>{w.name}</div>
+                <div className={styles.mutedDark} style={{ fontSize: 13 }}>
+                  {WARMUP_RANGES[w.routine.range].label} ·{' '}
+                  {w.routine.exercises.map((e) => WARMUP_PATTERNS[e.pattern].label).join(', ')}
+                </div>
+              </div>
+              <div className={styles.row}>
+                <a
+                  className={`${styles.iconBtn} ${styles.iconBtnDark}`}
+                  style={{ width: 36, height: 36 }}
+                  href={warmupPlayHref(w.routine)}
+                  title="Play"
+                  aria-label="Play"
+                >
+                  <svg width="18" height="18" viewBox="0 0 24 24" fill="none" aria-hidden="true">
+                    <path d="M9 7v10l8-5-8-5Z" fill="currentColor" />
+                  </svg>
+                </a>
+                {canAdmin && (
+                  <>
+                    <a className={styles.btn} href={`/warmups?groupId=${groupId}&warmupId=${w.id}`}>
+                      Edit
+                    </a>
+                    <button className={styles.btn} type="button" onClick={() => handleDelete(w)}>
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import styles from './group.module.css'
+
+type MemberPractice = {
+  userId: string
+  displayName: string
+  takes: number
+  lastPractisedAt: string
+  latestInTune: number
+  trend: number | null
+  history: number[]
+}
+
+type ScorePractice = {
+  scoreId: string
+  title: string
+  voices: Array<{ voice: string; members: MemberPractice[] }>
+  notPractised: Array<{ userId: string; displayName: string }>
+}
+
+type DashboardData = {
+  scores: ScorePractice[]
+  sharingCount: number
+  optedOutCount: number
+  windowDays: number
+}
+
+function pct(v: number) {
+  return `${Math.round(v * 100)}%`
+}
+
+function daysAgo(iso: string) {
+  const d = Math.floor((Date.now() - new Date(iso).getTime()) / (24 * 3600 * 1000))
+  if (d <= 0) return 'today'
+  if (d === 1) return 'yesterday'
+  return `${d} days ago`
+}
+
+// Older than this and a member's practice is shown as stale
+const STALE_DAYS = 14
+
+function TrendBadge({ trend }: { trend: number | null }) {
+  if (trend == null) return <span className={styles.mutedDark}>—</span>
+  const pts = Math.round(trend * 100)
+  const color = pts > 2 ? '#166534' : pts < -2 ? '#991b1b' : '#6b7280'
+  const arrow = pts > 2 ? '↑' : pts < -2 ? '↓' : '→'
+  return (
+    <span style={{ color, fontWeight: 700 }} title="Latest take vs. the takes before it">
+      {arrow} {pts > 0 ? '+' : ''}
+      {pts}
+    </span>
+  )
+}
+
+function MiniBars({ values }: { values: number[] }) {
+  return (
+    <span style={{ display: 'inline-flex', alignItems: 'flex-end', gap: 2, height: 20 }} aria-hidden="true">
+      {values.map((v, i) => (
+        <span key={i} style={{ width: 5, height: Math.max(2, Math.round(v * 20)), background: '#93c5fd', borderRadius: 1 }} />
+      ))}
+    </span>
+  )
+}
+
+/**
+ * Leader view of section readiness: per repertoire score and voice part, who
+ * has practised, how recently, and how their accuracy develops.
+ */
+export function PracticeDashboard(props: { groupId: string; sessionToken: string | null }) {
+  const { groupId, sessionToken } = props
+  const [data, setData] = useState<DashboardData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!sessionToken || !groupId) return
+    setLoading(true)
+    setError(null)
+    try {
+      const r = await fetch(`/api/groups/${groupId}/practice`, {
+        headers: { Authorization: `Bearer ${sessionToken}` },
+      })
+      const j = await r.json().catch(() => ({}))
+      if (!r.ok) throw new Error(j?.error || `HTTP ${r.status}`)
+      setData(j as DashboardData)
+    } catch (e: any) {
+      setError(e?.message ? String(e.message) : 'Failed to load dashboard')
+    } finally {
+      setLoading(false)
+    }
+  }, [groupId, sessionToken])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return (
+    <>
+      <div className={styles.card}>
+        <div className={styles.row} style={{ justifyContent: 'space-between' }}>
+          <div className={styles.sectionTitle} style={{ marginBottom: 0 }}>
+            Section readiness
+          </div>
+          <button className={styles.btn} onClick={refresh} disabled={!sessionToken || loading}>
+            Refresh
+          </button>
+        </div>
+        <div className={styles.mutedDark} style={{ marginTop: 8 }}>
+          Practice takes from the last {data?.windowDays ?? '—'} days, per score and voice part. Accuracy is the share of
+          notes sung in tune.
+          {data && data.optedOutCount > 0 && ` ${data.optedOutCount} member(s) have chosen not to share their practice.`}
+        </div>
+        {loading && <div className={styles.mutedDark} style={{ marginTop: 10 }}>Loading…</div>}
+        {error && <div style={{ marginTop: 10, color: '#991b1b', fontWeight: 800 }}>{error}</div>}
+        {data && !loading && data.scores.length === 0 && (
+          <div className={styles.mutedDark} style={{ marginTop: 10 }}>No scores in the repertoire yet.</div>
+        )}
+      </div>
+
+      {data?.scores.map((score) => (
+        <div key={score.scoreId} className={styles.card}>
+          <div className={styles.sectionTitle}>{score.title}</div>
+
+          {score.voices.length === 0 && <div className={styles.mutedDark}>Nobody has practised this score yet.</div>}
+
+          {score.voices.map((v) => (
+            <div key={v.voice} style={{ marginTop: 12 }}>
+              <div style={{ fontWeight: 700, color: '#374151', marginBottom: 6 }}>
+                {v.voice} <span className={styles.mutedDark} style={{ fontWeight: 400 }}>· {v.members.length} practised</span>
+              </div>
+              <div style={{ display: 'grid', gap: 6 }}>
+                {v.members.map((m) => {
+                  const stale = Date.now() - new Date(m.lastPractisedAt).getTime() > STALE_DAYS * 24 * 3600 * 1000
+                  return (
+                    <div
+                      key={m.userId}
+                      style={{
+                        display: 'grid',
+                        gridTemplateColumns: 'minmax(120px, 1.5fr) 1fr 1fr auto auto',
+                        alignItems: 'center',
+                        gap: 10,
+                        padding: '8px 12px',
+                        borderRadius: 10,
+                        border: '1px solid #e5e7eb',
+                        fontSize: 14,
+                        color: '#111827',
+                      }}
+                    >
+                      <div style={{ fontWeight: 600 }}>{m.displayName}</div>
+                      <div style={{ color: stale ? '#92400e' : '#6b7280' }}>{daysAgo(m.lastPractisedAt)}</div>
+                      <div className={styles.mutedDark}>
+                        {m.takes} take{m.takes === 1 ? '' : 's'}
+                      </div>
+                      <MiniBars values={m.history} />
+                      <div style={{ textAlign: 'right', minWidth: 90 }}>
+                        <strong>{pct(m.latestInTune)}</strong> <TrendBadge trend={m.trend} />
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+
+          {score.notPractised.length > 0 && (
+            <div className={styles.mutedDark} style={{ marginTop: 12, fontSize: 13 }}>
+              Not practised yet: {score.notPractised.map((m) => m.displayName).join(', ')}
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  )
+}
@@ -6,6 +6,8 @@ import { getSupabaseBrowser } from '../../../lib/supabaseBrowser'
 import styles from './group.module.css'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
+import { PracticeDashboard } from './PracticeDashboard'
+import { GroupWarmups } from './GroupWarmups'
 
 type Membership = {
   role: 'admin' | 'member'
@@ -94,6 +96,9 @@ export default function GroupPage() {
   const [uploadDraftExpiresAt, setUploadDraftExpiresAt] = useState<string>('')
   const [uploadDraftDisplayName, setUploadDraftDisplayName] = useState<string>('')
 
+  // Admins switch between the group page and the practice dashboard
+  const [tab, setTab] = useState<'group' | 'dashboard'>('group')
+
   const [scoreEditId, setScoreEditId] = useState<string | null>(null)
   const [scoreEditDisplayName, setScoreEditDisplayName] = useState<string>('')
   const [scoreEditExpiresAt, setScoreEditExpiresAt] = useState<string>('')
@@ -617,7 +622,32 @@ export default function GroupPage() {
           </div>
         )}
 
-        {!error && (
+        {!error && canAdmin && (
+          <div className={styles.tabs} role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={tab === 'group'}
+              className={`${styles.tab} ${tab === 'group' ? styles.tabActive : ''}`}
+              onClick={() => setTab('group')}
+            >
+              Group
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={tab === 'dashboard'}
+              className={`${styles.tab} ${tab === 'dashboard' ? styles.tabActive : ''}`}
+              onClick={() => setTab('dashboard')}
+            >
+              Dashboard
+            </button>
+          </div>
+        )}
+
+        {!error && canAdmin && tab === 'dashboard' && <PracticeDashboard groupId={groupId} sessionToken={sessionToken} />}
+
+        {!error && (!canAdmin || tab === 'group') && (
           <>
             {coverError && (
               <div className={styles.card}>
@@ -1137,7 +1167,7 @@ export default function GroupPage() {
                               <a
                                 className={`${styles.iconBtn} ${styles.iconBtnDark}`}
                                 style={{ width: 36, height: 36 }}
-                                href={`/play?scoreUrl=${encodeURIComponent(url)}`}
+                                href={`/play?scoreUrl=${encodeURIComponent(url)}&scoreId=${s.id}&title=${encodeURIComponent(title)}`}
                                 title="Play"
                                 aria-label="Play"
                               >
@@ -1519,6 +1549,8 @@ export default function GroupPage() {
               )}
             </div>
 
+            {membership?.status === 'active' && <GroupWarmups groupId={groupId} supabase={supabase} canAdmin={canAdmin} />}
+
             {membership?.status === 'active' && (
               <div className={styles.card}>
                 <div className={styles.sectionTitle}>Danger zone</div>
@@ -17,6 +17,12 @@ export default function HomePage() {
                 <a className={styles.btn} href="/play">
                   Play locally
                 </a>
+                <a className={styles.btn} href="/train">
+                  Ear training
+                </a>
+                <a className={styles.btn} href="/warmups">
+                  Warm-ups
+                </a>
                 <a className={styles.btn} href="/auth">
                   Log in
                 </a>
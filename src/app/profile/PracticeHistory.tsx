@@ -0,0 +1,158 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { listPracticeSessions, practicePieceKey, PracticeSessionRow } from '../../lib/practiceSessions'
+
+type Piece = {
+  key: string
+  title: string
+  sessions: PracticeSessionRow[] // oldest first
+}
+
+const SPARK_W = 180
+const SPARK_H = 36
+
+function pct(v: number) {
+  return `${Math.round(v * 100)}%`
+}
+
+function formatMinutes(seconds: number) {
+  const m = Math.round(seconds / 60)
+  return m < 1 ? '<1 min' : `${m} min`
+}
+
+// In-tune share per session over time (0% bottom, 100% top)
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return null
+  const step = SPARK_W / (values.length - 1)
+  const points = values.map((v, i) => `${(i * step).toFixed(1)},${(SPARK_H - v * SPARK_H).toFixed(1)}`).join(' ')
+  return (
+    <svg width={SPARK_W} height={SPARK_H} viewBox={`0 0 ${SPARK_W} ${SPARK_H}`} aria-hidden="true">
+      <line x1={0} y1={SPARK_H / 2} x2={SPARK_W} y2={SPARK_H / 2} stroke="#e5e7eb" strokeDasharray="3 3" />
+      <polyline points={points} fill="none" stroke="#2563eb" strokeWidth={2} strokeLinejoin="round" />
+    </svg>
+  )
+}
+
+export function PracticeHistory(props: { supabase: SupabaseClient; userId: string | null }) {
+  const { supabase, userId } = props
+  const [rows, setRows] = useState<PracticeSessionRow[]>([])
+  const [scoreTitles, setScoreTitles] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    async function load() {
+      if (!userId) return
+      setLoading(true)
+      setError(null)
+      try {
+        const sessions = await listPracticeSessions(supabase)
+        if (cancelled) return
+        setRows(sessions)
+
+        // Current names of group scores (still visible while you are a member)
+        const ids = Array.from(new Set(sessions.map((s) => s.group_score_id).filter((id): id is string => !!id)))
+        if (ids.length) {
+          const { data } = await supabase.from('group_scores').select('id,display_name,filename').in('id', ids)
+          if (cancelled) return
+          const titles: Record<string, string> = {}
+          for (const s of data ?? []) titles[s.id] = (s.display_name || s.filename || '').trim()
+          setScoreTitles(titles)
+        }
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message ? String(e.message) : 'Failed to load practice history')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [supabase, userId])
+
+  const pieces = useMemo(() => {
+    const byKey = new Map<string, Piece>()
+    for (const row of rows) {
+      const key = practicePieceKey(row)
+      let piece = byKey.get(key)
+      if (!piece) {
+        const title = (row.group_score_id && scoreTitles[row.group_score_id]) || row.score_title || 'Untitled score'
+        piece = { key, title, sessions: [] }
+        byKey.set(key, piece)
+      }
+      piece.sessions.push(row)
+    }
+    // rows arrive newest first: keep pieces in order of last practice, sessions oldest first
+    return Array.from(byKey.values()).map((p) => ({ ...p, sessions: p.sessions.slice().reverse() }))
+  }, [rows, scoreTitles])
+
+  return (
+    <div style={{ marginTop: 16, background: '#fff', border: '1px solid #e5e7eb', borderRadius: 16, padding: 18 }}>
+      <div style={{ fontWeight: 700, color: '#111827' }}>Practice history</div>
+      <div style={{ color: '#6b7280', marginTop: 6 }}>
+        Every take you sing with the microphone on is scored. Progress per piece (share of notes in tune).
+      </div>
+
+      {loading && <div style={{ color: '#6b7280', marginTop: 12 }}>Loading…</div>}
+      {error && <div style={{ color: '#991b1b', marginTop: 12 }}>{error}</div>}
+      {!loading && !error && pieces.length === 0 && (
+        <div style={{ color: '#6b7280', marginTop: 12 }}>No practice recorded yet.</div>
+      )}
+
+      <div style={{ marginTop: 12, display: 'grid', gap: 10 }}>
+        {pieces.map((p) => {
+          const first = p.sessions[0]
+          const last = p.sessions[p.sessions.length - 1]
+          const best = Math.max(...p.sessions.map((s) => s.in_tune_fraction))
+          const totalSec = p.sessions.reduce((sum, s) => sum + s.duration_seconds, 0)
+          const delta = last.in_tune_fraction - first.in_tune_fraction
+          const voices = Array.from(new Set(p.sessions.map((s) => s.voice_label || s.voice))).join(', ')
+          return (
+            <div
+              key={p.key}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: 12,
+                padding: 12,
+                borderRadius: 12,
+                border: '1px solid #e5e7eb',
+                flexWrap: 'wrap',
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 700, color: '#111827' }}>{p.title}</div>
+                <div style={{ color: '#6b7280', fontSize: 13, marginTop: 4 }}>
+                  {p.sessions.length} take{p.sessions.length === 1 ? '' : 's'} · {formatMinutes(totalSec)} · {voices}
+                </div>
+                <div style={{ color: '#6b7280', fontSize: 13, marginTop: 2 }}>
+                  Last: {new Date(last.created_at).toLocaleDateString()} ({last.tempo_multiplier}x, {last.difficulty})
+                </div>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 14 }}>
+                <Sparkline values={p.sessions.map((s) => s.in_tune_fraction)} />
+                <div style={{ textAlign: 'right', fontSize: 13, color: '#374151' }}>
+                  <div>
+                    <strong style={{ fontSize: 16, color: '#111827' }}>{pct(last.in_tune_fraction)}</strong> latest
+                  </div>
+                  <div>best {pct(best)}</div>
+                  {p.sessions.length > 1 && (
+                    <div style={{ color: delta >= 0 ? '#166534' : '#991b1b' }}>
+                      {delta >= 0 ? '+' : '−'}
+                      {Math.abs(Math.round(delta * 100))} pts since first
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
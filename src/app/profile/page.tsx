@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { getSupabaseBrowser } from '../../lib/supabaseBrowser'
+import { PracticeHistory } from './PracticeHistory'
 
 export default function ProfilePage() {
   const router = useRouter()
@@ -19,6 +20,8 @@ export default function ProfilePage() {
   const [avatarPath, setAvatarPath] = useState<string | null>(null)
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null)
   const [avatarBusy, setAvatarBusy] = useState(false)
+  const [sharePractice, setSharePractice] = useState(true)
+  const [shareBusy, setShareBusy] = useState(false)
   const [pw1, setPw1] = useState('')
   const [pw2, setPw2] = useState('')
   const [pwBusy, setPwBusy] = useState(false)
@@ -47,11 +50,12 @@ export default function ProfilePage() {
       if (!userId) return
       setError(null)
       try {
-        const { data, error } = await supabase.from('profiles').select('display_name,avatar_path').eq('id', userId).maybeSingle()
+        const { data, error } = await supabase.from('profiles').select('display_name,avatar_path,share_practice').eq('id', userId).maybeSingle()
         if (error) throw error
         if (!cancelled) {
           setDisplayName(data?.display_name ?? '')
           setAvatarPath(data?.avatar_path ?? null)
+          setSharePractice(data?.share_practice !== false)
         }
       } catch {
         // ignore (schema might not be applied yet)
@@ -203,6 +207,23 @@ export default function ProfilePage() {
     }
   }
 
+  async function saveSharePractice(next: boolean) {
+    if (!userId) return
+    setError(null)
+    setStatus(null)
+    setShareBusy(true)
+    try {
+      const { error } = await supabase.from('profiles').upsert({ id: userId, email: email ?? null, share_practice: next })
+      if (error) throw error
+      setSharePractice(next)
+      setStatus(next ? 'Group leaders can now see your practice progress.' : 'Your practice progress is now private.')
+    } catch (e: any) {
+      setError(e?.message ? String(e.message) : 'Failed to save setting')
+    } finally {
+      setShareBusy(false)
+    }
+  }
+
   async function changePassword() {
     setError(null)
     setStatus(null)
@@ -414,6 +435,24 @@ export default function ProfilePage() {
         </div>
       </div>
 
+      <PracticeHistory supabase={supabase} userId={userId} />
+
+      <div style={{ marginTop: 16, background: '#fff', border: '1px solid #e5e7eb', borderRadius: 16, padding: 18 }}>
+        <div style={{ fontWeight: 700, color: '#111827' }}>Share practice with group leaders</div>
+        <div style={{ color: '#6b7280', marginTop: 6 }}>
+          Admins of your groups see on their dashboard when you practised their scores and how your accuracy develops.
+        </div>
+        <label style={{ marginTop: 12, display: 'flex', gap: 10, alignItems: 'center', color: '#111827' }}>
+          <input
+            type="checkbox"
+            checked={sharePractice}
+            disabled={shareBusy || !userId}
+            onChange={(e) => saveSharePractice(e.target.checked)}
+          />
+          Share my practice progress
+        </label>
+      </div>
+
       <div style={{ marginTop: 16, background: '#fff', border: '1px solid #e5e7eb', borderRadius: 16, padding: 18 }}>
         <div style={{ fontWeight: 700, color: '#111827' }}>Change password</div>
         <div style={{ color: '#6b7280', marginTop: 6 }}>Choose a new password for your account.</div>
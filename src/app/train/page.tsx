@@ -0,0 +1,404 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getSupabaseBrowser } from '../../lib/supabaseBrowser'
+import {
+  EarTrainingSummary,
+  listEarTrainingResults,
+  recordEarTrainingResult,
+  summarizeEarTraining
+} from '../../lib/earTrainingResults'
+import {
+  ExerciseGrader,
+  ExerciseResult,
+  generateExercise,
+  TRAINER_RANGES,
+  TrainerDifficulty,
+  TrainerExercise,
+  TrainerMode
+} from '../../audio/earTraining'
+import { DEFAULT_DETECTOR_KIND, frequencyToNoteInfo } from '../../audio/pitchDetection'
+import { VoiceSynth } from '../../audio/ScorePlayer'
+import styles from './train.module.css'
+
+const PITCH_WORKLET_URL = '/worklets/pitchDetector.worklet.js'
+const FFT_SIZE = 4096
+const ANALYSIS_INTERVAL_MS = 50
+
+const NOTE_SEC = 0.7             // reference note length
+const LISTEN_DELAY_SEC = 0.25    // let the reference die away before listening
+const LISTEN_SEC_PER_NOTE = 6    // give up on an answer after this long
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+const MODES: Array<{ id: TrainerMode; label: string }> = [
+  { id: 'interval', label: 'Intervals' },
+  { id: 'degree', label: 'Scale degrees' },
+  { id: 'dictation', label: 'Melodic dictation' }
+]
+
+type RangeId = keyof typeof TRAINER_RANGES
+type Phase = 'idle' | 'playing' | 'listening' | 'done'
+
+function midiToNoteName(midi: number): string {
+  const m = Math.round(midi)
+  return NOTE_NAMES[((m % 12) + 12) % 12] + (Math.floor(m / 12) - 1)
+}
+
+function midiToFreq(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12)
+}
+
+export default function TrainPage() {
+  const supabase = useMemo(() => getSupabaseBrowser(), [])
+  const [signedIn, setSignedIn] = useState(false)
+  const [summary, setSummary] = useState<EarTrainingSummary[]>([])
+
+  const [mode, setMode] = useState<TrainerMode>('interval')
+  const [difficulty, setDifficulty] = useState<TrainerDifficulty>('normal')
+  const [rangeId, setRangeId] = useState<RangeId>('alto')
+
+  const [exercise, setExercise] = useState<TrainerExercise | null>(null)
+  const [phase, setPhase] = useState<Phase>('idle')
+  const [noteIndex, setNoteIndex] = useState(0)
+  const [live, setLive] = useState<{ noteName: string; centsOff: number } | null>(null)
+  const [result, setResult] = useState<ExerciseResult | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const micStreamRef = useRef<MediaStream | null>(null)
+  const micSourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null)
+  const pitchWorkletNodeRef = useRef<AudioWorkletNode | null>(null)
+  const pitchWorkletTapGainRef = useRef<GainNode | null>(null)
+  const synthRef = useRef<VoiceSynth | null>(null)
+
+  // Read from the worklet message handler (set up once per mic session)
+  const exerciseRef = useRef<TrainerExercise | null>(null)
+  const difficultyRef = useRef(difficulty)
+  const phaseRef = useRef<Phase>('idle')
+  const graderRef = useRef<ExerciseGrader | null>(null)
+  const listenFromRef = useRef(0)   // AudioContext time when the answer may start
+  const listenUntilRef = useRef(0)
+
+  useEffect(() => {
+    let cancelled = false
+    supabase.auth.getSession().then(({ data }) => {
+      if (cancelled) return
+      setSignedIn(!!data.session?.user)
+      if (data.session?.user) void loadSummary()
+    })
+    return () => {
+      cancelled = true
+      stopMic()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [supabase])
+
+  async function loadSummary() {
+    try {
+      setSummary(summarizeEarTraining(await listEarTrainingResults(supabase)))
+    } catch {
+      // ignore (schema might not be applied yet)
+    }
+  }
+
+  function updatePhase(next: Phase) {
+    phaseRef.current = next
+    setPhase(next)
+  }
+
+  /* =========================
+     MIC (same worklet as the score player)
+  ========================= */
+  async function ensureMic(): Promise<AudioContext> {
+    if (!audioContextRef.current) audioContextRef.current = new AudioContext()
+    const ctx = audioContextRef.current
+    try { if (ctx.state === 'suspended') await ctx.resume() } catch {}
+    if (pitchWorkletNodeRef.current) return ctx
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+    })
+    micStreamRef.current = stream
+    if (!ctx.audioWorklet || typeof ctx.audioWorklet.addModule !== 'function') {
+      throw new Error('AudioWorklet is not supported in this browser (required).')
+    }
+    await ctx.audioWorklet.addModule(PITCH_WORKLET_URL)
+
+    const source = ctx.createMediaStreamSource(stream)
+    const node = new AudioWorkletNode(ctx, 'pitch-detector', {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: { windowSize: FFT_SIZE, analysisIntervalMs: ANALYSIS_INTERVAL_MS, detector: DEFAULT_DETECTOR_KIND }
+    })
+    // Keep the node pulled by the graph but (effectively) silent.
+    const tap = ctx.createGain()
+    tap.gain.value = 0.0001
+    source.connect(node)
+    node.connect(tap)
+    tap.connect(ctx.destination)
+    node.port.onmessage = (ev: MessageEvent<any>) => handlePitchMessage(ev.data)
+
+    micSourceNodeRef.current = source
+    pitchWorkletNodeRef.current = node
+    pitchWorkletTapGainRef.current = tap
+    return ctx
+  }
+
+  function stopMic() {
+    stopReference()
+    try {
+      if (pitchWorkletNodeRef.current) pitchWorkletNodeRef.current.port.onmessage = null as any
+    } catch {}
+    try { pitchWorkletNodeRef.current?.disconnect() } catch {}
+    try { pitchWorkletTapGainRef.current?.disconnect() } catch {}
+    try { micSourceNodeRef.current?.disconnect() } catch {}
+    pitchWorkletNodeRef.current = null
+    pitchWorkletTapGainRef.current = null
+    micSourceNodeRef.current = null
+    micStreamRef.current?.getTracks().forEach(t => t.stop())
+    micStreamRef.current = null
+    graderRef.current = null
+    phaseRef.current = 'idle'
+    setPhase('idle')
+    setLive(null)
+  }
+
+  /* =========================
+     EXERCISE FLOW
+  ========================= */
+  function stopReference() {
+    const synth = synthRef.current
+    synthRef.current = null
+    if (!synth) return
+    // Disconnecting silences it at once (its stop is already scheduled).
+    synth.dispose()
+  }
+
+  // Play the reference notes and start listening once they have died away.
+  function playReference(ex: TrainerExercise, ctx: AudioContext) {
+    stopReference()
+    const out = ctx.createGain()
+    out.gain.value = 0.35
+    out.connect(ctx.destination)
+    const synth = new VoiceSynth(ctx, out, 'vocal')
+    synthRef.current = synth
+    const t0 = ctx.currentTime + 0.05
+    synth.start(t0)
+    ex.reference.forEach((midi, i) => {
+      synth.scheduleNote(t0 + i * NOTE_SEC, t0 + (i + 1) * NOTE_SEC - 0.05, midiToFreq(midi))
+    })
+    const end = t0 + ex.reference.length * NOTE_SEC
+    synth.scheduleRest(end)
+    synth.stop(end + 0.5)
+
+    graderRef.current = new ExerciseGrader(ex, difficultyRef.current)
+    listenFromRef.current = end + LISTEN_DELAY_SEC
+    listenUntilRef.current = listenFromRef.current + LISTEN_SEC_PER_NOTE * ex.targets.length
+    pitchWorkletNodeRef.current?.port.postMessage({ type: 'reset' })
+    setNoteIndex(0)
+    setResult(null)
+    setLive(null)
+    updatePhase('playing')
+  }
+
+  async function startExercise() {
+    setError(null)
+    setStatus(null)
+    try {
+      const ctx = await ensureMic()
+      const ex = generateExercise(mode, difficulty, TRAINER_RANGES[rangeId])
+      exerciseRef.current = ex
+      difficultyRef.current = difficulty
+      setExercise(ex)
+      playReference(ex, ctx)
+    } catch (e: any) {
+      const name = e?.name ? String(e.name) : 'UnknownError'
+      const msg = e?.message ? String(e.message) : ''
+      setError(`Cannot activate microphone: ${name}${msg ? ` - ${msg}` : ''}`)
+    }
+  }
+
+  function replayReference() {
+    const ex = exerciseRef.current
+    const ctx = audioContextRef.current
+    if (ex && ctx) playReference(ex, ctx)
+  }
+
+  function handlePitchMessage(data: any) {
+    if (!data || typeof data !== 'object' || data.type !== 'pitch') return
+    const grader = graderRef.current
+    const ex = exerciseRef.current
+    if (!grader || !ex) return
+    const audioTimeSec = typeof data.audioTimeSec === 'number' ? data.audioTimeSec : 0
+
+    if (phaseRef.current === 'playing') {
+      // The mic hears the reference too: only listen once it is over.
+      if (audioTimeSec < listenFromRef.current) return
+      updatePhase('listening')
+    }
+    if (phaseRef.current !== 'listening') return
+
+    const pitch = { frequency: data.frequency ?? null, clarity: data.clarity ?? 0 }
+    const info = pitch.frequency != null ? frequencyToNoteInfo(pitch.frequency) : null
+    setLive(info && pitch.clarity >= 0.5 ? { noteName: info.noteName, centsOff: info.centsOff } : null)
+
+    if (grader.push(pitch, ANALYSIS_INTERVAL_MS)) setNoteIndex(grader.current)
+    if (grader.done || audioTimeSec > listenUntilRef.current) void finishExercise(grader, ex)
+  }
+
+  async function finishExercise(grader: ExerciseGrader, ex: TrainerExercise) {
+    graderRef.current = null
+    const res = grader.finish()
+    setResult(res)
+    setLive(null)
+    updatePhase('done')
+    try {
+      const saved = await recordEarTrainingResult(supabase, ex, difficultyRef.current, res)
+      if (saved) await loadSummary()
+    } catch (e: any) {
+      setStatus(e?.message ? `Result not saved: ${String(e.message)}` : 'Result not saved')
+    }
+  }
+
+  const busy = phase === 'playing' || phase === 'listening'
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div className={styles.title}>Ear training</div>
+          <div className={styles.nav}>
+            <a href="/">Home</a>
+            <a href="/play">Play locally</a>
+            {signedIn ? <a href="/groups">My groups</a> : <a href="/auth">Log in</a>}
+          </div>
+        </div>
+        <div className={styles.subtitle}>
+          Listen to the reference, then sing the answer. Your pitch is graded with the same detector as the score player.
+        </div>
+
+        <div className={styles.card}>
+          <div className={styles.row}>
+            <label className={styles.field}>
+              Exercise
+              <select className={styles.select} value={mode} disabled={busy} onChange={(e) => setMode(e.target.value as TrainerMode)}>
+                {MODES.map(m => (
+                  <option key={m.id} value={m.id}>{m.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.field}>
+              Difficulty
+              <select className={styles.select} value={difficulty} disabled={busy} onChange={(e) => setDifficulty(e.target.value as TrainerDifficulty)}>
+                <option value="normal">Normal</option>
+                <option value="advanced">Advanced</option>
+                <option value="expert">Expert</option>
+              </select>
+            </label>
+            <label className={styles.field}>
+              Voice
+              <select className={styles.select} value={rangeId} disabled={busy} onChange={(e) => setRangeId(e.target.value as RangeId)}>
+                <option value="soprano">Soprano</option>
+                <option value="alto">Alto</option>
+                <option value="tenor">Tenor</option>
+                <option value="bass">Bass</option>
+              </select>
+            </label>
+          </div>
+
+          <div className={styles.exercise}>
+            {exercise ? (
+              <>
+                <div className={styles.prompt}>{exercise.prompt}</div>
+                <div className={styles.muted}>
+                  {exercise.mode === 'interval'
+                    ? `From ${midiToNoteName(exercise.reference[0])}`
+                    : `Key of ${midiToNoteName(exercise.reference[0]).replace(/-?\d+$/, '')} major`}
+                </div>
+                <div className={styles.status}>
+                  {phase === 'playing' && 'Listen…'}
+                  {phase === 'listening' &&
+                    (exercise.targets.length > 1 ? `Sing note ${noteIndex + 1} of ${exercise.targets.length}` : 'Sing now')}
+                  {phase === 'listening' && live && (
+                    <span className={styles.live}>
+                      {live.noteName} {live.centsOff > 0 ? '+' : ''}{live.centsOff}¢
+                    </span>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className={styles.muted}>Press Start and allow microphone access.</div>
+            )}
+
+            {result && exercise && (
+              <div className={styles.result}>
+                <div className={result.passed ? styles.pass : styles.fail}>{result.passed ? 'Correct!' : 'Not quite'}</div>
+                <ul className={styles.notes}>
+                  {result.notes.map((n, i) => (
+                    <li key={i}>
+                      {midiToNoteName(n.targetMidi)}:{' '}
+                      {n.sungMidi == null
+                        ? 'not sung'
+                        : `sang ${midiToNoteName(n.sungMidi)} (${n.cents! > 0 ? '+' : ''}${Math.round(n.cents!)}¢)`}{' '}
+                      {n.passed ? '✓' : '✗'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className={styles.row}>
+            <button type="button" className={`${styles.btn} ${styles.btnPrimary}`} disabled={busy} onClick={startExercise}>
+              {exercise ? 'Next exercise' : 'Start'}
+            </button>
+            <button type="button" className={styles.btn} disabled={!exercise || phase === 'idle'} onClick={replayReference}>
+              Replay reference
+            </button>
+            <button type="button" className={styles.btn} disabled={phase === 'idle'} onClick={stopMic}>
+              Stop
+            </button>
+          </div>
+
+          {error && <div className={styles.alert}>{error}</div>}
+          {status && <div className={styles.alert}>{status}</div>}
+        </div>
+
+        <div className={styles.card}>
+          <div className={styles.sectionTitle}>Your results</div>
+          {!signedIn ? (
+            <div className={styles.mutedDark}>
+              <a href="/auth">Log in</a> to save your results.
+            </div>
+          ) : summary.length === 0 ? (
+            <div className={styles.mutedDark}>No exercises saved yet.</div>
+          ) : (
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Exercise</th>
+                  <th>Difficulty</th>
+                  <th>Correct</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.map(s => (
+                  <tr key={`${s.mode}:${s.difficulty}`}>
+                    <td>{MODES.find(m => m.id === s.mode)?.label ?? s.mode}</td>
+                    <td>{s.difficulty}</td>
+                    <td>
+                      {s.passed} / {s.attempts} ({Math.round((100 * s.passed) / s.attempts)}%)
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
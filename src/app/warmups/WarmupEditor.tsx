@@ -0,0 +1,327 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { getSupabaseBrowser } from '../../lib/supabaseBrowser'
+import { getGroupWarmup, saveGroupWarmup, warmupPlayHref } from '../../lib/groupWarmups'
+import {
+  buildWarmupTimeline,
+  DEFAULT_WARMUP_ROUTINE,
+  parseWarmupRoutine,
+  WARMUP_PATTERNS,
+  WARMUP_RANGES,
+  WarmupDirection,
+  WarmupExercise,
+  WarmupPattern,
+  WarmupRangeId,
+  WarmupRoutine,
+  warmupRoots
+} from '../../utils/warmupGenerator'
+import styles from './warmups.module.css'
+
+// The routine being edited without a group is kept between visits
+const LOCAL_ROUTINE_KEY = 'choir-practice:warmup'
+
+const DIRECTIONS: Array<{ id: WarmupDirection; label: string }> = [
+  { id: 'up', label: 'Up' },
+  { id: 'down', label: 'Down' },
+  { id: 'upDown', label: 'Up and down' }
+]
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
+
+function midiToNoteName(midi: number): string {
+  return NOTE_NAMES[((midi % 12) + 12) % 12] + (Math.floor(midi / 12) - 1)
+}
+
+function formatDuration(seconds: number): string {
+  const s = Math.round(seconds)
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`
+}
+
+function loadLocalRoutine(): WarmupRoutine {
+  try {
+    const raw = window.localStorage.getItem(LOCAL_ROUTINE_KEY)
+    return (raw && parseWarmupRoutine(JSON.parse(raw))) || DEFAULT_WARMUP_ROUTINE
+  } catch {
+    return DEFAULT_WARMUP_ROUTINE
+  }
+}
+
+/**
+ * Build a warm-up routine and play it in the score player. With `?groupId=`
+ * an admin can publish it to the group (`&warmupId=` edits a published one).
+ */
+export default function WarmupEditor() {
+  const router = useRouter()
+  const search = useSearchParams()
+  const groupId = search?.get('groupId') ?? null
+  const warmupId = search?.get('warmupId') ?? null
+  const supabase = useMemo(() => getSupabaseBrowser(), [])
+
+  const [routine, setRoutine] = useState<WarmupRoutine>(DEFAULT_WARMUP_ROUTINE)
+  const [savedId, setSavedId] = useState<string | null>(warmupId)
+  const [canSave, setCanSave] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    async function run() {
+      if (!groupId) {
+        setRoutine(loadLocalRoutine())
+        return
+      }
+
+      const { data: sessionData } = await supabase.auth.getSession()
+      const user = sessionData.session?.user
+      if (!user) {
+        router.replace('/auth')
+        return
+      }
+      const { data: m } = await supabase
+        .from('group_memberships')
+        .select('role,status')
+        .eq('group_id', groupId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+      if (cancelled) return
+      setCanSave(m?.status === 'active' && m?.role === 'admin')
+
+      if (!warmupId) return
+      try {
+        const existing = await getGroupWarmup(supabase, groupId, warmupId)
+        if (cancelled) return
+        if (existing) setRoutine(existing.routine)
+        else setError('This warm-up no longer exists.')
+      } catch (e: any) {
+        if (!cancelled) setError(e?.message ? String(e.message) : 'Failed to load warm-up')
+      }
+    }
+
+    run()
+    return () => {
+      cancelled = true
+    }
+  }, [groupId, warmupId, router, supabase])
+
+  // Remember the local routine as it is edited
+  useEffect(() => {
+    if (groupId) return
+    try {
+      window.localStorage.setItem(LOCAL_ROUTINE_KEY, JSON.stringify(routine))
+    } catch {}
+  }, [groupId, routine])
+
+  const totalSeconds = useMemo(() => buildWarmupTimeline(routine).timeline.totalDurationSeconds, [routine])
+
+  function updateExercise(index: number, patch: Partial<WarmupExercise>) {
+    setRoutine((r) => ({ ...r, exercises: r.exercises.map((e, i) => (i === index ? { ...e, ...patch } : e)) }))
+  }
+
+  function moveExercise(index: number, dir: -1 | 1) {
+    setRoutine((r) => {
+      const j = index + dir
+      if (j < 0 || j >= r.exercises.length) return r
+      const exercises = r.exercises.slice()
+      ;[exercises[index], exercises[j]] = [exercises[j], exercises[index]]
+      return { ...r, exercises }
+    })
+  }
+
+  function removeExercise(index: number) {
+    setRoutine((r) => ({ ...r, exercises: r.exercises.filter((_, i) => i !== index) }))
+  }
+
+  function addExercise() {
+    setRoutine((r) => ({
+      ...r,
+      exercises: [...r.exercises, { pattern: 'fiveNoteScale', direction: 'up', stepSemitones: 1, tempoBpm: 100 }]
+    }))
+  }
+
+  async function handleSave() {
+    if (!groupId) return
+    const valid = parseWarmupRoutine(routine)
+    if (!valid) {
+      setError('Add at least one exercise.')
+      return
+    }
+    setBusy(true)
+    setError(null)
+    setStatus(null)
+    try {
+      const id = await saveGroupWarmup(supabase, groupId, valid, savedId)
+      setSavedId(id)
+      setStatus('Saved. Group members can now play this warm-up.')
+    } catch (e: any) {
+      setError(e?.message ? String(e.message) : 'Failed to save warm-up')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const playable = routine.exercises.length > 0
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.container}>
+        <div className={styles.header}>
+          <div className={styles.title}>Warm-up</div>
+          <div className={styles.nav}>
+            <a href="/">Home</a>
+            {groupId ? <a href={`/g/${groupId}`}>Back to group</a> : <a href="/play">Play locally</a>}
+          </div>
+        </div>
+        <div className={styles.subtitle}>
+          Each exercise is repeated on a new root, stepping through the voice range. A chord on the keyboard gives the
+          key before every repetition.
+        </div>
+
+        <div className={styles.card}>
+          <div className={styles.row}>
+            <label className={styles.field}>
+              Name
+              <input
+                className={styles.input}
+                value={routine.name}
+                maxLength={80}
+                onChange={(e) => setRoutine((r) => ({ ...r, name: e.target.value }))}
+              />
+            </label>
+            <label className={styles.field}>
+              Voice
+              <select
+                className={styles.select}
+                value={routine.range}
+                onChange={(e) => setRoutine((r) => ({ ...r, range: e.target.value as WarmupRangeId }))}
+              >
+                {(Object.keys(WARMUP_RANGES) as WarmupRangeId[]).map((id) => (
+                  <option key={id} value={id}>
+                    {WARMUP_RANGES[id].label} ({midiToNoteName(WARMUP_RANGES[id].low)}–{midiToNoteName(WARMUP_RANGES[id].high)})
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className={styles.exercises}>
+            {routine.exercises.map((ex, i) => {
+              const roots = warmupRoots(ex, routine.range)
+              return (
+                <div key={i} className={styles.exerciseRow}>
+                  <div className={styles.exerciseIndex}>{i + 1}.</div>
+                  <label className={styles.field}>
+                    Pattern
+                    <select
+                      className={styles.select}
+                      value={ex.pattern}
+                      onChange={(e) => updateExercise(i, { pattern: e.target.value as WarmupPattern })}
+                    >
+                      {(Object.keys(WARMUP_PATTERNS) as WarmupPattern[]).map((p) => (
+                        <option key={p} value={p}>
+                          {WARMUP_PATTERNS[p].label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={styles.field}>
+                    Direction
+                    <select
+                      className={styles.select}
+                      value={ex.direction}
+                      onChange={(e) => updateExercise(i, { direction: e.target.value as WarmupDirection })}
+                    >
+                      {DIRECTIONS.map((d) => (
+                        <option key={d.id} value={d.id}>
+                          {d.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={styles.field}>
+                    Step
+                    <select
+                      className={`${styles.select} ${styles.narrow}`}
+                      value={ex.stepSemitones}
+                      onChange={(e) => updateExercise(i, { stepSemitones: Number(e.target.value) })}
+                    >
+                      <option value={1}>½ tone</option>
+                      <option value={2}>1 tone</option>
+                      <option value={3}>1½ tones</option>
+                      <option value={4}>2 tones</option>
+                    </select>
+                  </label>
+                  <label className={styles.field}>
+                    Tempo
+                    <input
+                      className={`${styles.input} ${styles.narrow}`}
+                      type="number"
+                      min={40}
+                      max={200}
+                      value={ex.tempoBpm}
+                      onChange={(e) => updateExercise(i, { tempoBpm: Number(e.target.value) || ex.tempoBpm })}
+                    />
+                  </label>
+                  <div className={styles.exerciseActions}>
+                    <button type="button" className={`${styles.btn} ${styles.iconBtn}`} disabled={i === 0} onClick={() => moveExercise(i, -1)} aria-label="Move up">
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className={`${styles.btn} ${styles.iconBtn}`}
+                      disabled={i === routine.exercises.length - 1}
+                      onClick={() => moveExercise(i, 1)}
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button type="button" className={`${styles.btn} ${styles.iconBtn}`} onClick={() => removeExercise(i)} aria-label="Remove">
+                      ✕
+                    </button>
+                  </div>
+                  <div className={styles.hint}>
+                    {WARMUP_PATTERNS[ex.pattern].description} · {roots.length} repetitions from {midiToNoteName(roots[0])} to{' '}
+                    {midiToNoteName(roots[roots.length - 1])}
+                    {ex.direction === 'upDown' && ' and back'}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className={styles.row}>
+            <button type="button" className={styles.btn} onClick={addExercise}>
+              Add exercise
+            </button>
+            <span className={styles.muted}>Total {formatDuration(totalSeconds)}</span>
+          </div>
+        </div>
+
+        <div className={styles.card}>
+          <div className={styles.row}>
+            {playable ? (
+              <a className={`${styles.btn} ${styles.btnPrimary} ${styles.btnLink}`} href={warmupPlayHref(routine)}>
+                Play with pitch feedback
+              </a>
+            ) : (
+              <button type="button" className={`${styles.btn} ${styles.btnPrimary}`} disabled>
+                Play with pitch feedback
+              </button>
+            )}
+            {groupId && canSave && (
+              <button type="button" className={styles.btn} disabled={busy || !playable} onClick={handleSave}>
+                {savedId ? 'Save changes' : 'Save for group'}
+              </button>
+            )}
+          </div>
+          {groupId && !canSave && <div className={styles.muted} style={{ marginTop: 8 }}>Only group admins can save warm-ups.</div>}
+          {error && <div className={styles.alert}>{error}</div>}
+          {status && <div className={styles.alert}>{status}</div>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import { Suspense } from 'react'
+import WarmupEditor from './WarmupEditor'
+
+export default function WarmupsPage() {
+  return (
+    <Suspense fallback={<div style={{ padding: 16 }}>Loading…</div>}>
+      <WarmupEditor />
+    </Suspense>
+  )
+}
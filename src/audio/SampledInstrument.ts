@@ -0,0 +1,400 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import type { SynthTimbre } from './ScorePlayer';
+
+export type SampledInstrumentId = 'piano';
+
+export interface SampledInstrumentInfo {
+  label: string;
+  url: string;            // SFZ file under public/ (sample paths are relative to it)
+  fallback: SynthTimbre;  // oscillator timbre used while loading or if loading fails
+  gain: number;           // level matching against the oscillator synths
+}
+
+export const SAMPLED_INSTRUMENTS: Record<SampledInstrumentId, SampledInstrumentInfo> = {
+  piano: { label: 'Piano', url: '/instruments/piano/piano.sfz', fallback: 'sine', gain: 0.9 }
+};
+
+export function isSampledInstrument(id: string): id is SampledInstrumentId {
+  return Object.prototype.hasOwnProperty.call(SAMPLED_INSTRUMENTS, id);
+}
+
+// One <region> of an SFZ file, with <global>/<group> opcodes already applied.
+export interface SfzRegion {
+  sample: string;
+  keyCenter: number;
+  loKey: number;
+  hiKey: number;
+  tuneCents: number;
+  volumeDb: number;
+  loopMode: 'no_loop' | 'one_shot' | 'loop_continuous' | 'loop_sustain';
+  loopStart: number | null; // in sample frames of the source file
+  loopEnd: number | null;
+  releaseSec: number | null;
+}
+
+export interface SampleZone {
+  buffer: AudioBuffer;
+  keyCenter: number;
+  loKey: number;
+  hiKey: number;
+  tuneCents: number;
+  gain: number;                   // linear, from volume=
+  loop: { start: number; end: number } | null; // seconds
+}
+
+export interface SampleSet {
+  id: SampledInstrumentId;
+  zones: SampleZone[];
+  releaseSec: number;
+  gain: number;
+}
+
+const NOTE_CLASSES: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+/**
+ * SFZ key value: a MIDI number or a note name ("c4" = 60, "f#3", "eb5").
+ */
+export function parseSfzKey(value: string | undefined): number | null {
+  if (value == null) return null;
+  const v = value.trim().toLowerCase();
+  if (/^-?\d+$/.test(v)) return parseInt(v);
+  const m = v.match(/^([a-g])(#|b)?(-?\d+)$/);
+  if (!m) return null;
+  const accidental = m[2] === '#' ? 1 : m[2] === 'b' ? -1 : 0;
+  return (parseInt(m[3]) + 1) * 12 + NOTE_CLASSES[m[1]] + accidental;
+}
+
+/**
+ * Minimal SFZ reader: <control> default_path, <global>/<master>/<group>
+ * inheritance and the key-mapping, tuning, volume, loop and release opcodes.
+ * Everything else (velocity layers, round robins, filters) is ignored.
+ */
+export function parseSfz(text: string): SfzRegion[] {
+  const tokenRe = /<(\w+)>|([A-Za-z_][\w]*)=/g;
+  const raw: Array<Record<string, string>> = [];
+
+  let defaultPath = '';
+  let section = '';
+  let global: Record<string, string> = {};
+  let group: Record<string, string> = {};
+  let target: Record<string, string> = {};
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/\/\/.*$/, '');
+    const tokens = Array.from(line.matchAll(tokenRe));
+
+    for (let k = 0; k < tokens.length; k++) {
+      const tok = tokens[k];
+      if (tok[1]) {
+        section = tok[1].toLowerCase();
+        if (section === 'global' || section === 'master') target = global = {};
+        else if (section === 'group') target = group = {};
+        else if (section === 'region') {
+          target = { ...global, ...group };
+          raw.push(target);
+        } else target = {};
+        continue;
+      }
+
+      // Values run up to the next opcode or header, so sample paths may contain spaces.
+      const valueStart = (tok.index ?? 0) + tok[0].length;
+      const valueEnd = k + 1 < tokens.length ? tokens[k + 1].index ?? line.length : line.length;
+      const value = line.slice(valueStart, valueEnd).trim();
+
+      if (section === 'control' && tok[2] === 'default_path') defaultPath = value;
+      else if (tok[2] === 'key') {
+        // key= is shorthand for lokey, hikey and pitch_keycenter together.
+        target.lokey = target.hikey = target.pitch_keycenter = value;
+      } else target[tok[2]] = value;
+    }
+  }
+
+  const num = (v: string | undefined): number | null => {
+    if (v == null) return null;
+    const n = parseFloat(v);
+    return Number.isFinite(n) ? n : null;
+  };
+
+  const regions: SfzRegion[] = [];
+  for (const r of raw) {
+    if (!r.sample) continue;
+    const keyCenter = parseSfzKey(r.pitch_keycenter) ?? 60;
+    const loopMode = (r.loop_mode ?? 'no_loop') as SfzRegion['loopMode'];
+    regions.push({
+      sample: (defaultPath + r.sample).replace(/\\/g, '/'),
+      keyCenter,
+      loKey: parseSfzKey(r.lokey) ?? 0,
+      hiKey: parseSfzKey(r.hikey) ?? 127,
+      tuneCents: num(r.tune) ?? 0,
+      volumeDb: num(r.volume) ?? 0,
+      loopMode,
+      loopStart: num(r.loop_start ?? r.loopstart),
+      loopEnd: num(r.loop_end ?? r.loopend),
+      releaseSec: num(r.ampeg_release)
+    });
+  }
+  return regions;
+}
+
+// Sample rate stored in a WAV or FLAC header. decodeAudioData resamples to the
+// context rate, so loop points (given in source frames) need the original rate.
+function readSourceSampleRate(bytes: ArrayBuffer): number | null {
+  if (bytes.byteLength < 28) return null;
+  const view = new DataView(bytes);
+  const tag = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (tag === 'RIFF') return view.getUint32(24, true);
+  if (tag === 'fLaC') return (view.getUint32(18) >>> 12) & 0xfffff;
+  return null;
+}
+
+const DEFAULT_SOURCE_RATE = 44100;
+const DEFAULT_RELEASE_SEC = 0.12;
+
+const loading = new WeakMap<BaseAudioContext, Map<SampledInstrumentId, Promise<SampleSet>>>();
+const loaded = new WeakMap<BaseAudioContext, Map<SampledInstrumentId, SampleSet>>();
+
+async function fetchSampleSet(ctx: BaseAudioContext, id: SampledInstrumentId): Promise<SampleSet> {
+  const info = SAMPLED_INSTRUMENTS[id];
+  const res = await fetch(info.url);
+  if (!res.ok) throw new Error(`${info.url}: HTTP ${res.status}`);
+  const regions = parseSfz(await res.text());
+  if (regions.length === 0) throw new Error(`${info.url}: no regions`);
+
+  const baseUrl = new URL(info.url, typeof location !== 'undefined' ? location.href : 'http://localhost/');
+  const buffers = new Map<string, Promise<{ buffer: AudioBuffer; sourceRate: number }>>();
+  const loadBuffer = (path: string) => {
+    let p = buffers.get(path);
+    if (!p) {
+      p = (async () => {
+        const r = await fetch(new URL(path, baseUrl).toString());
+        if (!r.ok) throw new Error(`${path}: HTTP ${r.status}`);
+        const bytes = await r.arrayBuffer();
+        const sourceRate = readSourceSampleRate(bytes) ?? DEFAULT_SOURCE_RATE;
+        return { buffer: await ctx.decodeAudioData(bytes), sourceRate };
+      })();
+      buffers.set(path, p);
+    }
+    return p;
+  };
+
+  const zones = await Promise.all(regions.map(async (r): Promise<SampleZone> => {
+    const { buffer, sourceRate } = await loadBuffer(r.sample);
+    // Like other SFZ players, a loop mode without loop points loops the whole sample.
+    const looping = r.loopMode === 'loop_continuous' || r.loopMode === 'loop_sustain';
+    const loopStart = r.loopStart != null ? r.loopStart / sourceRate : 0;
+    const loopEnd = r.loopEnd != null ? r.loopEnd / sourceRate : buffer.duration;
+    return {
+      buffer,
+      keyCenter: r.keyCenter,
+      loKey: r.loKey,
+      hiKey: r.hiKey,
+      tuneCents: r.tuneCents,
+      gain: Math.pow(10, r.volumeDb / 20),
+      loop: looping && loopEnd > loopStart ? { start: loopStart, end: loopEnd } : null
+    };
+  }));
+
+  const releaseSec = regions.find(r => r.releaseSec != null)?.releaseSec ?? DEFAULT_RELEASE_SEC;
+  return { id, zones, releaseSec, gain: info.gain };
+}
+
+const availability = new Map<SampledInstrumentId, Promise<boolean>>();
+
+async function probeSampleSet(id: SampledInstrumentId): Promise<boolean> {
+  const info = SAMPLED_INSTRUMENTS[id];
+  const res = await fetch(info.url);
+  if (!res.ok) return false;
+  const regions = parseSfz(await res.text());
+  if (regions.length === 0) return false;
+  const baseUrl = new URL(info.url, typeof location !== 'undefined' ? location.href : 'http://localhost/');
+  const samples = Array.from(new Set(regions.map(r => r.sample)));
+  const found = await Promise.all(
+    samples.map(path => fetch(new URL(path, baseUrl).toString(), { method: 'HEAD' }).then(r => r.ok, () => false))
+  );
+  return found.every(Boolean);
+}
+
+/**
+ * Whether the SFZ file of an instrument and every sample it names are served
+ * (checked once, without downloading the samples). Instruments whose samples
+ * are missing should not be offered: they would only play the fallback synth.
+ */
+export function isSampledInstrumentAvailable(id: SampledInstrumentId): Promise<boolean> {
+  let p = availability.get(id);
+  if (!p) {
+    p = probeSampleSet(id).catch(() => false);
+    availability.set(id, p);
+  }
+  return p;
+}
+
+/**
+ * Load (once per audio context) the sample set of a bundled instrument.
+ * A failed load stays rejected so callers keep using their fallback.
+ */
+export function loadSampleSet(ctx: BaseAudioContext, id: SampledInstrumentId): Promise<SampleSet> {
+  let perCtx = loading.get(ctx);
+  if (!perCtx) {
+    perCtx = new Map();
+    loading.set(ctx, perCtx);
+  }
+  let p = perCtx.get(id);
+  if (!p) {
+    p = fetchSampleSet(ctx, id).then(set => {
+      let done = loaded.get(ctx);
+      if (!done) {
+        done = new Map();
+        loaded.set(ctx, done);
+      }
+      done.set(id, set);
+      return set;
+    });
+    perCtx.set(id, p);
+  }
+  return p;
+}
+
+export function getLoadedSampleSet(ctx: BaseAudioContext, id: SampledInstrumentId): SampleSet | null {
+  return loaded.get(ctx)?.get(id) ?? null;
+}
+
+// --- Sampler voice ---
+const SAMPLE_ATTACK_SEC = 0.012;
+const SAMPLE_CUT_SEC = 0.03;      // fade when a rest/seek cuts a sounding note
+const SAMPLE_LOOKAHEAD_SEC = 1.0; // source nodes are created this far ahead
+
+type PendingNote = { start: number; end: number; freq: number };
+type SoundingNote = { src: AudioBufferSourceNode; env: GainNode; start: number; stopAt: number };
+
+/**
+ * Mono voice playing a SampleSet, with the same scheduling API as the
+ * oscillator VoiceSynth. Notes are queued and turned into buffer sources
+ * shortly before they start (see tick()), so a whole pass can be scheduled
+ * at once without creating thousands of nodes.
+ */
+export class SampledVoice {
+  private ctx: BaseAudioContext;
+  private set: SampleSet;
+  private out: GainNode;
+  private pending: PendingNote[] = [];
+  private sounding: SoundingNote[] = [];
+
+  constructor(ctx: BaseAudioContext, connectTo: AudioNode, set: SampleSet) {
+    this.ctx = ctx;
+    this.set = set;
+    this.out = ctx.createGain();
+    this.out.gain.value = set.gain;
+    this.out.connect(connectTo);
+  }
+
+  start(_atTime: number) {
+    // Nothing continuous to start; sources are created per note.
+  }
+
+  stop(atTime: number) {
+    this.scheduleRest(atTime);
+  }
+
+  scheduleNote(start: number, end: number, freq: number) {
+    const last = this.pending[this.pending.length - 1];
+    this.pending.push({ start, end, freq });
+    if (last && last.start > start) this.pending.sort((a, b) => a.start - b.start);
+    this.tick(this.ctx.currentTime);
+  }
+
+  scheduleRest(start: number) {
+    this.pending = this.pending.filter(n => n.start < start);
+    for (const n of this.pending) n.end = Math.min(n.end, start);
+
+    for (const s of this.sounding) {
+      if (s.start >= start) {
+        try { s.src.stop(); } catch {}
+        s.stopAt = 0;
+      } else if (s.stopAt > start) {
+        const g = s.env.gain;
+        g.cancelScheduledValues(start);
+        g.setTargetAtTime(0, start, SAMPLE_CUT_SEC / 3);
+        s.stopAt = start + SAMPLE_CUT_SEC * 2;
+        try { s.src.stop(s.stopAt); } catch {}
+      }
+    }
+    this.sounding = this.sounding.filter(s => s.stopAt > 0);
+  }
+
+  /** Create buffer sources for queued notes that start within the look-ahead window. */
+  tick(now: number) {
+    let k = 0;
+    while (k < this.pending.length && this.pending[k].start < now + SAMPLE_LOOKAHEAD_SEC) {
+      this.playNote(this.pending[k]);
+      k++;
+    }
+    if (k > 0) this.pending.splice(0, k);
+    this.sounding = this.sounding.filter(s => s.stopAt > now);
+  }
+
+  private pickZone(midi: number): SampleZone | null {
+    const key = Math.round(midi);
+    let best: SampleZone | null = null;
+    let bestDist = Infinity;
+    for (const z of this.set.zones) {
+      if (key >= z.loKey && key <= z.hiKey) return z;
+      const d = Math.abs(z.keyCenter - midi);
+      if (d < bestDist) {
+        bestDist = d;
+        best = z;
+      }
+    }
+    return best;
+  }
+
+  private playNote(note: PendingNote) {
+    if (note.end <= note.start || note.freq <= 0) return;
+    const midi = 69 + 12 * Math.log2(note.freq / 440);
+    const zone = this.pickZone(midi);
+    if (!zone) return;
+
+    const start = Math.max(note.start, this.ctx.currentTime);
+    const end = Math.max(start + SAMPLE_ATTACK_SEC, note.end);
+    const release = this.set.releaseSec;
+
+    const src = this.ctx.createBufferSource();
+    src.buffer = zone.buffer;
+    src.playbackRate.value = Math.pow(2, (midi - zone.keyCenter + zone.tuneCents / 100) / 12);
+    if (zone.loop) {
+      src.loop = true;
+      src.loopStart = zone.loop.start;
+      src.loopEnd = zone.loop.end;
+    }
+
+    const env = this.ctx.createGain();
+    env.gain.setValueAtTime(0, start);
+    env.gain.linearRampToValueAtTime(zone.gain, start + SAMPLE_ATTACK_SEC);
+    env.gain.setValueAtTime(zone.gain, end);
+    env.gain.linearRampToValueAtTime(0, end + release);
+
+    src.connect(env);
+    env.connect(this.out);
+    const stopAt = end + release + 0.01;
+    src.onended = () => {
+      try { src.disconnect(); } catch {}
+      try { env.disconnect(); } catch {}
+    };
+    src.start(start);
+    src.stop(stopAt);
+    this.sounding.push({ src, env, start, stopAt });
+  }
+
+  dispose() {
+    this.pending = [];
+    for (const s of this.sounding) {
+      try { s.src.stop(); } catch {}
+      try { s.src.disconnect(); } catch {}
+      try { s.env.disconnect(); } catch {}
+    }
+    this.sounding = [];
+    try { this.out.disconnect(); } catch {}
+  }
+}
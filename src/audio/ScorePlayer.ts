@@ -1,19 +1,51 @@
 import { ScoreTimeline, VoiceId } from '../types/ScoreTimeline';
+import { loopRangeForMeasures } from '../utils/performanceOrder';
+import { buildClickTrack, buildCountIn, Click } from '../utils/clickTrack';
+import {
+  getLoadedSampleSet,
+  isSampledInstrument,
+  loadSampleSet,
+  SampledInstrumentId,
+  SampledVoice,
+  SAMPLED_INSTRUMENTS
+} from './SampledInstrument';
+import { DEFAULT_TUNING, midiToHz, noteTuningCents, TuningSettings } from './tuning';
 
 export interface VoiceMixerSettings {
   volume: number;  // 0.0–1.0
   muted: boolean;
   solo: boolean;
+  pan: number;     // -1 (left) .. 1 (right)
+}
+
+// Levels for the "my part vs. the rest" rehearsal balance.
+export interface PartBalanceOptions {
+  myVolume?: number;     // default 1.0
+  othersVolume?: number; // default 0.35
+  spread?: number;       // pan amount 0..1: my part goes left, the rest right (default 1)
+}
+
+// Mixer channel of the metronome click track (listed alongside the score voices).
+// Unlike score voices it is not silenced when another voice is soloed.
+export const METRONOME_VOICE_ID: VoiceId = '__metronome__';
+
+export interface LoopRange {
+  startSeconds: number; // timeline seconds (inclusive)
+  endSeconds: number;   // timeline seconds (exclusive)
 }
 
 export interface ScorePlayerOptions {
   audioContext?: AudioContext;
   masterVolume?: number; // 0..1
-  timbre?: SynthTimbre;
+  timbre?: InstrumentId; // default instrument for every voice
+  tuning?: TuningSettings; // reference pitch and temperament (default A4 = 440 Hz, equal)
 }
 
 export type SynthTimbre = 'sine' | 'vocal';
 
+// Oscillator timbres plus the bundled sample sets.
+export type InstrumentId = SynthTimbre | SampledInstrumentId;
+
 export interface PlayerControls {
   play(): void;
   pause(): void;
@@ -22,6 +54,18 @@ export interface PlayerControls {
 
   setVoiceSettings(voiceId: VoiceId, settings: Partial<VoiceMixerSettings>): void;
   getVoiceSettings(voiceId: VoiceId): VoiceMixerSettings;
+  /**
+   * Rehearsal-track balance: my part loud on the left, every other voice soft
+   * on the right. Clears mute/solo on the score voices; the metronome is untouched.
+   */
+  applyPartBalance(myVoice: VoiceId, options?: PartBalanceOptions): void;
+
+  /**
+   * Instrument for one voice. Sampled instruments play an oscillator fallback
+   * until their samples have loaded (or for good if loading fails).
+   */
+  setVoiceInstrument(voiceId: VoiceId, instrument: InstrumentId): void;
+  getVoiceInstrument(voiceId: VoiceId): InstrumentId;
 
   getCurrentTime(): number;
   /**
@@ -30,6 +74,12 @@ export interface PlayerControls {
    * with playback time.
    */
   getTimeAtAudioContextTime(audioContextTimeSeconds: number): number;
+  /**
+   * Inverse of getTimeAtAudioContextTime: the AudioContext time at which the
+   * given timeline time sounds in the earliest scheduled pass containing it.
+   * null when stopped or not scheduled (used to start recorded audio in sync).
+   */
+  getAudioContextTimeAt(timeSeconds: number): number | null;
   /**
    * Expose the underlying AudioContext used by this player.
    * (Needed to keep mic/worklet and playback on the same clock.)
@@ -40,14 +90,53 @@ export interface PlayerControls {
 
   setTempoMultiplier(multiplier: number): void;
   getTempoMultiplier(): number;
+
+  /**
+   * Restrict playback to a region that repeats seamlessly (A–B practice).
+   * null loops the whole piece.
+   */
+  setLoopRange(range: LoopRange | null): void;
+  /** Loop notated measures fromMeasure..toMeasure (inclusive, first performed occurrence). */
+  setLoopMeasures(fromMeasure: number, toMeasure: number): void;
+  getLoopRange(): LoopRange | null;
+  /** Increments every time playback wraps around to the loop start. */
+  getLoopIteration(): number;
+
+  /** Bars of metronome count-in before play() and each loop restart (0 = off). */
+  setCountInBars(bars: number): void;
+  getCountInBars(): number;
 }
 
 /*
  * Copyright (c) 2025 Rickard Evertsson
  */
 
-export function midiToFrequency(midi: number): number {
-  return 440 * Math.pow(2, (midi - 69) / 12);
+export function midiToFrequency(midi: number, referenceHz = DEFAULT_TUNING.referenceHz): number {
+  return midiToHz(midi, referenceHz);
+}
+
+/**
+ * Channel gain for a voice given its mixer settings. Solo on any score voice
+ * silences the other score voices; the metronome only follows its own mute.
+ */
+export function effectiveVoiceGain(voiceId: VoiceId, settings: VoiceMixerSettings, hasSolo: boolean): number {
+  let g = 0;
+  if (voiceId === METRONOME_VOICE_ID) g = settings.muted ? 0 : settings.volume;
+  else if (hasSolo) g = settings.solo ? settings.volume : 0;
+  else g = settings.muted ? 0 : settings.volume;
+  return Math.max(0, Math.min(1, g));
+}
+
+/** Settings for one score voice under the "my part vs. the rest" balance. */
+export function partBalanceSettings(current: VoiceMixerSettings, isMyPart: boolean, options?: PartBalanceOptions): VoiceMixerSettings {
+  const spread = Math.max(0, Math.min(1, options?.spread ?? 1));
+  return {
+    ...current,
+    volume: isMyPart ? options?.myVolume ?? 1.0 : options?.othersVolume ?? 0.35,
+    pan: isMyPart ? -spread : spread,
+    muted: false,
+    solo: false
+  };
 }
 
 // --- Click-free synth constants ---
@@ -56,13 +145,35 @@ const RELEASE_SEC = 0.045;     // 45ms
 const PORTAMENTO_SEC = 0.018;  // 18ms freq glide at note transitions
 const REST_GATE_FLOOR = 0.0001;
 
+// --- Loop scheduler ---
+const SCHEDULER_INTERVAL_MS = 50;
+const SCHEDULE_AHEAD_SEC = 0.5;   // queue the next loop pass this far before it starts
+
 type MonoNote = {
   midiPitch: number;
   startTimeSeconds: number;
   durationSeconds: number;
 };
 
-class VoiceSynth {
+// What ScorePlayer needs from a voice's sound source (VoiceSynth, SampledVoice).
+export interface VoiceInstrument {
+  start(atTime: number): void;
+  stop(atTime: number): void;
+  scheduleNote(start: number, end: number, freq: number): void;
+  scheduleRest(start: number): void;
+  tick?(now: number): void;
+  dispose(): void;
+}
+
+// One scheduled pass through [timelineStart, timelineEnd) starting at audioStart.
+type ScheduledPass = {
+  audioStart: number;
+  timelineStart: number;
+  timelineEnd: number;
+  iteration: number;
+};
+
+export class VoiceSynth implements VoiceInstrument {
   private oscillators: OscillatorNode[] = [];
   private freqParams: AudioParam[] = [];
   private lfo: OscillatorNode | null = null;
@@ -70,7 +181,7 @@ class VoiceSynth {
   amp: GainNode;            // per-voice synth envelope (not mixer)
   started = false;
 
-  constructor(ctx: AudioContext, connectTo: AudioNode, timbre: SynthTimbre) {
+  constructor(ctx: BaseAudioContext, connectTo: AudioNode, timbre: SynthTimbre) {
     this.amp = ctx.createGain();
     this.amp.gain.value = 0; // start silent
 
@@ -202,25 +313,90 @@ class VoiceSynth {
   }
 }
 
+// Click sounds for the metronome voice. Each click is a one-shot buffer source,
+// tracked so pending clicks can be cancelled on pause/seek.
+export class MetronomeClicks {
+  private ctx: BaseAudioContext;
+  private clickOut: AudioNode;
+  private countInOut: AudioNode;
+  private accentBuffer: AudioBuffer;
+  private normalBuffer: AudioBuffer;
+  private pending = new Set<AudioBufferSourceNode>();
+
+  constructor(ctx: BaseAudioContext, clickOut: AudioNode, countInOut: AudioNode) {
+    this.ctx = ctx;
+    this.clickOut = clickOut;
+    this.countInOut = countInOut;
+    this.accentBuffer = MetronomeClicks.makeClick(ctx, 1760);
+    this.normalBuffer = MetronomeClicks.makeClick(ctx, 1320);
+  }
+
+  private static makeClick(ctx: BaseAudioContext, freq: number): AudioBuffer {
+    // Short decaying sine "tick" (~40ms)
+    const len = Math.max(1, Math.floor(ctx.sampleRate * 0.04));
+    const buf = ctx.createBuffer(1, len, ctx.sampleRate);
+    const data = buf.getChannelData(0);
+    for (let i = 0; i < len; i++) {
+      const t = i / ctx.sampleRate;
+      data[i] = Math.sin(2 * Math.PI * freq * t) * Math.exp(-t * 90) * 0.9;
+    }
+    return buf;
+  }
+
+  schedule(atTime: number, accent: boolean, countIn = false) {
+    if (atTime < this.ctx.currentTime) return;
+    const src = this.ctx.createBufferSource();
+    src.buffer = accent ? this.accentBuffer : this.normalBuffer;
+    src.connect(countIn ? this.countInOut : this.clickOut);
+    src.onended = () => {
+      this.pending.delete(src);
+      try { src.disconnect(); } catch {}
+    };
+    src.start(atTime);
+    this.pending.add(src);
+  }
+
+  cancel() {
+    for (const src of this.pending) {
+      try { src.stop(); } catch {}
+      try { src.disconnect(); } catch {}
+    }
+    this.pending.clear();
+  }
+}
+
 export class ScorePlayer implements PlayerControls {
   private audioContext: AudioContext;
   public timeline: ScoreTimeline;
-  private timbre: SynthTimbre;
+  private defaultInstrument: InstrumentId;
+  private tuning: TuningSettings = DEFAULT_TUNING;
+  private tuningCents = new Map<string, number>();   // per NoteEvent.id (just intonation)
 
   private masterGain: GainNode;
   private voiceGains = new Map<VoiceId, GainNode>();         // mixer per voice
+  private voicePanners = new Map<VoiceId, StereoPannerNode>();
   private voiceSettings = new Map<VoiceId, VoiceMixerSettings>();
-  private voiceSynths = new Map<VoiceId, VoiceSynth>();
+  private voiceSynths = new Map<VoiceId, VoiceInstrument>();
+  private voiceInstruments = new Map<VoiceId, InstrumentId>();
+  private metronome: MetronomeClicks;
+  private countInGain: GainNode;          // count-in follows metronome volume but ignores mute
+  private clickTrack: Click[];
+  private countInBars = 0;
 
   private isPlayingState = false;
   private currentTimeSeconds = 0;
-  private playStartTime = 0;
-  private timelineStartOffset = 0;
   private tempoMultiplier = 1.0;
 
+  private loopRange: LoopRange | null = null;
+  private loopIteration = 0;
+  private passes: ScheduledPass[] = [];
+  private schedulerTimer: ReturnType<typeof setInterval> | null = null;
+  private disposed = false;
+
   constructor(timeline: ScoreTimeline, options?: ScorePlayerOptions) {
     this.timeline = timeline;
-    this.timbre = options?.timbre ?? 'sine';
+    this.defaultInstrument = options?.timbre ?? 'sine';
+    if (options?.tuning) this.applyTuning(options.tuning);
     // Use provided AudioContext when available to keep timing / inputs in sync
     // and avoid creating multiple audio contexts when the mic is in use.
     if (options?.audioContext) {
@@ -239,6 +415,12 @@ export class ScorePlayer implements PlayerControls {
 
     this.initializeVoices();
 
+    this.clickTrack = buildClickTrack(timeline);
+    this.countInGain = this.audioContext.createGain();
+    this.countInGain.connect(this.masterGain);
+    this.metronome = new MetronomeClicks(this.audioContext, this.voiceGains.get(METRONOME_VOICE_ID)!, this.countInGain);
+    this.updateAllVoiceGains(true);
+
     console.log('ScorePlayer initialiserad med', timeline.notes.length, 'noter');
   }
 
@@ -247,22 +429,82 @@ export class ScorePlayer implements PlayerControls {
   // must not close it.
   private _ownsAudioContext = true;
 
+  private createInstrument(voice: VoiceId, id: InstrumentId): VoiceInstrument {
+    const out = this.voiceGains.get(voice)!;
+    if (!isSampledInstrument(id)) return new VoiceSynth(this.audioContext, out, id);
+
+    const set = getLoadedSampleSet(this.audioContext, id);
+    if (set) return new SampledVoice(this.audioContext, out, set);
+
+    // Play the oscillator fallback until the samples are in, then swap.
+    loadSampleSet(this.audioContext, id)
+      .then(() => {
+        if (this.disposed || this.voiceInstruments.get(voice) !== id) return;
+        this.replaceInstrument(voice);
+      })
+      .catch(err => console.warn(`Sampled instrument "${id}" unavailable, using synth fallback:`, err));
+    return new VoiceSynth(this.audioContext, out, SAMPLED_INSTRUMENTS[id].fallback);
+  }
+
+  // Swap a voice's instrument for its current choice, re-queueing its notes
+  // for the passes already scheduled so playback carries on uninterrupted.
+  private replaceInstrument(voice: VoiceId): void {
+    const old = this.voiceSynths.get(voice);
+    const now = this.audioContext.currentTime;
+    if (old) {
+      old.scheduleRest(now);
+      setTimeout(() => {
+        old.stop(this.audioContext.currentTime);
+        old.dispose();
+      }, 200);
+    }
+
+    const next = this.createInstrument(voice, this.voiceInstruments.get(voice) ?? this.defaultInstrument);
+    this.voiceSynths.set(voice, next);
+    if (!this.isPlayingState) return;
+
+    next.start(now);
+    for (const pass of this.passes) {
+      const from = pass.timelineStart + Math.max(0, now - pass.audioStart) * this.tempoMultiplier;
+      this.scheduleVoice(voice, next, pass, from);
+    }
+  }
+
+  setVoiceInstrument(voiceId: VoiceId, instrument: InstrumentId): void {
+    if (!this.voiceSynths.has(voiceId) || this.voiceInstruments.get(voiceId) === instrument) return;
+    this.voiceInstruments.set(voiceId, instrument);
+    this.replaceInstrument(voiceId);
+  }
+
+  getVoiceInstrument(voiceId: VoiceId): InstrumentId {
+    return this.voiceInstruments.get(voiceId) ?? this.defaultInstrument;
+  }
+
   private initializeVoices(): void {
     const voices = new Set(this.timeline.notes.map(note => note.voice));
 
     for (const voice of voices) {
-      const mixGain = this.audioContext.createGain();
-      mixGain.connect(this.masterGain);
-      this.voiceGains.set(voice, mixGain);
-
-      this.voiceSettings.set(voice, { volume: 1.0, muted: false, solo: false });
+      this.createChannel(voice);
+      this.voiceSettings.set(voice, { volume: 1.0, muted: false, solo: false, pan: 0 });
 
-      // One continuous synth per voice
-      const synth = new VoiceSynth(this.audioContext, mixGain, this.timbre);
-      this.voiceSynths.set(voice, synth);
+      // One instrument per voice (a continuous synth or a sampler)
+      this.voiceInstruments.set(voice, this.defaultInstrument);
+      this.voiceSynths.set(voice, this.createInstrument(voice, this.defaultInstrument));
     }
 
-    this.updateAllVoiceGains(true);
+    // Metronome channel: off by default so playback sounds as before
+    this.createChannel(METRONOME_VOICE_ID);
+    this.voiceSettings.set(METRONOME_VOICE_ID, { volume: 0.8, muted: true, solo: false, pan: 0 });
+  }
+
+  // Mixer channel: gain -> stereo panner -> master
+  private createChannel(voice: VoiceId): void {
+    const mixGain = this.audioContext.createGain();
+    const panner = this.audioContext.createStereoPanner();
+    mixGain.connect(panner);
+    panner.connect(this.masterGain);
+    this.voiceGains.set(voice, mixGain);
+    this.voicePanners.set(voice, panner);
   }
 
   play(): void {
@@ -273,57 +515,97 @@ export class ScorePlayer implements PlayerControls {
     }
 
     this.isPlayingState = true;
-    this.playStartTime = this.audioContext.currentTime;
-    this.timelineStartOffset = this.currentTimeSeconds;
-
-    this.scheduleFromOffset();
+    this.scheduleFromOffset(this.currentTimeSeconds, true);
   }
 
   pause(): void {
     if (!this.isPlayingState) return;
     this.currentTimeSeconds = this.getCurrentTime();
     this.isPlayingState = false;
-
-    // Fade all voices quickly to silence (no click)
-    const t = this.audioContext.currentTime;
-    for (const synth of this.voiceSynths.values()) synth.scheduleRest(t);
+    this.cancelSchedule();
   }
 
   stop(): void {
     this.isPlayingState = false;
-    this.currentTimeSeconds = 0;
-    this.timelineStartOffset = 0;
-
-    const t = this.audioContext.currentTime;
-    for (const synth of this.voiceSynths.values()) synth.scheduleRest(t);
+    this.currentTimeSeconds = this.loopRange?.startSeconds ?? 0;
+    this.cancelSchedule();
   }
 
   seekTo(timeSeconds: number): void {
     const clamped = Math.max(0, Math.min(timeSeconds, this.timeline.totalDurationSeconds));
     this.currentTimeSeconds = clamped;
-    this.timelineStartOffset = clamped;
 
     if (this.isPlayingState) {
-      this.playStartTime = this.audioContext.currentTime;
-      this.scheduleFromOffset();
+      this.scheduleFromOffset(clamped);
     }
   }
 
-  setTempoMultiplier(multiplier: number): void {
-    const wasPlaying = this.isPlayingState;
-    const current = this.getCurrentTime();
-    if (wasPlaying) this.pause();
+  setLoopRange(range: LoopRange | null): void {
+    const dur = this.timeline.totalDurationSeconds;
+    let next: LoopRange | null = null;
+    if (range) {
+      const start = Math.max(0, Math.min(range.startSeconds, range.endSeconds, dur));
+      const end = Math.min(dur, Math.max(range.startSeconds, range.endSeconds));
+      if (end - start > 0.05) next = { startSeconds: start, endSeconds: end };
+    }
+    this.loopRange = next;
 
-    this.tempoMultiplier = Math.max(0.25, Math.min(2.0, multiplier));
-    this.currentTimeSeconds = current;
+    // Re-queue from the current position so the new boundary applies immediately.
+    const t = this.getCurrentTime();
+    if (this.isPlayingState) this.scheduleFromOffset(t);
+    else this.currentTimeSeconds = t;
+  }
+
+  setLoopMeasures(fromMeasure: number, toMeasure: number): void {
+    this.setLoopRange(loopRangeForMeasures(this.timeline, fromMeasure, toMeasure));
+  }
+
+  getLoopRange(): LoopRange | null {
+    return this.loopRange ? { ...this.loopRange } : null;
+  }
+
+  setCountInBars(bars: number): void {
+    this.countInBars = Math.max(0, Math.min(2, Math.round(bars)));
+  }
+
+  getCountInBars(): number {
+    return this.countInBars;
+  }
 
-    if (wasPlaying) this.play();
+  getLoopIteration(): number {
+    if (!this.isPlayingState) return this.loopIteration;
+    return this.getPassAt(this.audioContext.currentTime)?.iteration ?? this.loopIteration;
+  }
+
+  /** Change the playback speed; while playing, the rest is rescheduled in place (no count-in). */
+  setTempoMultiplier(multiplier: number): void {
+    const t = this.getCurrentTime();
+    this.tempoMultiplier = Math.max(0.25, Math.min(2.0, multiplier));
+    if (this.isPlayingState) this.scheduleFromOffset(t);
+    else this.currentTimeSeconds = t;
   }
 
   getTempoMultiplier(): number {
     return this.tempoMultiplier;
   }
 
+  /** Change the reference pitch / temperament; playing notes are re-queued in the new tuning. */
+  setTuning(tuning: TuningSettings): void {
+    this.applyTuning(tuning);
+    const t = this.getCurrentTime();
+    if (this.isPlayingState) this.scheduleFromOffset(t);
+    else this.currentTimeSeconds = t;
+  }
+
+  getTuning(): TuningSettings {
+    return { ...this.tuning };
+  }
+
+  private applyTuning(tuning: TuningSettings): void {
+    this.tuning = { ...tuning };
+    this.tuningCents = noteTuningCents(this.timeline, tuning.temperament);
+  }
+
   setVoiceSettings(voiceId: VoiceId, settings: Partial<VoiceMixerSettings>): void {
     const current = this.voiceSettings.get(voiceId);
     if (!current) return;
@@ -332,7 +614,16 @@ export class ScorePlayer implements PlayerControls {
   }
 
   getVoiceSettings(voiceId: VoiceId): VoiceMixerSettings {
-    return this.voiceSettings.get(voiceId) || { volume: 1.0, muted: false, solo: false };
+    return this.voiceSettings.get(voiceId) || { volume: 1.0, muted: false, solo: false, pan: 0 };
+  }
+
+  applyPartBalance(myVoice: VoiceId, options?: PartBalanceOptions): void {
+    if (!this.voiceSynths.has(myVoice)) return;
+    for (const [voiceId, current] of this.voiceSettings) {
+      if (voiceId === METRONOME_VOICE_ID) continue;
+      this.voiceSettings.set(voiceId, partBalanceSettings(current, voiceId === myVoice, options));
+    }
+    this.updateAllVoiceGains(false);
   }
 
   getDuration(): number {
@@ -345,25 +636,39 @@ export class ScorePlayer implements PlayerControls {
 
   // Clamp time to duration so UI logic can loop safely
   getCurrentTime(): number {
-    const dur = this.timeline.totalDurationSeconds;
-    if (this.isPlayingState) {
-      const elapsed = this.audioContext.currentTime - this.playStartTime;
-      const t = this.timelineStartOffset + (elapsed * this.tempoMultiplier);
-      return Math.max(0, Math.min(dur, t));
-    }
-    return Math.max(0, Math.min(dur, this.currentTimeSeconds));
+    return this.getTimeAtAudioContextTime(this.audioContext.currentTime);
   }
 
   getTimeAtAudioContextTime(audioContextTimeSeconds: number): number {
     const dur = this.timeline.totalDurationSeconds;
     if (this.isPlayingState) {
-      const elapsed = audioContextTimeSeconds - this.playStartTime;
-      const t = this.timelineStartOffset + (elapsed * this.tempoMultiplier);
-      return Math.max(0, Math.min(dur, t));
+      const pass = this.getPassAt(audioContextTimeSeconds);
+      if (pass) {
+        // Before audioStart (count-in) the position holds at the pass start
+        const elapsed = Math.max(0, audioContextTimeSeconds - pass.audioStart);
+        const t = pass.timelineStart + (elapsed * this.tempoMultiplier);
+        return Math.max(0, Math.min(dur, Math.min(pass.timelineEnd, t)));
+      }
     }
     return Math.max(0, Math.min(dur, this.currentTimeSeconds));
   }
 
+  getAudioContextTimeAt(timeSeconds: number): number | null {
+    if (!this.isPlayingState) return null;
+    const pass = this.passes.find(p => timeSeconds >= p.timelineStart && timeSeconds < p.timelineEnd);
+    if (!pass) return null;
+    return pass.audioStart + (timeSeconds - pass.timelineStart) / this.tempoMultiplier;
+  }
+
+  // Latest scheduled pass that has started at the given audio time (passes are
+  // in start order; frames from slightly in the past map to the previous pass).
+  private getPassAt(audioContextTimeSeconds: number): ScheduledPass | null {
+    for (let i = this.passes.length - 1; i >= 0; i--) {
+      if (this.passes[i].audioStart <= audioContextTimeSeconds) return this.passes[i];
+    }
+    return this.passes[0] ?? null;
+  }
+
   getAudioContext(): AudioContext {
     return this.audioContext;
   }
@@ -377,96 +682,160 @@ export class ScorePlayer implements PlayerControls {
       const settings = this.voiceSettings.get(voiceId);
       if (!settings) continue;
 
-      let g = 0;
-      if (hasSolo) g = settings.solo ? settings.volume : 0;
-      else g = settings.muted ? 0 : settings.volume;
-
-      g = Math.max(0, Math.min(1, g));
+      const g = effectiveVoiceGain(voiceId, settings, hasSolo);
+      const pan = Math.max(-1, Math.min(1, settings.pan ?? 0));
+      const panParam = this.voicePanners.get(voiceId)?.pan;
 
       if (ramp > 0) {
         gainNode.gain.cancelScheduledValues(t);
         gainNode.gain.setValueAtTime(gainNode.gain.value, t);
         gainNode.gain.linearRampToValueAtTime(g, t + ramp);
+        if (panParam) {
+          panParam.cancelScheduledValues(t);
+          panParam.setValueAtTime(panParam.value, t);
+          panParam.linearRampToValueAtTime(pan, t + ramp);
+        }
       } else {
         gainNode.gain.value = g;
+        if (panParam) panParam.value = pan;
       }
     }
+
+    // Count-in always sounds (even with the metronome muted) at metronome volume.
+    const click = this.voiceSettings.get(METRONOME_VOICE_ID);
+    if (click) this.countInGain.gain.setValueAtTime(Math.max(0, Math.min(1, click.volume)), t);
   }
 
   private getNotesForVoice(voice: VoiceId, offset: number): MonoNote[] {
-    // Sort per voice
-    const notes = this.timeline.notes
+    // Tied chains already arrive as one sustained event from the parser, so
+    // same-pitch neighbours here are real re-articulations and keep their attack.
+    return this.timeline.notes
       .filter(n => n.voice === voice)
       .filter(n => n.startTimeSeconds + n.durationSeconds > offset)
-      .sort((a, b) => a.startTimeSeconds - b.startTimeSeconds);
-
-    // Merge same-pitch contiguous notes to avoid unnecessary envelope drops
-    const merged: MonoNote[] = [];
-    for (const n of notes) {
-      const last = merged[merged.length - 1];
-      if (!last) {
-        merged.push({ midiPitch: n.midiPitch, startTimeSeconds: n.startTimeSeconds, durationSeconds: n.durationSeconds });
-        continue;
-      }
-
-      const lastEnd = last.startTimeSeconds + last.durationSeconds;
-      const gap = n.startTimeSeconds - lastEnd;
+      .sort((a, b) => a.startTimeSeconds - b.startTimeSeconds)
+      .map(n => ({
+        midiPitch: n.midiPitch + (this.tuningCents.get(n.id) ?? 0) / 100,
+        startTimeSeconds: n.startTimeSeconds,
+        durationSeconds: n.durationSeconds
+      }));
+  }
 
-      const samePitch = n.midiPitch === last.midiPitch;
-      const close = gap >= -0.010 && gap <= 0.010; // within 10ms
+  private getLoopBounds(): LoopRange {
+    return this.loopRange ?? { startSeconds: 0, endSeconds: this.timeline.totalDurationSeconds };
+  }
 
-      if (samePitch && close) {
-        const newEnd = Math.max(lastEnd, n.startTimeSeconds + n.durationSeconds);
-        last.durationSeconds = newEnd - last.startTimeSeconds;
-      } else {
-        merged.push({ midiPitch: n.midiPitch, startTimeSeconds: n.startTimeSeconds, durationSeconds: n.durationSeconds });
-      }
+  private cancelSchedule(): void {
+    if (this.schedulerTimer != null) {
+      clearInterval(this.schedulerTimer);
+      this.schedulerTimer = null;
     }
+    this.loopIteration = this.getPassAt(this.audioContext.currentTime)?.iteration ?? this.loopIteration;
+    this.passes = [];
+    this.metronome.cancel();
 
-    return merged;
+    // Fade all voices quickly to silence (no click); also drops queued passes
+    const t = this.audioContext.currentTime;
+    for (const synth of this.voiceSynths.values()) synth.scheduleRest(t);
   }
 
-  private scheduleFromOffset(): void {
-    const offset = this.timelineStartOffset;
+  private scheduleFromOffset(offset: number, withCountIn = false): void {
     const now = this.audioContext.currentTime;
+    const loop = this.getLoopBounds();
 
     // Start all synth oscillators once (continuous)
     for (const synth of this.voiceSynths.values()) synth.start(now);
 
-    for (const [voice, synth] of this.voiceSynths.entries()) {
-      const notes = this.getNotesForVoice(voice, offset);
+    if (this.schedulerTimer != null) clearInterval(this.schedulerTimer);
+    for (const synth of this.voiceSynths.values()) synth.scheduleRest(now);
+    this.metronome.cancel();
+
+    // Playing from past the loop end (or the end of the piece) restarts at the loop start.
+    const start = offset >= loop.endSeconds - 0.001 ? loop.startSeconds : offset;
+    // A reschedule while playing (seek, tempo, tuning) continues the current loop pass.
+    this.loopIteration = this.getPassAt(now)?.iteration ?? this.loopIteration;
+    this.passes = [];
+    const audioStart = withCountIn ? this.scheduleCountIn(now + 0.05, start) : now;
+    this.schedulePass(audioStart, start, loop.endSeconds, this.loopIteration);
+
+    // Queue following passes ahead of time so each wrap-around starts exactly
+    // at the audio time where the previous pass ends.
+    this.schedulerTimer = setInterval(() => this.scheduleAhead(), SCHEDULER_INTERVAL_MS);
+  }
 
-      // If there are no notes left, just stay silent
-      if (notes.length === 0) {
-        synth.scheduleRest(now);
-        continue;
-      }
+  private scheduleAhead(): void {
+    if (!this.isPlayingState) return;
+    const last = this.passes[this.passes.length - 1];
+    if (!last) return;
 
-      for (const note of notes) {
-        const start = note.startTimeSeconds;
-        const end = note.startTimeSeconds + note.durationSeconds;
+    const now = this.audioContext.currentTime;
+    for (const synth of this.voiceSynths.values()) synth.tick?.(now);
 
-        // map timeline -> audio time with tempo multiplier
-        let relativeStart = start - offset;
-        let dur = note.durationSeconds;
+    const passEnd = last.audioStart + (last.timelineEnd - last.timelineStart) / this.tempoMultiplier;
+    if (passEnd - now > SCHEDULE_AHEAD_SEC) return;
 
-        if (relativeStart < 0) {
-          dur = end - offset;
-          relativeStart = 0;
-        }
-        if (dur <= 0) continue;
+    const loop = this.getLoopBounds();
+    if (loop.endSeconds - loop.startSeconds <= 0) return;
+    const audioStart = this.scheduleCountIn(passEnd, loop.startSeconds);
+    this.schedulePass(audioStart, loop.startSeconds, loop.endSeconds, last.iteration + 1);
 
-        const playAt = now + (relativeStart / this.tempoMultiplier);
-        const playEnd = playAt + (dur / this.tempoMultiplier);
+    // Keep only passes that can still be referenced by recent analysis frames.
+    while (this.passes.length > 3) this.passes.shift();
+  }
 
-        const freq = midiToFrequency(note.midiPitch);
-        synth.scheduleNote(playAt, playEnd, freq);
-      }
+  /**
+   * Schedule count-in clicks starting at audio time `from` for a pass beginning at
+   * timeline time `timelineStart`. Returns the audio time the pass itself starts.
+   */
+  private scheduleCountIn(from: number, timelineStart: number): number {
+    const clicks = buildCountIn(this.timeline, timelineStart, this.countInBars);
+    if (clicks.length === 0) return from;
+
+    const audioStart = from - clicks[0].offsetSeconds / this.tempoMultiplier;
+    for (const c of clicks) {
+      this.metronome.schedule(audioStart + c.offsetSeconds / this.tempoMultiplier, c.accent, true);
+    }
+    return audioStart;
+  }
+
+  private schedulePass(audioStart: number, timelineStart: number, timelineEnd: number, iteration: number): void {
+    const pass: ScheduledPass = { audioStart, timelineStart, timelineEnd, iteration };
+    this.passes.push(pass);
+
+    for (const click of this.clickTrack) {
+      if (click.timeSeconds < timelineStart - 1e-6) continue;
+      if (click.timeSeconds >= timelineEnd - 1e-6) break;
+      this.metronome.schedule(audioStart + (click.timeSeconds - timelineStart) / this.tempoMultiplier, click.accent);
+    }
+
+    for (const [voice, synth] of this.voiceSynths.entries()) {
+      this.scheduleVoice(voice, synth, pass, timelineStart);
+    }
+  }
+
+  // Queue one voice's notes for a pass, from timeline time `from` onwards.
+  private scheduleVoice(voice: VoiceId, synth: VoiceInstrument, pass: ScheduledPass, from: number): void {
+    const notes = this.getNotesForVoice(voice, from);
+
+    for (const note of notes) {
+      if (note.startTimeSeconds >= pass.timelineEnd) break;
+
+      // Clip to the pass: notes crossing the loop boundary end there
+      const start = Math.max(note.startTimeSeconds, from);
+      const end = Math.min(note.startTimeSeconds + note.durationSeconds, pass.timelineEnd);
+      if (end - start <= 0) continue;
+
+      // map timeline -> audio time with tempo multiplier
+      const playAt = pass.audioStart + ((start - pass.timelineStart) / this.tempoMultiplier);
+      const playEnd = pass.audioStart + ((end - pass.timelineStart) / this.tempoMultiplier);
+
+      const freq = midiToFrequency(note.midiPitch, this.tuning.referenceHz);
+      synth.scheduleNote(playAt, playEnd, freq);
     }
   }
 
   dispose(opts?: { closeAudioContext?: boolean }): void {
     this.stop();
+    this.disposed = true;
     const t = this.audioContext.currentTime;
     for (const synth of this.voiceSynths.values()) {
       synth.scheduleRest(t);
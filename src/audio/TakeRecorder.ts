@@ -0,0 +1,122 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { VoiceId } from '../types/ScoreTimeline';
+
+export interface TakeRecording {
+  voice: VoiceId;
+  sampleRate: number;
+  samples: Float32Array;
+  timelineStartSeconds: number;  // score time of the first sample (latency-compensated)
+  tempoMultiplier: number;       // playback tempo while it was sung
+}
+
+// Where a captured sample belongs, or null when nothing should be recorded.
+export interface TakeRecorderPosition {
+  voice: VoiceId;
+  timelineSeconds: number;
+  tempoMultiplier: number;
+}
+
+const MIN_TAKE_SECONDS = 2;
+const MAX_TAKE_SECONDS = 300;        // bounds memory (~57 MB at 48 kHz)
+const CONTINUITY_TOLERANCE_SEC = 0.15;
+
+interface ActiveTake {
+  voice: VoiceId;
+  timelineStartSeconds: number;
+  tempoMultiplier: number;
+  chunks: Float32Array[];
+  length: number;
+}
+
+/**
+ * Collects mic chunks from the take-recorder worklet into one recording per
+ * uninterrupted stretch of playback. A loop wrap, seek, tempo or voice change
+ * (anything where the score position stops advancing with the audio clock)
+ * ends the current recording and starts the next.
+ */
+export class TakeRecorder {
+  private node: AudioWorkletNode;
+  private sampleRate: number;
+  private resolve: (audioTimeSec: number) => TakeRecorderPosition | null;
+  private onTake: (recording: TakeRecording) => void;
+  private active: ActiveTake | null = null;
+
+  constructor(
+    node: AudioWorkletNode,
+    resolve: (audioTimeSec: number) => TakeRecorderPosition | null,
+    onTake: (recording: TakeRecording) => void
+  ) {
+    this.node = node;
+    this.sampleRate = node.context.sampleRate;
+    this.resolve = resolve;
+    this.onTake = onTake;
+    node.port.onmessage = (ev: MessageEvent<any>) => {
+      const data = ev.data;
+      if (data?.type !== 'chunk' || !(data.samples instanceof Float32Array)) return;
+      this.handleChunk(data.audioTimeSec, data.samples);
+    };
+  }
+
+  private handleChunk(audioTimeSec: number, samples: Float32Array): void {
+    const pos = this.resolve(audioTimeSec);
+    let take = this.active;
+
+    if (take) {
+      const expected = take.timelineStartSeconds + (take.length / this.sampleRate) * take.tempoMultiplier;
+      const continues =
+        pos != null &&
+        pos.voice === take.voice &&
+        pos.tempoMultiplier === take.tempoMultiplier &&
+        Math.abs(pos.timelineSeconds - expected) <= CONTINUITY_TOLERANCE_SEC;
+      if (!continues) {
+        this.flush();
+        take = null;
+      }
+    }
+    if (!pos) return;
+
+    if (!take) {
+      take = {
+        voice: pos.voice,
+        timelineStartSeconds: pos.timelineSeconds,
+        tempoMultiplier: pos.tempoMultiplier,
+        chunks: [],
+        length: 0
+      };
+      this.active = take;
+    }
+    if (take.length + samples.length > MAX_TAKE_SECONDS * this.sampleRate) return;
+    take.chunks.push(samples);
+    take.length += samples.length;
+  }
+
+  // End the current recording (reported if long enough to be worth hearing).
+  flush(): void {
+    const take = this.active;
+    this.active = null;
+    if (!take || take.length < MIN_TAKE_SECONDS * this.sampleRate) return;
+
+    const samples = new Float32Array(take.length);
+    let offset = 0;
+    for (const chunk of take.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.onTake({
+      voice: take.voice,
+      sampleRate: this.sampleRate,
+      samples,
+      timelineStartSeconds: take.timelineStartSeconds,
+      tempoMultiplier: take.tempoMultiplier
+    });
+  }
+
+  dispose(): void {
+    this.flush();
+    this.node.port.onmessage = null;
+    try { this.node.disconnect(); } catch {}
+  }
+}
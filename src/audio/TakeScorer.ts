@@ -0,0 +1,278 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { ScoreTimeline, VoiceId } from '../types/ScoreTimeline';
+import { PitchDeviationGate } from './PitchDeviationGate';
+
+export interface TakeScorerOptions {
+  inTuneCents: number;        // deviation that counts as off-pitch (difficulty threshold)
+  allowedWindowSec: number;   // neighbouring score notes within ± this are not "wrong"
+}
+
+export interface NoteScore {
+  eventId: string;                  // NoteEvent.id
+  measureIndex: number;
+  pass: number;
+  midiPitch: number;
+  startTimeSeconds: number;
+  durationSeconds: number;
+  inTuneFraction: number;           // of the note's heard duration
+  wrongNoteFraction: number;
+  meanCents: number | null;         // signed, + = sharp
+  medianCents: number | null;
+  onsetLatenessSec: number | null;  // first frame on the note's pitch, relative to its start
+}
+
+export interface MeasureScore {
+  measureIndex: number;
+  pass: number;
+  startTimeSeconds: number;
+  noteCount: number;
+  inTuneFraction: number;
+  wrongNoteFraction: number;
+  meanAbsCents: number | null;
+}
+
+export interface TakeReport {
+  voice: VoiceId;
+  notes: NoteScore[];
+  measures: MeasureScore[];         // worst first
+  inTuneFraction: number;
+  wrongNoteFraction: number;
+  meanCents: number | null;
+  medianCents: number | null;
+  meanOnsetLatenessSec: number | null;
+}
+
+type NoteAccumulator = {
+  heardSec: number;
+  inTuneSec: number;
+  wrongSec: number;
+  cents: number[];
+  firstHitTime: number | null;
+};
+
+type TargetNote = {
+  eventId: string;
+  midi: number;
+  start: number;
+  end: number;
+  measureIndex: number;
+  pass: number;
+};
+
+const MAX_FRAME_SEC = 0.1;          // longer gaps (seek, dropped frames) count as this
+const NEAR_MISS_CENTS = 90;         // same as the trail: closer than this is intonation, not a wrong note
+const UNRELIABLE_CENTS = 1000;      // octave/subharmonic glitches are ignored
+const WRONG_NOTE_CONFIRM_FRAMES = 3;
+const MIN_COVERAGE = 0.5;           // notes heard for less than this share are left out of the report
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+/**
+ * Scores one take of one voice, note by note. Feed it every analysis frame
+ * (score time + detected pitch, or null when unvoiced) while playing, then
+ * call finish(). Frames are judged like the live trail: the allowed-target
+ * window decides what counts as a wrong note, and a PitchDeviationGate must
+ * confirm a deviation before time counts as off-pitch.
+ */
+export class TakeScorer {
+  readonly voice: VoiceId;
+  private readonly timeline: ScoreTimeline;
+  private readonly options: TakeScorerOptions;
+  private readonly notes: TargetNote[];
+  private readonly acc: NoteAccumulator[];
+  private readonly gate = new PitchDeviationGate(2);
+  private index = 0;
+  private lastTime: number | null = null;
+  private lastNoteIndex = -1;
+  private wrongRun = 0;
+  private voicedFrames = 0;
+
+  constructor(timeline: ScoreTimeline, voice: VoiceId, options: TakeScorerOptions) {
+    this.timeline = timeline;
+    this.voice = voice;
+    this.options = options;
+    this.notes = timeline.notes
+      .filter(n => n.voice === voice)
+      .map(n => ({
+        eventId: n.id,
+        midi: n.midiPitch,
+        start: n.startTimeSeconds,
+        end: n.startTimeSeconds + n.durationSeconds,
+        measureIndex: n.measureIndex ?? 0,
+        pass: n.pass ?? 1
+      }))
+      .sort((a, b) => a.start - b.start);
+    this.acc = this.notes.map(() => ({ heardSec: 0, inTuneSec: 0, wrongSec: 0, cents: [], firstHitTime: null }));
+  }
+
+  push(timeSeconds: number, exactMidi: number | null): void {
+    if (this.lastTime != null && timeSeconds < this.lastTime) this.index = 0; // seeked back
+    const dt = this.lastTime == null ? 0 : Math.max(0, Math.min(MAX_FRAME_SEC, timeSeconds - this.lastTime));
+    this.lastTime = timeSeconds;
+
+    const i = this.noteIndexAt(timeSeconds, exactMidi);
+    if (i !== this.lastNoteIndex) {
+      this.lastNoteIndex = i;
+      this.gate.reset();
+      this.wrongRun = 0;
+    }
+    if (i < 0) return; // rest: nothing to score
+
+    const note = this.notes[i];
+    const acc = this.acc[i];
+    acc.heardSec += dt;
+    if (exactMidi == null) {
+      this.wrongRun = 0;
+      return;
+    }
+    this.voicedFrames++;
+
+    const cents = (exactMidi - note.midi) * 100;
+    if (Math.abs(cents) < NEAR_MISS_CENTS) {
+      this.wrongRun = 0;
+      acc.cents.push(cents);
+      if (acc.firstHitTime == null) acc.firstHitTime = timeSeconds;
+      this.gate.push(cents);
+      if (!this.gate.confirmed(this.options.inTuneCents)) acc.inTuneSec += dt;
+      return;
+    }
+
+    // Not this note: another score note in the window (early/late transition)
+    // is tolerated, anything else is a wrong note once confirmed.
+    this.gate.reset();
+    const closest = this.closestAllowedCents(timeSeconds, exactMidi);
+    if (closest < NEAR_MISS_CENTS || closest >= UNRELIABLE_CENTS) {
+      this.wrongRun = 0;
+      return;
+    }
+    this.wrongRun++;
+    if (this.wrongRun >= WRONG_NOTE_CONFIRM_FRAMES) acc.wrongSec += dt;
+  }
+
+  /**
+   * Summarise the take, or null when nothing was sung.
+   */
+  finish(): TakeReport | null {
+    if (this.voicedFrames === 0) return null;
+
+    const notes: NoteScore[] = [];
+    const heard: NoteAccumulator[] = [];
+    this.notes.forEach((n, i) => {
+      const acc = this.acc[i];
+      if (acc.heardSec < (n.end - n.start) * MIN_COVERAGE || acc.heardSec <= 0) return;
+      heard.push(acc);
+      notes.push({
+        eventId: n.eventId,
+        measureIndex: n.measureIndex,
+        pass: n.pass,
+        midiPitch: n.midi,
+        startTimeSeconds: n.start,
+        durationSeconds: n.end - n.start,
+        inTuneFraction: acc.inTuneSec / acc.heardSec,
+        wrongNoteFraction: acc.wrongSec / acc.heardSec,
+        meanCents: mean(acc.cents),
+        medianCents: median(acc.cents),
+        onsetLatenessSec: acc.firstHitTime != null ? acc.firstHitTime - n.start : null
+      });
+    });
+    if (notes.length === 0) return null;
+
+    const measureMap = new Map<string, { score: MeasureScore; acc: NoteAccumulator[] }>();
+    notes.forEach((n, k) => {
+      const key = `${n.measureIndex}:${n.pass}`;
+      let entry = measureMap.get(key);
+      if (!entry) {
+        const performed = this.timeline.measures.find(m => m.measureIndex === n.measureIndex && m.pass === n.pass);
+        entry = {
+          score: {
+            measureIndex: n.measureIndex,
+            pass: n.pass,
+            startTimeSeconds: performed?.startTimeSeconds ?? n.startTimeSeconds,
+            noteCount: 0,
+            inTuneFraction: 0,
+            wrongNoteFraction: 0,
+            meanAbsCents: null
+          },
+          acc: []
+        };
+        measureMap.set(key, entry);
+      }
+      entry.score.noteCount++;
+      entry.acc.push(heard[k]);
+    });
+
+    const measures = Array.from(measureMap.values()).map(({ score, acc }) => {
+      const heardSec = acc.reduce((s, a) => s + a.heardSec, 0);
+      return {
+        ...score,
+        inTuneFraction: acc.reduce((s, a) => s + a.inTuneSec, 0) / heardSec,
+        wrongNoteFraction: acc.reduce((s, a) => s + a.wrongSec, 0) / heardSec,
+        meanAbsCents: mean(acc.flatMap(a => a.cents.map(Math.abs)))
+      };
+    });
+    // Wrong notes weigh heavier than being off-pitch on the right note.
+    measures.sort((a, b) => (a.inTuneFraction - a.wrongNoteFraction) - (b.inTuneFraction - b.wrongNoteFraction));
+
+    const totalHeard = heard.reduce((s, a) => s + a.heardSec, 0);
+    const allCents = heard.flatMap(a => a.cents);
+    const lateness = notes.map(n => n.onsetLatenessSec).filter((v): v is number => v != null);
+    return {
+      voice: this.voice,
+      notes,
+      measures,
+      inTuneFraction: heard.reduce((s, a) => s + a.inTuneSec, 0) / totalHeard,
+      wrongNoteFraction: heard.reduce((s, a) => s + a.wrongSec, 0) / totalHeard,
+      meanCents: mean(allCents),
+      medianCents: median(allCents),
+      meanOnsetLatenessSec: mean(lateness)
+    };
+  }
+
+  // The note sounding at t (for chords: the one nearest the sung pitch), or -1 in a rest.
+  // `index` tracks the first note not yet ended, so forward play is amortised O(1).
+  private noteIndexAt(t: number, exactMidi: number | null): number {
+    const notes = this.notes;
+    while (this.index < notes.length && notes[this.index].end <= t) this.index++;
+
+    let best = -1;
+    let bestDist = Infinity;
+    for (let k = this.index; k < notes.length && notes[k].start <= t; k++) {
+      if (notes[k].end <= t) continue;
+      const dist = exactMidi == null ? 0 : Math.abs(exactMidi - notes[k].midi);
+      if (dist < bestDist) {
+        best = k;
+        bestDist = dist;
+      }
+    }
+    return best;
+  }
+
+  // Smallest distance (cents) from the sung pitch to any score note within the allowed window.
+  private closestAllowedCents(t: number, exactMidi: number): number {
+    const notes = this.notes;
+    const from = t - this.options.allowedWindowSec;
+    const to = t + this.options.allowedWindowSec;
+    let left = Math.min(this.index, notes.length);
+    while (left > 0 && notes[left - 1].end >= from) left--;
+
+    let best = Infinity;
+    for (let k = left; k < notes.length && notes[k].start <= to; k++) {
+      if (notes[k].end < from) continue;
+      best = Math.min(best, Math.abs((exactMidi - notes[k].midi) * 100));
+    }
+    return best;
+  }
+}
@@ -0,0 +1,307 @@
+// Ear-training exercises (intervals, scale degrees, short melodic dictation)
+// and grading of the sung answer with the score player's pitch pipeline:
+// frequencyToNoteInfo for the sung note and PitchDeviationGate for whether it
+// was held in tune.
+
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { frequencyToNoteInfo, PitchResult } from './pitchDetection';
+import { PitchDeviationGate } from './PitchDeviationGate';
+
+export type TrainerMode = 'interval' | 'degree' | 'dictation';
+export type TrainerDifficulty = 'normal' | 'advanced' | 'expert';
+
+export interface TrainerLevel {
+  intervals: number[];        // semitones asked for in interval mode
+  descending: boolean;        // intervals may go down as well as up
+  degrees: number[];          // major-scale degrees (1-7) asked for in degree mode
+  dictationLength: number;    // notes per melody
+  dictationMaxStep: number;   // largest melodic step, in scale steps
+  minClarity: number;         // clarity / threshold: same as the score player's presets
+  toleranceCents: number;
+}
+
+export const TRAINER_LEVELS: Record<TrainerDifficulty, TrainerLevel> = {
+  normal: {
+    intervals: [2, 4, 5, 7, 12],
+    descending: false,
+    degrees: [1, 3, 5],
+    dictationLength: 3,
+    dictationMaxStep: 1,
+    minClarity: 0.85,
+    toleranceCents: 90,
+  },
+  advanced: {
+    intervals: [1, 2, 3, 4, 5, 7, 8, 9, 12],
+    descending: true,
+    degrees: [1, 2, 3, 4, 5, 6],
+    dictationLength: 4,
+    dictationMaxStep: 2,
+    minClarity: 0.85,
+    toleranceCents: 50,
+  },
+  expert: {
+    intervals: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+    descending: true,
+    degrees: [1, 2, 3, 4, 5, 6, 7],
+    dictationLength: 5,
+    dictationMaxStep: 4,
+    minClarity: 0.75,
+    toleranceCents: 20,
+  },
+};
+
+// Comfortable MIDI range per voice type (exercises stay inside it)
+export interface TrainerRange {
+  low: number;
+  high: number;
+}
+
+export const TRAINER_RANGES: Record<'soprano' | 'alto' | 'tenor' | 'bass', TrainerRange> = {
+  soprano: { low: 60, high: 79 },  // C4-G5
+  alto: { low: 55, high: 74 },     // G3-D5
+  tenor: { low: 48, high: 67 },    // C3-G4
+  bass: { low: 41, high: 62 },     // F2-D4
+};
+
+export interface TrainerExercise {
+  mode: TrainerMode;
+  prompt: string;        // what to sing, e.g. "Major third up"
+  reference: number[];   // MIDI notes played before the singer answers
+  targets: number[];     // MIDI notes to sing, in order
+}
+
+export interface SungNoteResult {
+  targetMidi: number;
+  sungMidi: number | null;   // median pitch of the held note; null if nothing was sung
+  cents: number | null;      // sung - target
+  passed: boolean;
+}
+
+export interface ExerciseResult {
+  notes: SungNoteResult[];
+  passed: boolean;
+  meanAbsCents: number | null;   // over the notes that were sung
+}
+
+export const INTERVAL_NAMES = [
+  'Unison', 'Minor second', 'Major second', 'Minor third', 'Major third', 'Perfect fourth', 'Tritone',
+  'Perfect fifth', 'Minor sixth', 'Major sixth', 'Minor seventh', 'Major seventh', 'Octave',
+];
+
+const SOLFEGE = ['do', 're', 'mi', 'fa', 'sol', 'la', 'ti'];
+const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+
+// Grading
+const SETTLE_MS = 150;          // ignore the attack of each sung note
+const HOLD_MS = 600;            // a note counts once it is held this long
+const NOTE_CHANGE_CENTS = 100;  // moving this far from the held pitch starts a new note
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.min(items.length - 1, Math.floor(random() * items.length))];
+}
+
+function randomInt(lo: number, hi: number, random: () => number): number {
+  return lo + Math.min(hi - lo, Math.floor(random() * (hi - lo + 1)));
+}
+
+function scaleMidi(tonic: number, step: number): number {
+  const octave = Math.floor(step / 7);
+  return tonic + 12 * octave + MAJOR_SCALE[((step % 7) + 7) % 7];
+}
+
+/**
+ * A random exercise for the level, with every note inside the range.
+ * Degree and dictation exercises are in a major key whose tonic is played
+ * first; intervals start from a single reference note.
+ */
+export function generateExercise(
+  mode: TrainerMode,
+  difficulty: TrainerDifficulty,
+  range: TrainerRange,
+  random: () => number = Math.random
+): TrainerExercise {
+  const level = TRAINER_LEVELS[difficulty];
+
+  if (mode === 'interval') {
+    const semitones = pick(level.intervals, random);
+    const down = level.descending && random() < 0.5;
+    const lo = down ? range.low + semitones : range.low;
+    const hi = down ? range.high : range.high - semitones;
+    const reference = randomInt(lo, Math.max(lo, hi), random);
+    return {
+      mode,
+      prompt: `${INTERVAL_NAMES[semitones]} ${down ? 'down' : 'up'}`,
+      reference: [reference],
+      targets: [reference + (down ? -semitones : semitones)],
+    };
+  }
+
+  // Keys whose scale up to the octave fits the range
+  const tonic = randomInt(range.low, Math.max(range.low, range.high - 12), random);
+  const cadence = [tonic, tonic + 4, tonic + 7, tonic];
+
+  if (mode === 'degree') {
+    const degree = pick(level.degrees, random);
+    return {
+      mode,
+      prompt: `Scale degree ${degree} (${SOLFEGE[degree - 1]})`,
+      reference: cadence,
+      targets: [scaleMidi(tonic, degree - 1)],
+    };
+  }
+
+  // Dictation: a short walk on the scale starting on do, mi or sol
+  const steps = [pick([0, 2, 4], random)];
+  while (steps.length < level.dictationLength) {
+    const prev = steps[steps.length - 1];
+    let next = prev;
+    while (next === prev) {
+      next = Math.max(0, Math.min(7, prev + randomInt(-level.dictationMaxStep, level.dictationMaxStep, random)));
+    }
+    steps.push(next);
+  }
+  const melody = steps.map(s => scaleMidi(tonic, s));
+  return {
+    mode,
+    prompt: `Sing back the ${melody.length}-note melody`,
+    reference: [...cadence, ...melody],
+    targets: melody,
+  };
+}
+
+/**
+ * Grades one sung note from analysis frames. The note counts once a steady
+ * pitch is held for HOLD_MS (after SETTLE_MS of attack); its median pitch must
+ * be within the level's tolerance and PitchDeviationGate must not have
+ * confirmed it off pitch for most of the hold.
+ */
+export class SungNoteGrader {
+  private readonly targetMidi: number;
+  private readonly level: TrainerLevel;
+  private readonly gate = new PitchDeviationGate(2);
+  private voicedMs = 0;
+  private samples: number[] = [];
+  private offFrames = 0;
+
+  constructor(targetMidi: number, level: TrainerLevel) {
+    this.targetMidi = targetMidi;
+    this.level = level;
+  }
+
+  /** Feed one analysis frame; returns the result once the note was held long enough. */
+  push(pitch: PitchResult, frameMs: number): SungNoteResult | null {
+    const info = pitch.frequency != null && pitch.clarity >= this.level.minClarity
+      ? frequencyToNoteInfo(pitch.frequency)
+      : null;
+    if (!info) {
+      this.restart();
+      return null;
+    }
+
+    const held = this.samples.length ? median(this.samples) : null;
+    if (held != null && Math.abs(info.exactMidi - held) * 100 > NOTE_CHANGE_CENTS) this.restart();
+
+    this.voicedMs += frameMs;
+    if (this.voicedMs <= SETTLE_MS) return null;
+
+    this.samples.push(info.exactMidi);
+    this.gate.push((info.exactMidi - this.targetMidi) * 100);
+    if (this.gate.confirmed(this.level.toleranceCents)) this.offFrames++;
+
+    if (this.voicedMs < SETTLE_MS + HOLD_MS) return null;
+    const sungMidi = median(this.samples);
+    const cents = (sungMidi - this.targetMidi) * 100;
+    return {
+      targetMidi: this.targetMidi,
+      sungMidi,
+      cents,
+      passed: Math.abs(cents) < this.level.toleranceCents && this.offFrames < this.samples.length / 2,
+    };
+  }
+
+  /** Nothing (long enough) was sung: a miss. */
+  missed(): SungNoteResult {
+    return { targetMidi: this.targetMidi, sungMidi: null, cents: null, passed: false };
+  }
+
+  private restart() {
+    this.voicedMs = 0;
+    this.samples = [];
+    this.offFrames = 0;
+    this.gate.reset();
+  }
+}
+
+/**
+ * Grades the notes of an exercise in order. After a note is graded the next
+ * one starts only after a break or a new pitch, so a held note isn't graded twice.
+ */
+export class ExerciseGrader {
+  private readonly exercise: TrainerExercise;
+  private readonly level: TrainerLevel;
+  private readonly results: SungNoteResult[] = [];
+  private grader: SungNoteGrader;
+  private lastSungMidi: number | null = null;
+
+  constructor(exercise: TrainerExercise, difficulty: TrainerDifficulty) {
+    this.exercise = exercise;
+    this.level = TRAINER_LEVELS[difficulty];
+    this.grader = new SungNoteGrader(exercise.targets[0], this.level);
+  }
+
+  /** Index of the note being listened for. */
+  get current(): number {
+    return this.results.length;
+  }
+
+  get graded(): SungNoteResult[] {
+    return this.results;
+  }
+
+  get done(): boolean {
+    return this.results.length >= this.exercise.targets.length;
+  }
+
+  /** Feed one analysis frame; returns a note result when one was graded. */
+  push(pitch: PitchResult, frameMs: number): SungNoteResult | null {
+    if (this.done) return null;
+
+    if (this.lastSungMidi != null) {
+      const info = pitch.frequency != null && pitch.clarity >= this.level.minClarity
+        ? frequencyToNoteInfo(pitch.frequency)
+        : null;
+      if (info && Math.abs(info.exactMidi - this.lastSungMidi) * 100 < NOTE_CHANGE_CENTS / 2) return null;
+      this.lastSungMidi = null;
+    }
+
+    const result = this.grader.push(pitch, frameMs);
+    if (result) this.accept(result);
+    return result;
+  }
+
+  /** Stop listening: the remaining notes are misses. */
+  finish(): ExerciseResult {
+    while (!this.done) this.accept(this.grader.missed());
+    const sung = this.results.filter(r => r.cents != null);
+    return {
+      notes: this.results.slice(),
+      passed: this.results.every(r => r.passed),
+      meanAbsCents: sung.length ? sung.reduce((a, r) => a + Math.abs(r.cents!), 0) / sung.length : null,
+    };
+  }
+
+  private accept(result: SungNoteResult) {
+    this.results.push(result);
+    this.lastSungMidi = result.sungMidi;
+    if (!this.done) this.grader = new SungNoteGrader(this.exercise.targets[this.results.length], this.level);
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
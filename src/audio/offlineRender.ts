@@ -0,0 +1,215 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { ScoreTimeline, VoiceId } from '../types/ScoreTimeline';
+import { buildClickTrack, buildCountIn } from '../utils/clickTrack';
+import {
+  effectiveVoiceGain,
+  InstrumentId,
+  LoopRange,
+  METRONOME_VOICE_ID,
+  MetronomeClicks,
+  midiToFrequency,
+  partBalanceSettings,
+  VoiceInstrument,
+  VoiceMixerSettings,
+  VoiceSynth
+} from './ScorePlayer';
+import { isSampledInstrument, loadSampleSet, SampledVoice, SAMPLED_INSTRUMENTS } from './SampledInstrument';
+import { DEFAULT_TUNING, noteTuningCents, TuningSettings } from './tuning';
+
+export interface OfflineRenderOptions {
+  range?: LoopRange | null;                      // default: whole piece
+  tempoMultiplier?: number;                      // default 1
+  mixer: Record<VoiceId, VoiceMixerSettings>;    // score voices + metronome
+  instruments: Record<VoiceId, InstrumentId>;
+  defaultInstrument?: InstrumentId;
+  countInBars?: number;
+  tuning?: TuningSettings;                       // default A4 = 440 Hz, equal temperament
+  sampleRate?: number;                           // default 44100
+}
+
+export type RehearsalExportPreset = 'mix' | 'voice-emphasis';
+
+export interface RenderedTrack {
+  voice: VoiceId | null; // emphasised voice, null for the plain mix
+  buffer: AudioBuffer;
+}
+
+const TAIL_SEC = 1.0;          // room for the last release
+const LEAD_IN_SEC = 0.05;
+const NORMALIZE_PEAK = 0.89;   // ~ -1 dBFS
+
+async function createOfflineInstrument(ctx: BaseAudioContext, out: AudioNode, id: InstrumentId): Promise<VoiceInstrument> {
+  if (!isSampledInstrument(id)) return new VoiceSynth(ctx, out, id);
+  try {
+    return new SampledVoice(ctx, out, await loadSampleSet(ctx, id));
+  } catch (err) {
+    console.warn(`Sampled instrument "${id}" unavailable for export, using synth fallback:`, err);
+    return new VoiceSynth(ctx, out, SAMPLED_INSTRUMENTS[id].fallback);
+  }
+}
+
+/**
+ * Render a timeline range to a stereo AudioBuffer with the same synth, pan and
+ * mixer graph as ScorePlayer (one pass, no looping). The result is peak
+ * normalised, so the master volume does not matter.
+ */
+export async function renderTimelineOffline(timeline: ScoreTimeline, options: OfflineRenderOptions): Promise<AudioBuffer> {
+  const tempo = Math.max(0.25, Math.min(2.0, options.tempoMultiplier ?? 1));
+  const range = options.range ?? { startSeconds: 0, endSeconds: timeline.totalDurationSeconds };
+  const sampleRate = options.sampleRate ?? 44100;
+  const tuning = options.tuning ?? DEFAULT_TUNING;
+  const tuningCents = noteTuningCents(timeline, tuning.temperament);
+
+  const countIn = buildCountIn(timeline, range.startSeconds, options.countInBars ?? 0);
+  const countInSec = countIn.length ? -countIn[0].offsetSeconds / tempo : 0;
+  const audioStart = LEAD_IN_SEC + countInSec;
+  const toAudio = (t: number) => audioStart + (t - range.startSeconds) / tempo;
+
+  const lengthSec = toAudio(range.endSeconds) + TAIL_SEC;
+  const ctx = new OfflineAudioContext(2, Math.ceil(lengthSec * sampleRate), sampleRate);
+
+  const master = ctx.createGain();
+  master.connect(ctx.destination);
+
+  const voices = Array.from(new Set(timeline.notes.map(n => n.voice)));
+  const settingsFor = (v: VoiceId): VoiceMixerSettings =>
+    options.mixer[v] ?? { volume: 1.0, muted: v === METRONOME_VOICE_ID, solo: false, pan: 0 };
+  const hasSolo = voices.some(v => settingsFor(v).solo);
+
+  const channel = (v: VoiceId, gain: number): GainNode => {
+    const g = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    g.gain.value = gain;
+    panner.pan.value = Math.max(-1, Math.min(1, settingsFor(v).pan ?? 0));
+    g.connect(panner);
+    panner.connect(master);
+    return g;
+  };
+
+  for (const v of voices) {
+    const gain = effectiveVoiceGain(v, settingsFor(v), hasSolo);
+    if (gain <= 0) continue;
+
+    const instrument = await createOfflineInstrument(
+      ctx,
+      channel(v, gain),
+      options.instruments[v] ?? options.defaultInstrument ?? 'sine'
+    );
+    instrument.start(0);
+
+    const notes = timeline.notes
+      .filter(n => n.voice === v)
+      .sort((a, b) => a.startTimeSeconds - b.startTimeSeconds);
+    for (const n of notes) {
+      const start = Math.max(n.startTimeSeconds, range.startSeconds);
+      const end = Math.min(n.startTimeSeconds + n.durationSeconds, range.endSeconds);
+      if (end - start <= 0) continue;
+      const midi = n.midiPitch + (tuningCents.get(n.id) ?? 0) / 100;
+      instrument.scheduleNote(toAudio(start), toAudio(end), midiToFrequency(midi, tuning.referenceHz));
+    }
+    // Offline there is no scheduler tick: create every queued source now.
+    instrument.tick?.(Infinity);
+  }
+
+  const click = settingsFor(METRONOME_VOICE_ID);
+  const countInOut = ctx.createGain();
+  countInOut.gain.value = Math.max(0, Math.min(1, click.volume));
+  countInOut.connect(master);
+  const metronome = new MetronomeClicks(ctx, channel(METRONOME_VOICE_ID, effectiveVoiceGain(METRONOME_VOICE_ID, click, false)), countInOut);
+  for (const c of countIn) metronome.schedule(audioStart + c.offsetSeconds / tempo, c.accent, true);
+  if (!click.muted && click.volume > 0) {
+    for (const c of buildClickTrack(timeline)) {
+      if (c.timeSeconds < range.startSeconds - 1e-6 || c.timeSeconds >= range.endSeconds - 1e-6) continue;
+      metronome.schedule(toAudio(c.timeSeconds), c.accent);
+    }
+  }
+
+  const buffer = await ctx.startRendering();
+  normalizeInPlace(buffer, NORMALIZE_PEAK);
+  return buffer;
+}
+
+/**
+ * Render the tracks for an export preset: one mix, or one file per score voice
+ * with that voice emphasised (my part vs. the rest balance).
+ */
+export async function renderRehearsalTracks(
+  timeline: ScoreTimeline,
+  preset: RehearsalExportPreset,
+  options: OfflineRenderOptions
+): Promise<RenderedTrack[]> {
+  if (preset === 'mix') {
+    return [{ voice: null, buffer: await renderTimelineOffline(timeline, options) }];
+  }
+
+  const voices = Array.from(new Set(timeline.notes.map(n => n.voice)));
+  const tracks: RenderedTrack[] = [];
+  for (const voice of voices) {
+    const mixer: Record<VoiceId, VoiceMixerSettings> = { ...options.mixer };
+    for (const v of voices) {
+      const current = options.mixer[v] ?? { volume: 1.0, muted: false, solo: false, pan: 0 };
+      mixer[v] = partBalanceSettings(current, v === voice);
+    }
+    tracks.push({ voice, buffer: await renderTimelineOffline(timeline, { ...options, mixer }) });
+  }
+  return tracks;
+}
+
+function normalizeInPlace(buffer: AudioBuffer, targetPeak: number): void {
+  let peak = 0;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) {
+      const a = Math.abs(data[i]);
+      if (a > peak) peak = a;
+    }
+  }
+  if (peak <= 1e-6) return;
+  const gain = targetPeak / peak;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+}
+
+/**
+ * Encode an AudioBuffer as a 16-bit PCM WAV file.
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const dataBytes = frames * channels * 2;
+  const out = new DataView(new ArrayBuffer(44 + dataBytes));
+
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) out.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  writeTag(0, 'RIFF');
+  out.setUint32(4, 36 + dataBytes, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  out.setUint32(16, 16, true);                               // fmt chunk size
+  out.setUint16(20, 1, true);                                // PCM
+  out.setUint16(22, channels, true);
+  out.setUint32(24, buffer.sampleRate, true);
+  out.setUint32(28, buffer.sampleRate * channels * 2, true); // byte rate
+  out.setUint16(32, channels * 2, true);                     // block align
+  out.setUint16(34, 16, true);                               // bits per sample
+  writeTag(36, 'data');
+  out.setUint32(40, dataBytes, true);
+
+  const data: Float32Array[] = [];
+  for (let ch = 0; ch < channels; ch++) data.push(buffer.getChannelData(ch));
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      const s = Math.max(-1, Math.min(1, data[ch][i]));
+      out.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([out.buffer], { type: 'audio/wav' });
+}
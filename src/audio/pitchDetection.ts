@@ -1,10 +1,20 @@
-// Pitch detection using normalized autocorrelation (NACF) + parabolic interpolation.
-// Target-aware only for NACF search range (±3 semitones), never "snaps" pitch to target.
-// Includes an internal spike gate to suppress 1-frame pitch jumps (e.g. at note boundaries).
+// Pitch detection with runtime-selectable backends (see DETECTORS below):
+// - Pitchy (McLeod pitch method), raw output, the default
+// - NACF: normalized autocorrelation + parabolic interpolation. Target-aware
+//   for its search range (±3 semitones), never "snaps" pitch to target, and
+//   includes an internal spike gate to suppress 1-frame pitch jumps (e.g. at
+//   note boundaries).
+// - pYIN: YIN difference function with a distribution of thresholds
+//   (probabilistic YIN). Clarity is the voicing probability; a one-frame
+//   continuity prior stands in for the full HMM to avoid octave flips.
+//
+// Each PitchDetectorInstance owns its state and buffers, so several detectors
+// (one per mic channel, calibration, offline evaluation) can run side by side.
 //
 // Performance notes:
-// - detectPitch is allocation-free per call by reusing internal buffers
-//   (Hann window coefficients, windowed buffer, prefix energy buffer).
+// - PitchDetectorInstance.detect is allocation-free per call by reusing the
+//   instance's buffers (Hann window coefficients, windowed buffer, prefix
+//   energy buffer, pYIN lag buffers) and its result object.
 
 /*
  * Copyright (c) 2025 Rickard Evertsson
@@ -44,88 +54,75 @@ const MIN_CLARITY = 0.35;         // lower than 0.4 to reduce "no pitch" cases,
 const SPIKE_GATE_CENTS = 80;      // jump must exceed this to be considered a spike
 const SPIKE_GATE_CONFIRM_FRAMES = 2; // require 2 consecutive frames to accept large jump
 
-// -----------------------------
-
-// Internal singleton state (keeps behavior stable without changing ScorePlayerPage)
-type DetectorState = {
-  lastStableMidi: number | null;
-  pendingJumpMidi: number | null;
-  pendingJumpCount: number;
-};
+// pYIN
+const PYIN_THRESHOLD_COUNT = 100;     // thresholds 0.01 .. 1.00
+const PYIN_BETA_A = 2;                // Beta(2, 8): mean threshold 0.2; lower means only lose noisy frames
+const PYIN_BETA_B = 8;
+const PYIN_NO_DIP_PROB = 0.01;        // mass given to the global minimum when no dip is below a threshold
+const PYIN_MAX_CANDIDATES = 32;
+const PYIN_CONTINUITY_SEMITONES = 2;  // width of the continuity prior
+const PYIN_CONTINUITY_WEIGHT = 0.5;   // share of a candidate's weight that depends on continuity
+const PYIN_ANALYSIS_RATE = 11025;     // Hz; candidates are searched on the signal decimated to about this rate
+const PYIN_OCTAVE_RATIO = 0.5;        // a dip at twice the period this much deeper is the true period
+const PYIN_OCTAVE_MIN_CMND = 0.02;    // ...unless the chosen dip is already this close to zero
 
-const state: DetectorState = {
-  lastStableMidi: null,
-  pendingJumpMidi: null,
-  pendingJumpCount: 0,
-};
-
-type Workspace = {
-  n: number;
-  hann: Float32Array;
-  windowed: Float32Array;
-  prefixEnergy: Float64Array; // length n+1
-};
+// -----------------------------
 
-// Module-level reusable workspace. This avoids per-call allocations without
-// forcing callers to manage buffers.
-const ws: Workspace = {
-  n: 0,
-  hann: new Float32Array(0),
-  windowed: new Float32Array(0),
-  prefixEnergy: new Float64Array(0),
-};
+export type DetectorKind = 'pitchy' | 'nacf' | 'pyin';
 
-// Pitchy workspace: reuse one detector instance per buffer size.
-let pitchyDetectorN = 0;
-let pitchyDetector: PitchDetector<Float32Array> | null = null;
-function getPitchyDetector(n: number): PitchDetector<Float32Array> {
-  if (!pitchyDetector || pitchyDetectorN !== n) {
-    pitchyDetector = PitchDetector.forFloat32Array(n);
-    pitchyDetectorN = n;
-  }
-  return pitchyDetector;
+export interface PitchDetectorBackend {
+  kind: DetectorKind;
+  label: string;
+  targetAware: boolean;   // narrows its search around TargetHint when given one
+  spikeGated: boolean;    // detect() already runs its result through applySpikeGate
 }
 
-export type DetectorKind = 'nacf' | 'pitchy';
-
-// Exported for A/B testing / future re-enable (avoids TS noUnusedLocals in builds).
-export function getDetectorKind(): DetectorKind {
-  // Keep this module compatible with Next/Webpack and AudioWorklet runtimes.
-  // (Avoid `import.meta` access which triggers Webpack "Critical dependency" warnings.)
-  return 'pitchy';
+export interface PitchDetectorConfig {
+  kind: DetectorKind;
+  minFreq: number;        // Hz, search range and sanity clamp
+  maxFreq: number;
 }
 
-function ensureWorkspace(n: number): Workspace {
-  if (ws.n === n) return ws;
+// ---------- Detector registry ----------
+// New algorithms add a DetectorKind, an entry here and a case in
+// PitchDetectorInstance.detect; the UI lists them and the worklet selects one
+// through its `config` message.
+const DETECTORS: Record<DetectorKind, PitchDetectorBackend> = {
+  pitchy: { kind: 'pitchy', label: 'Pitchy (McLeod)', targetAware: false, spikeGated: false },
+  nacf: { kind: 'nacf', label: 'NACF (target-aware)', targetAware: true, spikeGated: true },
+  pyin: { kind: 'pyin', label: 'pYIN (probabilistic YIN)', targetAware: false, spikeGated: false },
+};
 
-  ws.n = n;
-  ws.hann = new Float32Array(n);
-  ws.windowed = new Float32Array(n);
-  ws.prefixEnergy = new Float64Array(n + 1);
+export const DEFAULT_DETECTOR_KIND: DetectorKind = 'pitchy';
 
-  if (n > 1) {
-    const k = (2 * Math.PI) / (n - 1);
-    for (let i = 0; i < n; i++) {
-      // Hann window
-      ws.hann[i] = 0.5 * (1 - Math.cos(k * i));
-    }
-  } else if (n === 1) {
-    ws.hann[0] = 1;
-  }
+export function listPitchDetectors(): PitchDetectorBackend[] {
+  return Object.values(DETECTORS);
+}
 
-  return ws;
+export function getPitchDetectorBackend(kind: DetectorKind): PitchDetectorBackend {
+  return DETECTORS[kind];
 }
 
-export function resetPitchDetectorState(opts?: { seedMidi?: number }) {
-  // Optional: seed the detector with an expected MIDI so the very next frame
-  // can't "accept" a wildly wrong pitch immediately after a reset (common at
-  // note boundaries / attacks). When seeded, the spike-gate will hold until
-  // a large jump is confirmed for multiple frames.
-  state.lastStableMidi = typeof opts?.seedMidi === 'number' ? opts.seedMidi : null;
-  state.pendingJumpMidi = null;
-  state.pendingJumpCount = 0;
+export function isDetectorKind(value: unknown): value is DetectorKind {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(DETECTORS, value);
 }
 
+// Threshold prior: Beta(a, b) sampled at 0.01 .. 1.00, normalized to sum 1.
+// Read-only, so shared by every instance.
+const PYIN_THRESHOLDS = new Float64Array(PYIN_THRESHOLD_COUNT);
+const PYIN_THRESHOLD_WEIGHTS = (() => {
+  const w = new Float64Array(PYIN_THRESHOLD_COUNT);
+  let sum = 0;
+  for (let i = 0; i < PYIN_THRESHOLD_COUNT; i++) {
+    const x = (i + 1) / PYIN_THRESHOLD_COUNT;
+    PYIN_THRESHOLDS[i] = x;
+    w[i] = Math.pow(x, PYIN_BETA_A - 1) * Math.pow(Math.max(0, 1 - x), PYIN_BETA_B - 1);
+    sum += w[i];
+  }
+  for (let i = 0; i < PYIN_THRESHOLD_COUNT; i++) w[i] /= sum;
+  return w;
+})();
+
 // Helpers
 function midiToFreq(midi: number): number {
   return 440 * Math.pow(2, (midi - 69) / 12);
@@ -151,69 +148,39 @@ function dcRemoveAndApplyHann(
   }
 }
 
+function fillPrefixEnergy(x: Float32Array, prefixEnergy: Float64Array) {
+  // prefixEnergy length must be n+1
+  prefixEnergy[0] = 0;
+  for (let i = 0; i < x.length; i++) prefixEnergy[i + 1] = prefixEnergy[i] + x[i] * x[i];
+}
+
 /**
  * Normalized autocorrelation for a given lag:
  *  r(lag) = sum(x[i]*x[i+lag]) / sqrt(sum(x[i]^2) * sum(x[i+lag]^2))
  * This keeps "clarity" more meaningful across levels and transitions.
  */
-function findBestLagNacf(
-  x: Float32Array,
-  prefixEnergy: Float64Array,
-  sampleRate: number,
-  minFreq: number,
-  maxFreq: number
-): { bestLag: number; clarity: number; corrAtLag: (lag: number) => number } {
-  const n = x.length;
-
-  const minLag = Math.floor(sampleRate / maxFreq);
-  const maxLag = Math.floor(sampleRate / minFreq);
-
-  // Precompute prefix energy for fast segment energy
-  // prefixEnergy length must be n+1
-  prefixEnergy[0] = 0;
-  for (let i = 0; i < n; i++) prefixEnergy[i + 1] = prefixEnergy[i] + x[i] * x[i];
-
-  const energy = (start: number, end: number) => prefixEnergy[end] - prefixEnergy[start];
-
-  const corrAtLag = (lag: number): number => {
-    const m = n - lag;
-    if (m <= 0) return 0;
+function nacfAtLag(x: Float32Array, prefixEnergy: Float64Array, lag: number): number {
+  const m = x.length - lag;
+  if (m <= 0) return 0;
 
-    let num = 0;
-    for (let i = 0; i < m; i++) {
-      num += x[i] * x[i + lag];
-    }
-
-    const e1 = energy(0, m);
-    const e2 = energy(lag, lag + m);
-    const den = Math.sqrt(e1 * e2);
-
-    if (den <= 1e-12) return 0;
-    return num / den; // in [-1..1]
-  };
-
-  let bestLag = -1;
-  let best = -1;
-
-  for (let lag = minLag; lag <= maxLag; lag++) {
-    const c = corrAtLag(lag);
-    if (c > best) {
-      best = c;
-      bestLag = lag;
-    }
+  let num = 0;
+  for (let i = 0; i < m; i++) {
+    num += x[i] * x[i + lag];
   }
 
-  return { bestLag, clarity: clamp(best, 0, 1), corrAtLag };
+  const e1 = prefixEnergy[m] - prefixEnergy[0];
+  const e2 = prefixEnergy[lag + m] - prefixEnergy[lag];
+  const den = Math.sqrt(e1 * e2);
+
+  if (den <= 1e-12) return 0;
+  return num / den; // in [-1..1]
 }
 
-function parabolicInterpolatePeak(
-  lag: number,
-  corrAtLag: (lag: number) => number
-): number {
+function parabolicInterpolatePeak(x: Float32Array, prefixEnergy: Float64Array, lag: number): number {
   // refine lag using (lag-1, lag, lag+1)
-  const c0 = corrAtLag(lag - 1);
-  const c1 = corrAtLag(lag);
-  const c2 = corrAtLag(lag + 1);
+  const c0 = nacfAtLag(x, prefixEnergy, lag - 1);
+  const c1 = nacfAtLag(x, prefixEnergy, lag);
+  const c2 = nacfAtLag(x, prefixEnergy, lag + 1);
 
   const denom = (c0 - 2 * c1 + c2);
   if (Math.abs(denom) < 1e-12) return lag;
@@ -224,189 +191,506 @@ function parabolicInterpolatePeak(
   return lag + delta;
 }
 
-function applySpikeGate(exactMidi: number): number {
-  // If we don't have a stable midi yet, accept immediately.
-  // (Callers can seed lastStableMidi via resetPitchDetectorState({ seedMidi }) to avoid
-  // immediate acceptance of a wrong first frame at transitions.)
-  if (state.lastStableMidi == null) {
-    state.lastStableMidi = exactMidi;
-    state.pendingJumpMidi = null;
-    state.pendingJumpCount = 0;
-    return exactMidi;
+function rmsOf(buffer: Float32Array): number {
+  let sumSq = 0;
+  for (let i = 0; i < buffer.length; i++) sumSq += buffer[i] * buffer[i];
+  return Math.sqrt(sumSq / buffer.length);
+}
+
+/**
+ * One independent pitch detector: its config, spike-gate state and analysis
+ * buffers. Run one per mic channel (or per test); instances share nothing
+ * mutable.
+ *
+ * detect() is allocation-free once the buffers match the window size, and
+ * returns the same PitchResult object on every call: copy the fields if you
+ * need them after the next call.
+ */
+export class PitchDetectorInstance {
+  private config: PitchDetectorConfig;
+
+  // Spike gate
+  private lastStableMidi: number | null = null;
+  private pendingJumpMidi: number | null = null;
+  private pendingJumpCount = 0;
+  private lastPyinMidi: number | null = null;   // previous voiced pYIN frame (continuity prior)
+
+  // NACF workspace
+  private n = 0;
+  private hann = new Float32Array(0);
+  private windowed = new Float32Array(0);
+  private prefixEnergy = new Float64Array(0);  // length n+1
+
+  // pYIN workspace: per-lag buffers sized for the largest lag, plus candidates.
+  private pyinMaxLag = 0;
+  private pyinDiff = new Float64Array(0);      // YIN difference function d(tau)
+  private pyinCmnd = new Float64Array(0);      // cumulative mean normalized difference d'(tau)
+  private pyinDecimated = new Float32Array(0); // input averaged down to about PYIN_ANALYSIS_RATE
+  private readonly candLag = new Int32Array(PYIN_MAX_CANDIDATES);
+  private readonly candProb = new Float64Array(PYIN_MAX_CANDIDATES);
+
+  // Pitchy: one detector per buffer size.
+  private pitchy: PitchDetector<Float32Array> | null = null;
+  private pitchyN = 0;
+
+  private readonly result: PitchResult = { frequency: null, clarity: 0 };
+
+  constructor(config?: Partial<PitchDetectorConfig>) {
+    this.config = {
+      kind: config?.kind ?? DEFAULT_DETECTOR_KIND,
+      minFreq: config?.minFreq ?? DEFAULT_MIN_FREQ,
+      maxFreq: config?.maxFreq ?? DEFAULT_MAX_FREQ,
+    };
   }
 
-  const diffCents = (exactMidi - state.lastStableMidi) * 100;
-  const abs = Math.abs(diffCents);
+  getConfig(): Readonly<PitchDetectorConfig> {
+    return this.config;
+  }
 
-  // Small movement: accept and reset pending
-  if (abs < SPIKE_GATE_CENTS) {
-    state.lastStableMidi = exactMidi;
-    state.pendingJumpMidi = null;
-    state.pendingJumpCount = 0;
-    return exactMidi;
+  getKind(): DetectorKind {
+    return this.config.kind;
   }
 
-  // Large jump: require confirmation
-  if (state.pendingJumpMidi == null) {
-    state.pendingJumpMidi = exactMidi;
-    state.pendingJumpCount = 1;
-    return state.lastStableMidi; // hold stable for now
+  setKind(kind: DetectorKind) {
+    if (kind === this.config.kind) return;
+    this.config = { ...this.config, kind };
+    // Gate state from another algorithm would hold the wrong pitch.
+    this.reset();
   }
 
-  // If new reading agrees with pending jump (within 30 cents), confirm
-  const agreeCents = Math.abs((exactMidi - state.pendingJumpMidi) * 100);
-  if (agreeCents <= 30) {
-    state.pendingJumpCount += 1;
-  } else {
-    // pending changed direction/target -> restart pending
-    state.pendingJumpMidi = exactMidi;
-    state.pendingJumpCount = 1;
-    return state.lastStableMidi;
+  reset(opts?: { seedMidi?: number }) {
+    // Optional: seed the detector with an expected MIDI so the very next frame
+    // can't "accept" a wildly wrong pitch immediately after a reset (common at
+    // note boundaries / attacks). When seeded, the spike-gate will hold until
+    // a large jump is confirmed for multiple frames.
+    this.lastStableMidi = typeof opts?.seedMidi === 'number' ? opts.seedMidi : null;
+    this.pendingJumpMidi = null;
+    this.pendingJumpCount = 0;
+    this.lastPyinMidi = null;
   }
 
-  if (state.pendingJumpCount >= SPIKE_GATE_CONFIRM_FRAMES) {
-    state.lastStableMidi = state.pendingJumpMidi;
-    state.pendingJumpMidi = null;
-    state.pendingJumpCount = 0;
-    return state.lastStableMidi;
+  /**
+   * Detect pitch with the configured backend. Target-aware backends use
+   * targetHint to narrow their search; the others ignore it.
+   */
+  detect(buffer: Float32Array, sampleRate: number, targetHint?: TargetHint): PitchResult {
+    if (buffer.length === 0) return this.emit(null, 0);
+    switch (this.config.kind) {
+      case 'nacf':
+        return this.detectNacf(buffer, sampleRate, targetHint);
+      case 'pyin':
+        return this.detectPyin(buffer, sampleRate);
+      default:
+        return this.detectPitchy(buffer, sampleRate);
+    }
   }
 
-  return state.lastStableMidi;
-}
+  applySpikeGate(exactMidi: number): number {
+    // If we don't have a stable midi yet, accept immediately.
+    // (Callers can seed lastStableMidi via reset({ seedMidi }) to avoid
+    // immediate acceptance of a wrong first frame at transitions.)
+    if (this.lastStableMidi == null) {
+      this.lastStableMidi = exactMidi;
+      this.pendingJumpMidi = null;
+      this.pendingJumpCount = 0;
+      return exactMidi;
+    }
 
-/**
- * Detect pitch from an audio buffer.
- * - If targetHint exists: narrows search to ±3 semitones around target
- * - Never "snaps" to target: it just constrains the lag range
- * - Returns frequency + clarity
- */
-// Exported for A/B testing / future re-enable (avoids TS noUnusedLocals in builds).
-export function detectPitchNacf(
-  buffer: Float32Array,
-  sampleRate: number,
-  targetHint?: TargetHint
-): PitchResult {
-  const n = buffer.length;
-  if (n === 0) return { frequency: null, clarity: 0 };
-
-  // Compute DC mean and RMS in one pass (no allocations).
-  let sum = 0;
-  let sumSq = 0;
-  for (let i = 0; i < n; i++) {
-    const v = buffer[i];
-    sum += v;
-    sumSq += v * v;
-  }
-  const mean = sum / n;
-  const rms = Math.sqrt(sumSq / n);
-  if (rms < RMS_THRESHOLD) {
-    // reset gating slowly? keep last stable to avoid flicker if you prefer:
-    // state.pendingJumpMidi = null; state.pendingJumpCount = 0;
-    return { frequency: null, clarity: 0 };
-  }
+    const diffCents = (exactMidi - this.lastStableMidi) * 100;
+    const abs = Math.abs(diffCents);
+
+    // Small movement: accept and reset pending
+    if (abs < SPIKE_GATE_CENTS) {
+      this.lastStableMidi = exactMidi;
+      this.pendingJumpMidi = null;
+      this.pendingJumpCount = 0;
+      return exactMidi;
+    }
 
-  // Preprocess
-  const w = ensureWorkspace(n);
-  dcRemoveAndApplyHann(buffer, w.windowed, w.hann, mean);
+    // Large jump: require confirmation
+    if (this.pendingJumpMidi == null) {
+      this.pendingJumpMidi = exactMidi;
+      this.pendingJumpCount = 1;
+      return this.lastStableMidi; // hold stable for now
+    }
 
-  // Choose search band
-  let minFreq = DEFAULT_MIN_FREQ;
-  let maxFreq = DEFAULT_MAX_FREQ;
+    // If new reading agrees with pending jump (within 30 cents), confirm
+    const agreeCents = Math.abs((exactMidi - this.pendingJumpMidi) * 100);
+    if (agreeCents <= 30) {
+      this.pendingJumpCount += 1;
+    } else {
+      // pending changed direction/target -> restart pending
+      this.pendingJumpMidi = exactMidi;
+      this.pendingJumpCount = 1;
+      return this.lastStableMidi;
+    }
 
-  if (targetHint) {
-    const targetFreq = midiToFreq(targetHint.targetMidi);
-    const ratio = Math.pow(2, TARGET_SEMITONE_SPAN / 12); // ~1.189
-    minFreq = Math.max(DEFAULT_MIN_FREQ, targetFreq / ratio);
-    maxFreq = Math.min(DEFAULT_MAX_FREQ, targetFreq * ratio);
+    if (this.pendingJumpCount >= SPIKE_GATE_CONFIRM_FRAMES) {
+      this.lastStableMidi = this.pendingJumpMidi;
+      this.pendingJumpMidi = null;
+      this.pendingJumpCount = 0;
+      return this.lastStableMidi;
+    }
+
+    return this.lastStableMidi;
   }
 
-  // Find best lag by NACF
-  const { bestLag, clarity, corrAtLag } = findBestLagNacf(w.windowed, w.prefixEnergy, sampleRate, minFreq, maxFreq);
+  private emit(frequency: number | null, clarity: number): PitchResult {
+    this.result.frequency = frequency;
+    this.result.clarity = clarity;
+    return this.result;
+  }
 
-  if (bestLag === -1 || clarity < MIN_CLARITY) {
-    return { frequency: null, clarity };
+  private ensureNacfWorkspace(n: number) {
+    if (this.n === n) return;
+
+    this.n = n;
+    this.hann = new Float32Array(n);
+    this.windowed = new Float32Array(n);
+    this.prefixEnergy = new Float64Array(n + 1);
+
+    if (n > 1) {
+      const k = (2 * Math.PI) / (n - 1);
+      for (let i = 0; i < n; i++) {
+        // Hann window
+        this.hann[i] = 0.5 * (1 - Math.cos(k * i));
+      }
+    } else if (n === 1) {
+      this.hann[0] = 1;
+    }
   }
 
-  // Refine lag
-  let refinedLag = bestLag;
-  if (bestLag > 2) {
-    refinedLag = parabolicInterpolatePeak(bestLag, corrAtLag);
+  private ensurePyinWorkspace(maxLag: number, decimatedLength: number) {
+    if (this.pyinDecimated.length !== decimatedLength) this.pyinDecimated = new Float32Array(decimatedLength);
+    if (this.pyinMaxLag === maxLag) return;
+    this.pyinMaxLag = maxLag;
+    this.pyinDiff = new Float64Array(maxLag + 2);
+    this.pyinCmnd = new Float64Array(maxLag + 2);
+  }
+
+  private getPitchy(n: number): PitchDetector<Float32Array> {
+    if (!this.pitchy || this.pitchyN !== n) {
+      this.pitchy = PitchDetector.forFloat32Array(n);
+      this.pitchyN = n;
+    }
+    return this.pitchy;
   }
 
-  let frequency = sampleRate / refinedLag;
+  /**
+   * NACF:
+   * - If targetHint exists: narrows search to ±3 semitones around target
+   * - Never "snaps" to target: it just constrains the lag range
+   * - Output goes through the spike gate
+   */
+  private detectNacf(buffer: Float32Array, sampleRate: number, targetHint?: TargetHint): PitchResult {
+    const n = buffer.length;
+    const { minFreq: lo, maxFreq: hi } = this.config;
+
+    // Compute DC mean and RMS in one pass (no allocations).
+    let sum = 0;
+    let sumSq = 0;
+    for (let i = 0; i < n; i++) {
+      const v = buffer[i];
+      sum += v;
+      sumSq += v * v;
+    }
+    const mean = sum / n;
+    const rms = Math.sqrt(sumSq / n);
+    if (rms < RMS_THRESHOLD) {
+      // reset gating slowly? keep last stable to avoid flicker if you prefer:
+      // this.pendingJumpMidi = null; this.pendingJumpCount = 0;
+      return this.emit(null, 0);
+    }
+
+    // Preprocess
+    this.ensureNacfWorkspace(n);
+    const x = this.windowed;
+    const prefixEnergy = this.prefixEnergy;
+    dcRemoveAndApplyHann(buffer, x, this.hann, mean);
+    fillPrefixEnergy(x, prefixEnergy);
+
+    // Choose search band
+    let minFreq = lo;
+    let maxFreq = hi;
+
+    if (targetHint) {
+      const targetFreq = midiToFreq(targetHint.targetMidi);
+      const ratio = Math.pow(2, TARGET_SEMITONE_SPAN / 12); // ~1.189
+      minFreq = Math.max(lo, targetFreq / ratio);
+      maxFreq = Math.min(hi, targetFreq * ratio);
+    }
+
+    // Find best lag by NACF
+    const minLag = Math.floor(sampleRate / maxFreq);
+    const maxLag = Math.floor(sampleRate / minFreq);
+    let bestLag = -1;
+    let best = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const c = nacfAtLag(x, prefixEnergy, lag);
+      if (c > best) {
+        best = c;
+        bestLag = lag;
+      }
+    }
+    const clarity = clamp(best, 0, 1);
 
-  // Sanity clamp
-  if (frequency < DEFAULT_MIN_FREQ || frequency > DEFAULT_MAX_FREQ) {
-    return { frequency: null, clarity: 0 };
+    if (bestLag === -1 || clarity < MIN_CLARITY) {
+      return this.emit(null, clarity);
+    }
+
+    // Refine lag
+    let refinedLag = bestLag;
+    if (bestLag > 2) {
+      refinedLag = parabolicInterpolatePeak(x, prefixEnergy, bestLag);
+    }
+
+    const frequency = sampleRate / refinedLag;
+
+    // Sanity clamp
+    if (frequency < lo || frequency > hi) {
+      return this.emit(null, 0);
+    }
+
+    // Spike gate in MIDI domain (suppresses 1-frame jumps)
+    const exactMidi = freqToExactMidi(frequency);
+    // If we have a target hint but no stable state yet (e.g. after silence),
+    // anchor the gate to the target so we don't accept a random wrong pitch on
+    // the very first frame.
+    if (this.lastStableMidi == null && targetHint && typeof targetHint.targetMidi === 'number') {
+      this.lastStableMidi = targetHint.targetMidi;
+    }
+    const gatedMidi = this.applySpikeGate(exactMidi);
+
+    return this.emit(midiToFreq(gatedMidi), clarity);
   }
 
-  // Spike gate in MIDI domain (suppresses 1-frame jumps)
-  const exactMidi = freqToExactMidi(frequency);
-  // If we have a target hint but no stable state yet (e.g. after silence),
-  // anchor the gate to the target so we don't accept a random wrong pitch on
-  // the very first frame.
-  if (state.lastStableMidi == null && targetHint && typeof targetHint.targetMidi === 'number') {
-    state.lastStableMidi = targetHint.targetMidi;
+  private detectPitchy(buffer: Float32Array, sampleRate: number): PitchResult {
+    // Keep our RMS gate to avoid nonsense output on near-silence.
+    if (rmsOf(buffer) < RMS_THRESHOLD) return this.emit(null, 0);
+
+    const [pitch, c] = this.getPitchy(buffer.length).findPitch(buffer, sampleRate);
+    const clarity = clamp(typeof c === 'number' ? c : 0, 0, 1);
+
+    let frequency =
+      typeof pitch === 'number' && Number.isFinite(pitch) && pitch > 0 ? pitch : null;
+
+    // Sanity clamp
+    if (frequency != null && (frequency < this.config.minFreq || frequency > this.config.maxFreq)) {
+      frequency = null;
+    }
+
+    // NOTE: For "raw pitchy" evaluation we intentionally do NOT apply:
+    // - target-based rejection
+    // - spike gate / seeding
+    // Callers can still gate on MIN_CLARITY and RMS_THRESHOLD externally.
+    return this.emit(frequency, clarity);
   }
-  const gatedMidi = applySpikeGate(exactMidi);
-  const gatedFreq = midiToFreq(gatedMidi);
 
-  return { frequency: gatedFreq, clarity };
-}
+  /**
+   * Probabilistic YIN (Mauch & Dixon 2014), frame-wise:
+   * - d'(tau) dips are pitch-period candidates, searched on the signal
+   *   decimated to ~11 kHz (the difference function is O(lags x window))
+   * - each threshold of a Beta prior votes for the first dip below it; the sum
+   *   of votes is the voicing probability (returned as clarity)
+   * - candidates are weighed by a continuity prior around the previous voiced
+   *   frame, and a much deeper dip at twice the chosen period wins (a weak
+   *   fundamental under a strong 2nd harmonic, common on low basses)
+   * - the chosen period is refined on the full-rate signal
+   */
+  private detectPyin(buffer: Float32Array, sampleRate: number): PitchResult {
+    const { minFreq, maxFreq } = this.config;
+
+    if (rmsOf(buffer) < RMS_THRESHOLD) {
+      this.lastPyinMidi = null;
+      return this.emit(null, 0);
+    }
 
-function detectPitchPitchy(
-  buffer: Float32Array,
-  sampleRate: number,
-  _targetHint?: TargetHint
-): PitchResult {
-  const n = buffer.length;
-  if (n === 0) return { frequency: null, clarity: 0 };
+    // Decimate by block averaging (a crude low-pass; voice energy above
+    // ~5 kHz is small enough not to matter for the period)
+    const factor = Math.max(1, Math.floor(sampleRate / PYIN_ANALYSIS_RATE));
+    const rate = sampleRate / factor;
+    const n = Math.floor(buffer.length / factor);
+
+    const minLag = Math.max(2, Math.floor(rate / maxFreq));
+    const maxLag = Math.min(Math.ceil(rate / minFreq), Math.floor(n / 2) - 1);
+    if (maxLag <= minLag) return this.emit(null, 0);
+    this.ensurePyinWorkspace(maxLag, n);
+    const x = this.pyinDecimated;
+    const diff = this.pyinDiff;
+    const cmnd = this.pyinCmnd;
+    const candLag = this.candLag;
+    const candProb = this.candProb;
+    const integration = n - maxLag - 1;
 
-  // Keep our RMS gate to avoid nonsense output on near-silence.
-  let sumSq = 0;
-  for (let i = 0; i < n; i++) sumSq += buffer[i] * buffer[i];
-  const rms = Math.sqrt(sumSq / n);
-  if (rms < RMS_THRESHOLD) return { frequency: null, clarity: 0 };
+    for (let i = 0; i < n; i++) {
+      let v = 0;
+      for (let k = i * factor, end = k + factor; k < end; k++) v += buffer[k];
+      x[i] = v / factor;
+    }
+
+    // Difference function over a fixed integration window
+    diff[0] = 0;
+    for (let tau = 1; tau <= maxLag + 1; tau++) {
+      let d = 0;
+      for (let j = 0; j < integration; j++) {
+        const delta = x[j] - x[j + tau];
+        d += delta * delta;
+      }
+      diff[tau] = d;
+    }
+
+    // Cumulative mean normalization
+    cmnd[0] = 1;
+    let running = 0;
+    for (let tau = 1; tau <= maxLag + 1; tau++) {
+      running += diff[tau];
+      cmnd[tau] = running > 0 ? (diff[tau] * tau) / running : 1;
+    }
+
+    // Dips (local minima) in the allowed lag range, in increasing lag order
+    let count = 0;
+    let globalMin = -1;
+    for (let tau = minLag; tau <= maxLag && count < PYIN_MAX_CANDIDATES; tau++) {
+      if (cmnd[tau] < cmnd[tau - 1] && cmnd[tau] <= cmnd[tau + 1]) {
+        candLag[count] = tau;
+        candProb[count] = 0;
+        if (globalMin < 0 || cmnd[tau] < cmnd[candLag[globalMin]]) globalMin = count;
+        count++;
+      }
+    }
+    if (count === 0) {
+      this.lastPyinMidi = null;
+      return this.emit(null, 0);
+    }
 
-  const detector = getPitchyDetector(n);
-  const [pitch, c] = detector.findPitch(buffer, sampleRate);
-  const clarity = clamp(typeof c === 'number' ? c : 0, 0, 1);
+    // Each threshold votes for the first dip below it (or, weakly, the deepest one)
+    let voicing = 0;
+    for (let k = 0; k < PYIN_THRESHOLD_COUNT; k++) {
+      const thr = PYIN_THRESHOLDS[k];
+      const weight = PYIN_THRESHOLD_WEIGHTS[k];
+      let hit = -1;
+      for (let c = 0; c < count; c++) {
+        if (cmnd[candLag[c]] < thr) {
+          hit = c;
+          break;
+        }
+      }
+      if (hit >= 0) {
+        candProb[hit] += weight;
+        voicing += weight;
+      } else {
+        candProb[globalMin] += weight * PYIN_NO_DIP_PROB;
+      }
+    }
 
-  let frequency =
-    typeof pitch === 'number' && Number.isFinite(pitch) && pitch > 0 ? pitch : null;
+    // Pick the candidate with the best probability x continuity
+    const prevMidi = this.lastPyinMidi;
+    let best = -1;
+    let bestScore = 0;
+    for (let c = 0; c < count; c++) {
+      const p = candProb[c];
+      if (p <= 0) continue;
+      let score = p;
+      if (prevMidi != null) {
+        const dSemis = freqToExactMidi(rate / candLag[c]) - prevMidi;
+        const g = Math.exp(-0.5 * (dSemis / PYIN_CONTINUITY_SEMITONES) ** 2);
+        score *= 1 - PYIN_CONTINUITY_WEIGHT + PYIN_CONTINUITY_WEIGHT * g;
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = c;
+      }
+    }
+    const clarity = clamp(voicing, 0, 1);
+    if (best < 0 || clarity < MIN_CLARITY) {
+      this.lastPyinMidi = null;
+      return this.emit(null, clarity);
+    }
 
-  // Sanity clamp
-  if (frequency != null && (frequency < DEFAULT_MIN_FREQ || frequency > DEFAULT_MAX_FREQ)) {
-    frequency = null;
+    // Octave check: the first dip below a threshold can be half the period
+    let tau = candLag[best];
+    if (cmnd[tau] > PYIN_OCTAVE_MIN_CMND) {
+      const tolerance = Math.max(1, Math.round(tau * 0.06));
+      for (let c = best + 1; c < count; c++) {
+        const lag = candLag[c];
+        if (lag > 2 * tau + tolerance) break;
+        if (lag >= 2 * tau - tolerance && cmnd[lag] < PYIN_OCTAVE_RATIO * cmnd[tau]) {
+          tau = lag;
+          break;
+        }
+      }
+    }
+
+    // Refine: parabolic minimum of d' on the decimated signal, then of d on
+    // the full-rate signal around it
+    let refined = tau + parabolicMinOffset(cmnd[tau - 1], cmnd[tau], cmnd[tau + 1]);
+    if (factor > 1) refined = this.refinePyinPeriod(buffer, refined * factor, factor) / factor;
+
+    const frequency = rate / refined;
+    if (frequency < minFreq || frequency > maxFreq) {
+      this.lastPyinMidi = null;
+      return this.emit(null, 0);
+    }
+    this.lastPyinMidi = freqToExactMidi(frequency);
+    return this.emit(frequency, clarity);
   }
 
-  // NOTE: For "raw pitchy" evaluation we intentionally do NOT apply:
-  // - target-based rejection
-  // - spike gate / seeding
-  // Callers can still gate on MIN_CLARITY and RMS_THRESHOLD externally.
-  return { frequency, clarity };
+  // Full-rate period (in samples) near `approx`: the minimum of the difference
+  // function over the few lags the decimated estimate can be off by.
+  private refinePyinPeriod(buffer: Float32Array, approx: number, span: number): number {
+    const lo = Math.max(1, Math.floor(approx) - span);
+    const hi = Math.ceil(approx) + span;
+    const integration = buffer.length - hi - 1;
+    if (integration <= 0) return approx;
+
+    let bestLag = lo;
+    let prev = differenceAt(buffer, integration, lo - 1);
+    let cur = differenceAt(buffer, integration, lo);
+    let bestPrev = prev;
+    let bestVal = cur;
+    let bestNext = 0;
+    let next = 0;
+    for (let tau = lo; tau <= hi; tau++) {
+      next = differenceAt(buffer, integration, tau + 1);
+      if (cur < bestVal || tau === lo) {
+        bestLag = tau;
+        bestPrev = prev;
+        bestVal = cur;
+        bestNext = next;
+      }
+      prev = cur;
+      cur = next;
+    }
+    return bestLag + parabolicMinOffset(bestPrev, bestVal, bestNext);
+  }
+}
+
+// Difference function d(tau) = sum over j < integration of (x[j] - x[j + tau])^2
+function differenceAt(buffer: Float32Array, integration: number, tau: number): number {
+  let sum = 0;
+  for (let j = 0; j < integration; j++) {
+    const delta = buffer[j] - buffer[j + tau];
+    sum += delta * delta;
+  }
+  return sum;
 }
 
-export function detectPitch(
-  buffer: Float32Array,
-  sampleRate: number,
-  targetHint?: TargetHint
-): PitchResult {
-
-  //const kind = getDetectorKind();
-  //return kind === 'pitchy'
-  //  ? detectPitchPitchy(buffer, sampleRate, targetHint)
-  //  : detectPitchNacf(buffer, sampleRate, targetHint);
-  return detectPitchPitchy(buffer, sampleRate, targetHint);
+// Offset (-1..1) of the minimum of a parabola through three equally spaced points
+function parabolicMinOffset(c0: number, c1: number, c2: number): number {
+  const denom = c0 - 2 * c1 + c2;
+  if (Math.abs(denom) <= 1e-12) return 0;
+  const delta = (0.5 * (c0 - c2)) / denom;
+  return Math.abs(delta) <= 1 ? delta : 0;
 }
 
 /**
- * Convert frequency to note information (name, MIDI, cents offset)
+ * Convert frequency to note information (name, MIDI, cents offset), with
+ * A4 at `referenceHz`.
  */
-export function frequencyToNoteInfo(freq: number): NoteInfo | null {
+export function frequencyToNoteInfo(freq: number, referenceHz = 440): NoteInfo | null {
   if (freq <= 0) return null;
 
-  const exactMidi = 69 + 12 * Math.log2(freq / 440);
+  const exactMidi = 69 + 12 * Math.log2(freq / referenceHz);
   const nearestMidi = Math.round(exactMidi);
   const centsOff = Math.round((exactMidi - nearestMidi) * 100);
 
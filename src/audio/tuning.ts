@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { NoteEvent, ScoreTimeline } from '../types/ScoreTimeline';
+
+// Reference pitch and temperament shared by playback, the tuner and the trail.
+// Pitches elsewhere stay in equal-tempered MIDI numbers; a note's tuning is its
+// offset in cents from that (reference pitch + just intonation adjustment).
+
+export type Temperament = 'equal' | 'just';
+
+export interface TuningSettings {
+  referenceHz: number;        // frequency of A4
+  temperament: Temperament;
+}
+
+export const DEFAULT_TUNING: TuningSettings = { referenceHz: 440, temperament: 'equal' };
+
+export const REFERENCE_PITCH_PRESETS: Array<{ hz: number; label: string }> = [
+  { hz: 440, label: '440 Hz (modern)' },
+  { hz: 442, label: '442 Hz' },
+  { hz: 443, label: '443 Hz' },
+  { hz: 432, label: '432 Hz' },
+  { hz: 430, label: '430 Hz (classical)' },
+  { hz: 415, label: '415 Hz (baroque)' },
+  { hz: 466, label: '466 Hz (chorton)' },
+];
+
+const MIN_REFERENCE_HZ = 380;
+const MAX_REFERENCE_HZ = 480;
+
+// Cents from equal temperament for each interval above the chord root
+// (5-limit just intonation: 1, 16/15, 9/8, 6/5, 5/4, 4/3, 45/32, 3/2, 8/5, 5/3, 16/9, 15/8)
+const JUST_CENTS_BY_INTERVAL = [0, 11.73, 3.91, 15.64, -13.69, -1.96, -9.78, 1.96, 13.69, -15.64, -3.91, -11.73];
+
+// Notes closer together than this count as sounding at the same time
+const ONSET_EPSILON_SEC = 0.005;
+
+export function clampReferenceHz(hz: number): number {
+  if (!Number.isFinite(hz)) return DEFAULT_TUNING.referenceHz;
+  return Math.max(MIN_REFERENCE_HZ, Math.min(MAX_REFERENCE_HZ, hz));
+}
+
+/** Shift of the reference pitch from A4 = 440 Hz, in semitones. */
+export function referenceOffsetSemitones(referenceHz: number): number {
+  return 12 * Math.log2(referenceHz / 440);
+}
+
+export function midiToHz(midi: number, referenceHz = DEFAULT_TUNING.referenceHz): number {
+  return referenceHz * Math.pow(2, (midi - 69) / 12);
+}
+
+export function hzToExactMidi(hz: number, referenceHz = DEFAULT_TUNING.referenceHz): number {
+  return 69 + 12 * Math.log2(hz / referenceHz);
+}
+
+/**
+ * Root pitch class of the sounding notes: the note with a fifth and a third
+ * above it scores highest (a seventh counts a little); ties go to the lowest
+ * sounding note. A single pitch class is its own root.
+ */
+export function chordRootPitchClass(midis: number[]): number | null {
+  if (midis.length === 0) return null;
+  const classes = new Set(midis.map(m => ((m % 12) + 12) % 12));
+  const bass = Math.min(...midis);
+  let best = ((bass % 12) + 12) % 12;
+  let bestScore = -1;
+  for (const m of midis.slice().sort((a, b) => a - b)) {
+    const root = ((m % 12) + 12) % 12;
+    const has = (interval: number) => classes.has((root + interval) % 12);
+    const score = (has(7) ? 2 : 0) + (has(4) || has(3) ? 2 : 0) + (has(10) || has(11) ? 1 : 0);
+    if (score > bestScore) {
+      best = root;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Just intonation offset (cents from equal temperament) of `midi` over a root pitch class. */
+export function justCents(midi: number, rootPitchClass: number): number {
+  return JUST_CENTS_BY_INTERVAL[(((midi - rootPitchClass) % 12) + 12) % 12];
+}
+
+// Calls fn for every note with the pitches sounding in all voices when it starts.
+function forEachOnsetChord(timeline: ScoreTimeline, fn: (note: NoteEvent, soundingMidis: number[]) => void) {
+  const notes = timeline.notes.slice().sort((a, b) => a.startTimeSeconds - b.startTimeSeconds);
+  // Notes sounding at the current onset (sweep over sorted starts)
+  let sounding: NoteEvent[] = [];
+  let next = 0;
+  for (const note of notes) {
+    const t = note.startTimeSeconds;
+    while (next < notes.length && notes[next].startTimeSeconds <= t + ONSET_EPSILON_SEC) sounding.push(notes[next++]);
+    sounding = sounding.filter(n => n.startTimeSeconds + n.durationSeconds > t + ONSET_EPSILON_SEC);
+    fn(note, sounding.map(n => n.midiPitch));
+  }
+}
+
+/**
+ * Tuning offset in cents for every note (by NoteEvent.id). In just intonation
+ * each note is tuned to the root of the chord sounding when it starts, taken
+ * from all voices of the timeline; in equal temperament every offset is 0.
+ */
+export function noteTuningCents(timeline: ScoreTimeline, temperament: Temperament): Map<string, number> {
+  const cents = new Map<string, number>();
+  if (temperament === 'equal') return cents;
+  forEachOnsetChord(timeline, (note, sounding) => {
+    const root = chordRootPitchClass(sounding);
+    cents.set(note.id, root == null ? 0 : justCents(note.midiPitch, root));
+  });
+  return cents;
+}
+
+export type ChordTone = 'root' | 'minorThird' | 'majorThird' | 'fifth' | 'minorSeventh' | 'majorSeventh';
+
+export interface ChordToneInfo {
+  tone: ChordTone;
+  label: string;
+  justCents: number;          // where the tone sits in pure tuning, from equal temperament
+}
+
+const CHORD_TONES_BY_INTERVAL: Partial<Record<number, { tone: ChordTone; label: string }>> = {
+  0: { tone: 'root', label: 'Root' },
+  3: { tone: 'minorThird', label: 'Minor third' },
+  4: { tone: 'majorThird', label: 'Major third' },
+  7: { tone: 'fifth', label: 'Fifth' },
+  10: { tone: 'minorSeventh', label: 'Minor seventh' },
+  11: { tone: 'majorSeventh', label: 'Major seventh' },
+};
+
+/**
+ * Which chord tone `midi` is in the harmony of the sounding notes (all voices,
+ * including `midi` itself). Null without harmony (a single pitch class) or when
+ * the note is not a root, third, fifth or seventh of the chord.
+ */
+export function chordToneOf(midi: number, soundingMidis: number[]): ChordToneInfo | null {
+  if (new Set(soundingMidis.map(m => ((m % 12) + 12) % 12)).size < 2) return null;
+  const root = chordRootPitchClass(soundingMidis);
+  if (root == null) return null;
+  const entry = CHORD_TONES_BY_INTERVAL[(((midi - root) % 12) + 12) % 12];
+  return entry ? { ...entry, justCents: justCents(midi, root) } : null;
+}
+
+/**
+ * Chord tone of every note (by NoteEvent.id) in the chord sounding when it
+ * starts: the same chord noteTuningCents tunes it to. Notes without one are left out.
+ */
+export function noteChordTones(timeline: ScoreTimeline): Map<string, ChordToneInfo> {
+  const tones = new Map<string, ChordToneInfo>();
+  forEachOnsetChord(timeline, (note, sounding) => {
+    const info = chordToneOf(note.midiPitch, sounding);
+    if (info) tones.set(note.id, info);
+  });
+  return tones;
+}
+
+/**
+ * Intonation advice for thirds and sevenths, whose pure tuning differs
+ * audibly from the piano (roots and fifths get none).
+ */
+export function chordToneGuidance(info: ChordToneInfo, temperament: Temperament): string | null {
+  if (info.tone === 'root' || info.tone === 'fifth') return null;
+  const amount = Math.round(Math.abs(info.justCents));
+  const name = info.label.toLowerCase() + 's';
+  const advice = `${name.charAt(0).toUpperCase()}${name.slice(1)} sit ~${amount} cents ${info.justCents < 0 ? 'low' : 'high'} in pure tuning`;
+  return temperament === 'just' ? `${advice} (included in the target)` : advice;
+}
@@ -1,19 +1,47 @@
 /// <reference path="./audioworklet-globals.d.ts" />
-import { detectPitch } from '../pitchDetection'
+import { DEFAULT_DETECTOR_KIND, DetectorKind, isDetectorKind, PitchDetectorInstance, TargetHint } from '../pitchDetection'
 
 type PitchMessage =
-  | { type: 'pitch'; frequency: number | null; clarity: number; audioTimeSec: number; halfWindowSec: number; detectMs?: number }
+  | { type: 'pitch'; channel: number; frequency: number | null; clarity: number; audioTimeSec: number; halfWindowSec: number; detectMs?: number }
   | { type: 'ready' }
 
+// Every config field is optional: the page sends only what changed (the target
+// note is forwarded on every note change for target-aware detectors).
+// `channels` lists the input channels to analyse (one detector each, default
+// [0]); `channel` says which of them `targetMidi` is for (default 0).
 type ControlMessage =
-  | { type: 'config'; windowSize: number; analysisIntervalMs: number }
+  | {
+      type: 'config'
+      windowSize?: number
+      analysisIntervalMs?: number
+      detector?: DetectorKind
+      channels?: number[]
+      channel?: number
+      targetMidi?: number | null
+    }
+  | { type: 'reset'; seedMidi?: number; channel?: number }
+
+// Ring buffer, detector and target of one analysed input channel
+type ChannelAnalyser = {
+  channel: number
+  detector: PitchDetectorInstance
+  ring: Float32Array
+  window: Float32Array
+  targetMidi: number | null
+  targetHint: TargetHint
+}
 
 class PitchDetectorProcessor extends AudioWorkletProcessor {
   private windowSize = 4096
   private analysisIntervalMs = 50
-
-  private ring = new Float32Array(this.windowSize)
-  private window = new Float32Array(this.windowSize)
+  private detectorKind: DetectorKind = DEFAULT_DETECTOR_KIND
+
+  // All channels receive the same number of samples, so they share the write
+  // position and hop counter. Each hop queues every channel; one queued
+  // channel is analysed per render quantum so several singers never stack
+  // their detectors into a single process() call.
+  private analysers: ChannelAnalyser[] = []
+  private due: ChannelAnalyser[] = []
   private writeIdx = 0
   private filled = false
 
@@ -26,17 +54,39 @@ class PitchDetectorProcessor extends AudioWorkletProcessor {
     const po = options?.processorOptions as any
     if (po && typeof po.windowSize === 'number') this.windowSize = po.windowSize
     if (po && typeof po.analysisIntervalMs === 'number') this.analysisIntervalMs = po.analysisIntervalMs
+    if (po && isDetectorKind(po.detector)) this.detectorKind = po.detector
 
-    this.rebuildBuffers()
+    this.setChannels(po && Array.isArray(po.channels) ? po.channels : [0])
 
     this.port.onmessage = (ev: MessageEvent<ControlMessage>) => {
       const msg = ev.data
       if (!msg || typeof msg !== 'object') return
 
       if (msg.type === 'config') {
-        if (typeof msg.windowSize === 'number' && msg.windowSize > 0) this.windowSize = msg.windowSize
-        if (typeof msg.analysisIntervalMs === 'number' && msg.analysisIntervalMs > 0) this.analysisIntervalMs = msg.analysisIntervalMs
-        this.rebuildBuffers()
+        let rebuild = false
+        if (typeof msg.windowSize === 'number' && msg.windowSize > 0 && msg.windowSize !== this.windowSize) {
+          this.windowSize = msg.windowSize
+          rebuild = true
+        }
+        if (typeof msg.analysisIntervalMs === 'number' && msg.analysisIntervalMs > 0 && msg.analysisIntervalMs !== this.analysisIntervalMs) {
+          this.analysisIntervalMs = msg.analysisIntervalMs
+          rebuild = true
+        }
+        if (Array.isArray(msg.channels)) this.setChannels(msg.channels)
+        else if (rebuild) this.rebuildBuffers()
+        if (isDetectorKind(msg.detector)) {
+          this.detectorKind = msg.detector
+          for (const a of this.analysers) a.detector.setKind(msg.detector)
+        }
+        if (msg.targetMidi !== undefined) {
+          const a = this.analyserFor(typeof msg.channel === 'number' ? msg.channel : 0)
+          if (a) a.targetMidi = typeof msg.targetMidi === 'number' ? msg.targetMidi : null
+        }
+      } else if (msg.type === 'reset') {
+        for (const a of this.analysers) {
+          if (typeof msg.channel === 'number' && a.channel !== msg.channel) continue
+          a.detector.reset({ seedMidi: msg.seedMidi })
+        }
       }
     }
 
@@ -44,62 +94,103 @@ class PitchDetectorProcessor extends AudioWorkletProcessor {
     this.port.postMessage(ready)
   }
 
+  private analyserFor(channel: number): ChannelAnalyser | undefined {
+    return this.analysers.find(a => a.channel === channel)
+  }
+
+  // Keep the detectors of channels that stay (their gate state is still valid).
+  private setChannels(channels: number[]) {
+    const wanted = channels.filter((c, i) => Number.isInteger(c) && c >= 0 && channels.indexOf(c) === i)
+    this.analysers = wanted.map(channel => this.analyserFor(channel) ?? {
+      channel,
+      detector: new PitchDetectorInstance({ kind: this.detectorKind }),
+      ring: new Float32Array(0),
+      window: new Float32Array(0),
+      targetMidi: null,
+      targetHint: { targetMidi: 0 }
+    })
+    this.rebuildBuffers()
+  }
+
   private rebuildBuffers() {
-    this.ring = new Float32Array(this.windowSize)
-    this.window = new Float32Array(this.windowSize)
+    for (const a of this.analysers) {
+      a.ring = new Float32Array(this.windowSize)
+      a.window = new Float32Array(this.windowSize)
+    }
     this.writeIdx = 0
     this.filled = false
     this.samplesSinceLast = 0
+    this.due = []
     this.hopSamples = Math.max(1, Math.round(sampleRate * (this.analysisIntervalMs / 1000)))
   }
 
-  private pushSamples(input: Float32Array) {
-    // Fill ring buffer with incoming samples
-    for (let i = 0; i < input.length; i++) {
-      this.ring[this.writeIdx] = input[i]
-      this.writeIdx++
-      if (this.writeIdx >= this.windowSize) {
-        this.writeIdx = 0
-        this.filled = true
+  private pushSamples(inputs: Float32Array[], length: number) {
+    // Fill ring buffers with incoming samples (a missing channel reads as silence)
+    const n = this.windowSize
+    for (const a of this.analysers) {
+      const input = inputs[a.channel]
+      let w = this.writeIdx
+      for (let i = 0; i < length; i++) {
+        a.ring[w] = input ? input[i] : 0
+        if (++w >= n) w = 0
       }
     }
+    this.writeIdx += length
+    while (this.writeIdx >= n) {
+      this.writeIdx -= n
+      this.filled = true
+    }
   }
 
-  private snapshotWindow() {
+  private snapshotWindow(a: ChannelAnalyser) {
     // Oldest sample is at writeIdx (next write position)
     const n = this.windowSize
     const w = this.writeIdx
     const firstLen = n - w
-    this.window.set(this.ring.subarray(w, n), 0)
-    this.window.set(this.ring.subarray(0, w), firstLen)
+    a.window.set(a.ring.subarray(w, n), 0)
+    a.window.set(a.ring.subarray(0, w), firstLen)
   }
 
   process(inputs: Float32Array[][], outputs: Float32Array[][]) {
-    const input = inputs[0]?.[0]
+    const channels = inputs[0]
+    const first = channels?.[0]
     const output = outputs[0]?.[0]
-    if (!input) return true
+    if (!first) return true
 
     // Keep graph alive by passing input through if an output exists.
-    if (output) output.set(input)
+    if (output) output.set(first)
 
-    this.pushSamples(input)
-    this.samplesSinceLast += input.length
+    this.pushSamples(channels, first.length)
+    this.samplesSinceLast += first.length
 
     if (this.filled && this.samplesSinceLast >= this.hopSamples) {
       this.samplesSinceLast = 0
+      // A channel still waiting from the previous hop keeps its place in the queue
+      for (const a of this.analysers) {
+        if (!this.due.includes(a)) this.due.push(a)
+      }
+    }
+
+    const a = this.due.shift()
+    if (a) {
+      // currentTime is block start; include block duration to approximate end time.
+      const blockEndTime = currentTime + first.length / sampleRate
+      const halfWindowSec = (this.windowSize / sampleRate) / 2
+      this.snapshotWindow(a)
 
-      this.snapshotWindow()
+      let hint: TargetHint | undefined
+      if (a.targetMidi != null) {
+        a.targetHint.targetMidi = a.targetMidi
+        hint = a.targetHint
+      }
 
       const t0 = (globalThis as any).performance?.now?.()
-      const r = detectPitch(this.window, sampleRate)
+      const r = a.detector.detect(a.window, sampleRate, hint)
       const t1 = (globalThis as any).performance?.now?.()
 
-      // currentTime is block start; include block duration to approximate end time.
-      const blockEndTime = currentTime + input.length / sampleRate
-      const halfWindowSec = (this.windowSize / sampleRate) / 2
-
       const msg: PitchMessage = {
         type: 'pitch',
+        channel: a.channel,
         frequency: r.frequency,
         clarity: r.clarity,
         audioTimeSec: blockEndTime,
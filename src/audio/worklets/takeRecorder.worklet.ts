@@ -0,0 +1,52 @@
+/// <reference path="./audioworklet-globals.d.ts" />
+
+// Captures raw mic samples for take playback. Samples are posted in fixed-size
+// chunks stamped with the AudioContext time of their first sample, so the main
+// thread can place them on the score timeline with the same clock as playback.
+
+type ChunkMessage = {
+  type: 'chunk'
+  audioTimeSec: number
+  samples: Float32Array
+}
+
+const DEFAULT_CHUNK_SIZE = 1024
+
+class TakeRecorderProcessor extends AudioWorkletProcessor {
+  private chunkSize: number
+  private chunk: Float32Array
+  private fill = 0
+  private chunkStartTime = 0
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options)
+    const opts = (options?.processorOptions ?? {}) as { chunkSize?: number }
+    this.chunkSize = Math.max(128, Math.floor(opts.chunkSize ?? DEFAULT_CHUNK_SIZE))
+    this.chunk = new Float32Array(this.chunkSize)
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0]?.[0]
+    const output = outputs[0]?.[0]
+    if (!input) return true
+
+    // Keep graph alive by passing input through if an output exists.
+    if (output) output.set(input)
+
+    for (let i = 0; i < input.length; i++) {
+      if (this.fill === 0) this.chunkStartTime = currentTime + i / sampleRate
+      this.chunk[this.fill++] = input[i]
+      if (this.fill >= this.chunkSize) {
+        const msg: ChunkMessage = { type: 'chunk', audioTimeSec: this.chunkStartTime, samples: this.chunk }
+        // Hand the buffer over instead of copying it.
+        this.port.postMessage(msg, [this.chunk.buffer])
+        this.chunk = new Float32Array(this.chunkSize)
+        this.fill = 0
+      }
+    }
+
+    return true
+  }
+}
+
+registerProcessor('take-recorder', TakeRecorderProcessor)
@@ -6,7 +6,7 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { OpenSheetMusicDisplay } from 'opensheetmusicdisplay'
+import { OpenSheetMusicDisplay, TransposeCalculator } from 'opensheetmusicdisplay'
 import JSZip from 'jszip'
 
 import { ScoreTimeline, VoiceId } from '../types/ScoreTimeline'
@@ -16,28 +16,102 @@ import {
   buildVoiceDisplayLabel,
   PartMetadata
 } from '../utils/musicXmlParser'
-
-import { ScorePlayer, SynthTimbre, VoiceMixerSettings } from '../audio/ScorePlayer'
-import { frequencyToNoteInfo, PitchResult, resetPitchDetectorState } from '../audio/pitchDetection'
+import { buildScoreTimelineFromMidi, isMidiFileName } from '../utils/midiParser'
+import { buildWarmupTimeline, parseWarmupRoutine, WarmupRoutine } from '../utils/warmupGenerator'
+import { tempoAtSeconds } from '../utils/tempoMap'
+import { clampTranspose, formatTranspose, MAX_TRANSPOSE_SEMITONES, transposeTimeline } from '../utils/transpose'
+import {
+  ChordToneInfo,
+  clampReferenceHz,
+  DEFAULT_TUNING,
+  noteChordTones,
+  noteTuningCents,
+  REFERENCE_PITCH_PRESETS,
+  referenceOffsetSemitones,
+  Temperament,
+  TuningSettings
+} from '../audio/tuning'
+import { measureIndexAtSourceWhole, timelineTimeToSourceWhole } from '../utils/performanceOrder'
+
+import { InstrumentId, LoopRange, METRONOME_VOICE_ID, ScorePlayer, VoiceMixerSettings } from '../audio/ScorePlayer'
+import { isSampledInstrument, isSampledInstrumentAvailable, SAMPLED_INSTRUMENTS, SampledInstrumentId } from '../audio/SampledInstrument'
+import { encodeWav, RehearsalExportPreset, renderRehearsalTracks } from '../audio/offlineRender'
+import { exportTimelineToMidi } from '../utils/midiExport'
+import { hashScoreContent, PracticeScoreRef, recordPracticeSession } from '../lib/practiceSessions'
+import { getSupabaseBrowser } from '../lib/supabaseBrowser'
+import {
+  loadScorePreferences,
+  saveScorePreferences,
+  scoreKeyForFile,
+  scoreKeyForUrl,
+  scoreKeyForWarmup
+} from '../utils/scorePreferences'
+import {
+  DEFAULT_DETECTOR_KIND,
+  DetectorKind,
+  frequencyToNoteInfo,
+  listPitchDetectors,
+  PitchResult
+} from '../audio/pitchDetection'
+import { MeasureScore, TakeReport, TakeScorer } from '../audio/TakeScorer'
+import { TakeRecorder, TakeRecorderPosition, TakeRecording } from '../audio/TakeRecorder'
 import { calibrateLatency, calibrateLatencyHeadphones } from '../audio/latencyCalibration'
 import { PerfOverlay, PerfSnapshot } from './scorePlayerPage/PerfOverlay'
 import { PitchDetectorOverlay } from './scorePlayerPage/PitchDetectorOverlay'
 import { LatencyControl } from './scorePlayerPage/LatencyControl'
 import { BottomIconBar } from './scorePlayerPage/BottomIconBar'
 import { AboutModal } from './scorePlayerPage/AboutModal'
+import { TimelineView } from './scorePlayerPage/TimelineView'
+import { TakeReportPanel } from './scorePlayerPage/TakeReportPanel'
+import { PitchContourLanes } from './scorePlayerPage/pitchContour'
+import { NoteHighlighter, buildNoteheadIndex } from './scorePlayerPage/noteHighlight'
+import {
+  activeSingerChannels,
+  emptySingerAssignments,
+  judgeSungPitch,
+  leadSingerChannel,
+  MAX_SINGER_CHANNELS,
+  SingerAssignments,
+  singerColor,
+  SingerJudgement,
+  SingerTrail
+} from './scorePlayerPage/singers'
 
 const PITCH_WORKLET_URL = '/worklets/pitchDetector.worklet.js'
+const TAKE_RECORDER_WORKLET_URL = '/worklets/takeRecorder.worklet.js'
+
+// Pitch contour lanes: extra space between systems in OSMD units (10 px at 100% zoom)
+const CONTOUR_LANE_UNITS = 8
+const CONTOUR_LANE_FILL = 0.7 // share of the extra space used by the lane itself
 
 /* =========================
   CONSTANTS
 ========================= */
 const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']
 
+// Sound choices offered in Settings and per voice in the mixer; sampled
+// instruments are added once their samples are known to be served.
+const SYNTH_INSTRUMENT_OPTIONS: Array<{ id: InstrumentId; label: string }> = [
+  { id: 'vocal', label: 'Vocal / Choir' },
+  { id: 'sine', label: 'Pure tone' }
+]
+
+// Remembered instruments may name one that is no longer bundled
+function isKnownInstrument(id: string): id is InstrumentId {
+  return isSampledInstrument(id) || SYNTH_INSTRUMENT_OPTIONS.some(o => o.id === id)
+}
+
 const FFT_SIZE              = 4096 // 4096 bytes => 93 ms
 const ANALYSIS_INTERVAL_MS  = 50   // Periodic analysis
 //const MIN_CLARITY           = 0.7  // Pitch gating
 //const ORANGE_THRESHOLD_CENTS   = 45;  // When to paint orange (off-pitch)
 
+// A loaded score file: MusicXML text, or a Standard MIDI File (no notation).
+type ScoreSource =
+  | { kind: 'musicxml'; xml: string }
+  | { kind: 'midi'; bytes: ArrayBuffer }
+  | { kind: 'warmup'; routine: WarmupRoutine }
+
 function midiToNoteName(midi: number): string {
   const noteIndex = ((midi % 12) + 12) % 12
   const octave = Math.floor(midi / 12) - 1
@@ -98,6 +172,11 @@ export default function ScorePlayerPage() {
 
   const trailCanvasRef = useRef<HTMLCanvasElement>(null)
   const trailCtxRef = useRef<CanvasRenderingContext2D | null>(null)
+  const contourCanvasRef = useRef<HTMLCanvasElement>(null)
+  const contourRef = useRef<PitchContourLanes | null>(null)
+  const noteHighlighterRef = useRef(new NoteHighlighter())
+  // OSMD system spacing before the contour lanes were added
+  const contourBaseSpacingRef = useRef<{ systems: number; pageBottom: number } | null>(null)
 
   /* =========================
      REFS: OSMD cursor mapping + position cache
@@ -113,6 +192,8 @@ export default function ScorePlayerPage() {
   ========================= */
   const playerRef = useRef<ScorePlayer | null>(null)
   const timelineRef = useRef<ScoreTimeline | null>(null)
+  // The timeline as parsed; timelineRef / scoreTimeline hold it transposed
+  const sourceTimelineRef = useRef<ScoreTimeline | null>(null)
 
   /* =========================
      REFS: AUDIO / MIC
@@ -122,8 +203,12 @@ export default function ScorePlayerPage() {
   const micSourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null)
   const pitchWorkletNodeRef = useRef<AudioWorkletNode | null>(null)
   const pitchWorkletTapGainRef = useRef<GainNode | null>(null)
+  const takeRecorderRef = useRef<TakeRecorder | null>(null)
+  // Last target note sent to the worklet per input channel (missing = nothing sent yet)
+  const forwardedTargetMidiRef = useRef<Record<number, number | null>>({})
   const useWorkletRef = useRef(false)
-  const notesByVoiceRef = useRef<Record<string, Array<{ midi: number; start: number; end: number; duration: number }>> | null>(null)
+  // cents: tuning offset of the note from equal temperament (just intonation), 0 otherwise
+  const notesByVoiceRef = useRef<Record<string, Array<{ midi: number; start: number; end: number; duration: number; cents: number; chordTone: ChordToneInfo | null; noteIds: string[] }>> | null>(null)
   const notesIndexByVoiceRef = useRef<Record<string, number>>({})
   // Performance counters
   const perfIterationsRef = useRef(0)
@@ -174,6 +259,9 @@ export default function ScorePlayerPage() {
     lastKind: null
   })
 
+  // Multi-singer mode: trail state per input channel
+  const singerTrailsRef = useRef<Map<number, SingerTrail>>(new Map())
+
   // Console debug throttling (so VITE_PITCH_DEBUG doesn't spam too hard).
   const lastPitchDebugLogRef = useRef<{ lastMs: number; lastMsg: string }>({ lastMs: 0, lastMsg: '' })
 
@@ -184,13 +272,17 @@ export default function ScorePlayerPage() {
   const [isLoading, setIsLoading] = useState(false)
 
   const [scoreTimeline, setScoreTimeline] = useState<ScoreTimeline | null>(null)
+  // 'timeline' when the score has no notation to render (MIDI files)
+  const [viewMode, setViewMode] = useState<'notation' | 'timeline'>('notation')
   const [partMetadata, setPartMetadata] = useState<PartMetadata[]>([])
+  const partMetadataRef = useRef<PartMetadata[]>([])
 
   const [isPlaying, setIsPlaying] = useState(false)
   const [currentTime, setCurrentTime] = useState(0)
 
   const [tempoMultiplier, setTempoMultiplier] = useState(1.0)
   const [voiceSettings, setVoiceSettings] = useState<Record<VoiceId, VoiceMixerSettings>>({})
+  const [voiceInstruments, setVoiceInstruments] = useState<Record<VoiceId, InstrumentId>>({})
 
   const [selectedVoice, setSelectedVoice] = useState<VoiceId | null>(null)
   const selectedVoiceRef = useRef<VoiceId | null>(null)
@@ -214,18 +306,59 @@ export default function ScorePlayerPage() {
   const currentTargetNoteRef = useRef<typeof currentTargetNote>(null)
 
   const [distanceCents, setDistanceCents] = useState<number | null>(null)
+  // Chord tone the selected voice holds in the harmony of all voices
+  const [chordTone, setChordTone] = useState<ChordToneInfo | null>(null)
+  const chordToneRef = useRef<ChordToneInfo | null>(null)
+
+  // Per-note scoring of the current take (one loop pass of the selected voice)
+  const takeRef = useRef<{ scorer: TakeScorer; iteration: number; difficulty: Difficulty; startedAtMs: number } | null>(null)
+  const [takeReport, setTakeReport] = useState<TakeReport | null>(null)
+
+  // Last recorded take (mic audio on the score timeline) and its playback
+  const [takeRecording, setTakeRecording] = useState<TakeRecording | null>(null)
+  const takePlaybackRef = useRef<AudioBufferSourceNode | null>(null)
+  const [takePlaybackActive, setTakePlaybackActive] = useState(false)
 
   const [difficulty, setDifficulty] = useState<Difficulty>('normal');
+  const [detectorKind, setDetectorKind] = useState<DetectorKind>(DEFAULT_DETECTOR_KIND)
+  // Multi-singer mode: one input channel per singer, each assigned a voice
+  const [multiSinger, setMultiSinger] = useState(false)
+  const multiSingerRef = useRef(multiSinger)
+  const [singerVoices, setSingerVoices] = useState<SingerAssignments>(emptySingerAssignments)
+  const singerVoicesRef = useRef(singerVoices)
+  const [inputChannelCount, setInputChannelCount] = useState(1)
   const [aboutOpen, setAboutOpen] = useState(false)
   type ActivePanel = 'none' | 'voice' | 'mixer' | 'settings'
   const [activePanel, setActivePanel] = useState<ActivePanel>('none')
   const [osmdZoom, setOsmdZoom] = useState(1)
   const lastAppliedZoomRef = useRef<number>(1)
-  const [timbre, setTimbre] = useState<SynthTimbre>('vocal')
+  const [showPitchContour, setShowPitchContour] = useState(false)
+  const showPitchContourRef = useRef(showPitchContour)
+  const [timbre, setTimbre] = useState<InstrumentId>('vocal')
+  const [availableSampled, setAvailableSampled] = useState<SampledInstrumentId[]>([])
+  const [countInBars, setCountInBars] = useState(0)
+  const [transpose, setTranspose] = useState(0)
+  const [tuning, setTuning] = useState<TuningSettings>(DEFAULT_TUNING)
+  const tuningRef = useRef<TuningSettings>(DEFAULT_TUNING)
+  const transposeRef = useRef(0)
+  // Set while transposing so the recreated player keeps its place, loop and tempo
+  const transposeCarryRef = useRef<{ time: number; loopRange: LoopRange | null; tempoMultiplier: number } | null>(null)
+  const [exportPreset, setExportPreset] = useState<RehearsalExportPreset>('mix')
+  const [exportLoopOnly, setExportLoopOnly] = useState(false)
+  const [exportStatus, setExportStatus] = useState<string | null>(null)
+  const [midiExportMixer, setMidiExportMixer] = useState(true)
   const lastLayoutWidthRef = useRef<number>(0)
   const [userZoom, setUserZoom] = useState(1)
   const userZoomRef = useRef(1)
 
+  // A–B loop region in notated measures (inclusive). Selected by dragging on the score.
+  const [loopMeasures, setLoopMeasures] = useState<{ from: number; to: number } | null>(null)
+  const loopMeasuresRef = useRef<typeof loopMeasures>(null)
+  const [loopSelecting, setLoopSelecting] = useState(false)
+  const loopDragRef = useRef<{ from: number; to: number } | null>(null)
+  const [loopRects, setLoopRects] = useState<Array<{ left: number; top: number; width: number; height: number }>>([])
+  const lastLoopIterationRef = useRef(0)
+
   // Avoid unnecessary rerenders from the detect loop by only committing
   // user-visible changes (rounded values) to React state.
   const lastEmittedPitchRef = useRef<PitchResult | null>(null)
@@ -234,14 +367,27 @@ export default function ScorePlayerPage() {
   /* =========================
      Pitch User Levels
   ========================= */
+  const difficultyRef = useRef<Difficulty>(difficulty)
   useEffect(() => {
     pitchSettingsRef.current = DIFFICULTY_PRESETS[difficulty];
+    difficultyRef.current = difficulty;
   }, [difficulty]);
 
   useEffect(() => {
     if (!scoreTimeline) setActivePanel('none')
   }, [scoreTimeline])
 
+  useEffect(() => {
+    let cancelled = false
+    const ids = Object.keys(SAMPLED_INSTRUMENTS) as SampledInstrumentId[]
+    Promise.all(ids.map(isSampledInstrumentAvailable)).then((found) => {
+      if (!cancelled) setAvailableSampled(ids.filter((_, i) => found[i]))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
   useEffect(() => {
     userZoomRef.current = userZoom
     // Avoid heavy work if score isn't loaded yet.
@@ -293,8 +439,7 @@ export default function ScorePlayerPage() {
     if (!positionsReadyRef.current || cursorStepsRef.current.length === 0 || cursorPositionsRef.current.length === 0) return
 
     const t = player.getCurrentTime()
-    const tempoBpm = timeline.tempoBpm
-    let musicalTime = (t * tempoBpm) / 240
+    let musicalTime = timelineTimeToSourceWhole(timeline, t)
     const steps = cursorStepsRef.current
     const lastIdx = steps.length - 1
     const maxMusicalTime = steps[lastIdx]?.musicalTime ?? 0
@@ -349,7 +494,7 @@ export default function ScorePlayerPage() {
     } catch {}
   }
 
-  async function syncOsmdLayout(reason: 'load' | 'resize' | 'manual' = 'manual') {
+  async function syncOsmdLayout(reason: 'load' | 'resize' | 'manual' | 'rules' = 'manual') {
     const osmd = osmdRef.current
     const wrapper = osmdWrapperRef.current
     const container = scoreContainerRef.current
@@ -382,7 +527,7 @@ export default function ScorePlayerPage() {
     lastLayoutWidthRef.current = w
 
     // If nothing meaningful changed, bail early.
-    if (!zoomChanged && !widthChanged && reason !== 'load') return
+    if (!zoomChanged && !widthChanged && reason !== 'load' && reason !== 'rules') return
 
     try {
       if (zoomChanged) {
@@ -411,6 +556,24 @@ export default function ScorePlayerPage() {
     selectedVoiceRef.current = selectedVoice
   }, [selectedVoice])
 
+  useEffect(() => {
+    partMetadataRef.current = partMetadata
+  }, [partMetadata])
+
+  useEffect(() => {
+    showPitchContourRef.current = showPitchContour
+    applyContourSpacing(showPitchContour)
+    // Re-render with the new spacing; the lanes are rebuilt from the new positions.
+    if (scoreTimeline) syncOsmdLayout('rules')
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showPitchContour])
+
+  useEffect(() => {
+    contourRef.current = null // a different voice starts a fresh curve
+    rebuildPitchContour()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedVoice])
+
   useEffect(() => {
     currentTargetNoteRef.current = currentTargetNote
   }, [currentTargetNote])
@@ -419,6 +582,12 @@ export default function ScorePlayerPage() {
     latencyMsRef.current = latencyMs
   }, [latencyMs])
 
+  useEffect(() => {
+    loopMeasuresRef.current = loopMeasures
+    updateLoopRects()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loopMeasures])
+
   /* =========================
      OSMD INIT
   ========================= */
@@ -435,6 +604,7 @@ export default function ScorePlayerPage() {
         followCursor: false,
         drawingParameters: 'compact'
       })
+      osmdRef.current.TransposeCalculator = new TransposeCalculator()
     } catch (e) {
       console.error(e)
       setError('Kunde inte initiera notvisaren (OSMD).')
@@ -453,13 +623,20 @@ export default function ScorePlayerPage() {
     canvas.height = Math.max(1, container.scrollHeight || container.clientHeight || 1)
 
     trailCtxRef.current = canvas.getContext('2d')
-  }, [scoreTimeline, osmdZoom])
+    rebuildPitchContour()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scoreTimeline, osmdZoom, viewMode])
 
   function clearTrail() {
     const ctx = trailCtxRef.current
     const canvas = trailCanvasRef.current
     lastTrailDrawMsRef.current = 0
     lastTrailXRef.current = null
+    for (const trail of singerTrailsRef.current.values()) {
+      trail.lastDrawMs = 0
+      trail.lastX = null
+    }
+    contourRef.current?.clear()
     if (!ctx || !canvas) return
     ctx.clearRect(0, 0, canvas.width, canvas.height)
   }
@@ -475,6 +652,7 @@ export default function ScorePlayerPage() {
 
     const x = Math.max(0, Math.min(canvas.width, left + 1))
     ctx.clearRect(x, 0, canvas.width - x, canvas.height)
+    if (playerRef.current) contourRef.current?.clearAfter(playerRef.current.getCurrentTime())
   }
 
   const drawTrailAtPlayhead = (absCents: number, kind: 'offPitch' | 'wrongNote' = 'offPitch') => {
@@ -513,14 +691,57 @@ export default function ScorePlayerPage() {
     ctx.fillRect(left, top, 6, height)
   }
 
+  // Multi-singer trail: each singer gets their own colour and a band of the
+  // system height (in channel order), so simultaneous marks don't cover each other.
+  const drawSingerTrailAtPlayhead = (channel: number, trail: SingerTrail, judgement: SingerJudgement) => {
+    if (!positionsReadyRef.current) return
+    if (judgement.kind !== 'offPitch' && judgement.kind !== 'wrongNote') return
+    const S = pitchSettingsRef.current
+    const ctx = trailCtxRef.current
+    const playhead = playheadRef.current
+    if (!ctx || !playhead) return
+
+    const nowMs = performance.now()
+    if (nowMs - trail.lastDrawMs < 1000 / TRAIL_MAX_HZ) return
+
+    const left = parseFloat(playhead.style.left || '0')
+    const top = parseFloat(playhead.style.top || '0')
+    const height = parseFloat(playhead.style.height || '0')
+    if (!Number.isFinite(left) || !Number.isFinite(top) || !Number.isFinite(height) || height <= 0) return
+    if (trail.lastX != null && Math.abs(left - trail.lastX) < TRAIL_MIN_DX_PX) return
+
+    trail.lastDrawMs = nowMs
+    trail.lastX = left
+
+    const channels = activeSingerChannels(singerVoicesRef.current)
+    const slot = Math.max(0, channels.indexOf(channel))
+    const band = height / Math.max(1, channels.length)
+    // Wrong notes solid, off pitch fading in with the distance (as in single-singer mode)
+    const alpha = judgement.kind === 'wrongNote'
+      ? 0.45
+      : clamp(Math.max(0, judgement.absCents - S.ORANGE_THRESHOLD_CENTS) / 100, 0.1, 0.3)
+    ctx.fillStyle = singerColor(channel, alpha)
+    ctx.fillRect(left, top + slot * band, 6, band)
+  }
+
   /* =========================
      FILE LOAD
   ========================= */
   const lastLoadedUrlRef = useRef<string | null>(null)
+  // Identifies the loaded score for remembered per-score settings (see scorePreferences).
+  const scoreKeyRef = useRef<string | null>(null)
+  // Key whose preferences the current player was set up with (saves go there).
+  const prefsKeyRef = useRef<string | null>(null)
+  // Base file name for exports
+  const scoreNameRef = useRef('score')
+  // Which piece practice sessions are recorded against (group score or file hash)
+  const practiceScoreRef = useRef<PracticeScoreRef | null>(null)
+  const supabaseRef = useRef<ReturnType<typeof getSupabaseBrowser> | null>(null)
 
   async function loadXmlContent(xmlContent: string) {
     if (!osmdRef.current) throw new Error('OSMD saknas')
     await osmdRef.current.load(xmlContent)
+    applyOsmdTranspose(transposeRef.current)
     await syncOsmdLayout('load')
 
     osmdRef.current.cursor.show()
@@ -543,31 +764,69 @@ export default function ScorePlayerPage() {
     setPartMetadata(metadata)
 
     const timeline = await buildScoreTimelineFromMusicXml(xmlContent)
+    setViewMode('notation')
+    await applyLoadedTimeline(timeline)
+  }
+
+  async function loadMidiContent(bytes: ArrayBuffer) {
+    const { timeline, partMetadata: metadata } = buildScoreTimelineFromMidi(bytes)
+    if (timeline.notes.length === 0) throw new Error('MIDI-filen innehåller inga noter')
+    await loadTimelineWithoutNotation(timeline, metadata)
+  }
+
+  async function loadWarmupContent(routine: WarmupRoutine) {
+    const { timeline, partMetadata: metadata } = buildWarmupTimeline(routine)
+    await loadTimelineWithoutNotation(timeline, metadata)
+  }
+
+  async function loadTimelineWithoutNotation(timeline: ScoreTimeline, metadata: PartMetadata[]) {
+    // No notation: clear any previous score so the timeline view takes its place.
+    if (osmdRef.current) {
+      try {
+        osmdRef.current.cursor.hide()
+        osmdRef.current.clear()
+      } catch {}
+    }
+    cursorStepsRef.current = []
+    cursorPositionsRef.current = []
+
+    setPartMetadata(metadata)
+    setViewMode('timeline')
+    await applyLoadedTimeline(timeline)
+  }
+
+  async function loadScoreSource(source: ScoreSource) {
+    const prefs = scoreKeyRef.current ? loadScorePreferences(scoreKeyRef.current) : {}
+    transposeRef.current = clampTranspose(prefs.transpose ?? 0)
+    setTranspose(transposeRef.current)
+    tuningRef.current = prefs.tuning
+      ? { referenceHz: clampReferenceHz(prefs.tuning.referenceHz), temperament: prefs.tuning.temperament === 'just' ? 'just' : 'equal' }
+      : DEFAULT_TUNING
+    setTuning(tuningRef.current)
+    if (source.kind === 'midi') await loadMidiContent(source.bytes)
+    else if (source.kind === 'warmup') await loadWarmupContent(source.routine)
+    else await loadXmlContent(source.xml)
+  }
+
+  // Shared by all formats once the timeline exists
+  async function applyLoadedTimeline(source: ScoreTimeline) {
+    sourceTimelineRef.current = source
+    const timeline = transposeTimeline(source, transposeRef.current)
     timelineRef.current = timeline
     setScoreTimeline(timeline)
     setCurrentTime(0)
-
-    // Precompute notes grouped by voice to avoid rebuilding per-detection tick
-    const map: Record<string, Array<{ midi: number; start: number; end: number; duration: number }>> = {}
-    for (const n of timeline.notes) {
-      if (!map[n.voice]) map[n.voice] = []
-      map[n.voice].push({ midi: n.midiPitch, start: n.startTimeSeconds, end: n.startTimeSeconds + n.durationSeconds, duration: n.durationSeconds })
-    }
-    for (const k of Object.keys(map)) {
-      map[k].sort((a, b) => a.start - b.start)
-    }
-    notesByVoiceRef.current = map
-    // initialize per-voice indices
-    const idxMap: Record<string, number> = {}
-    for (const k of Object.keys(map)) idxMap[k] = 0
-    notesIndexByVoiceRef.current = idxMap
+    indexNotesByVoice(timeline)
 
     clearTrail()
+    takeRef.current = null
+    setTakeReport(null)
+    stopTakePlayback()
+    setTakeRecording(null)
 
     // Reset pitch-detector internals and page-level pitch evaluation state so
     // that loading a new file doesn't leave remnants from the previous song
     // (spike gate, pending jumps, stable midi, transition grace, etc.).
-    resetPitchDetectorState()
+    resetDetector()
     resetPitchEvaluationState()
 
     // Build the position cache and wait for it to become ready before
@@ -590,11 +849,119 @@ export default function ScorePlayerPage() {
     // and indices. Give a short delay to allow player and caches to initialize.
     if (micActive) {
       // restart detection only after positions are ready
-      resetPitchDetectorState()
+      resetDetector()
       resetPitchEvaluationState()
     }
   }
 
+  // Precompute notes grouped by voice to avoid rebuilding per-detection tick
+  function indexNotesByVoice(timeline: ScoreTimeline) {
+    const tuningCents = noteTuningCents(timeline, tuningRef.current.temperament)
+    const chordTones = noteChordTones(timeline)
+    const map: Record<string, Array<{ midi: number; start: number; end: number; duration: number; cents: number; chordTone: ChordToneInfo | null; noteIds: string[] }>> = {}
+    for (const n of timeline.notes) {
+      if (!map[n.voice]) map[n.voice] = []
+      map[n.voice].push({
+        midi: n.midiPitch,
+        start: n.startTimeSeconds,
+        end: n.startTimeSeconds + n.durationSeconds,
+        duration: n.durationSeconds,
+        cents: tuningCents.get(n.id) ?? 0,
+        chordTone: chordTones.get(n.id) ?? null,
+        noteIds: n.tiedNoteIds ?? [n.noteId]
+      })
+    }
+    for (const k of Object.keys(map)) {
+      map[k].sort((a, b) => a.start - b.start)
+    }
+    notesByVoiceRef.current = map
+    // initialize per-voice indices
+    const idxMap: Record<string, number> = {}
+    for (const k of Object.keys(map)) idxMap[k] = 0
+    notesIndexByVoiceRef.current = idxMap
+  }
+
+  // OSMD transposes key signatures and notes; takes effect on the next render.
+  function applyOsmdTranspose(semitones: number) {
+    const osmd = osmdRef.current
+    if (!osmd?.Sheet || osmd.Sheet.Transpose === semitones) return
+    osmd.Sheet.Transpose = semitones
+    osmd.updateGraphic()
+  }
+
+  // Move playback, notation and the pitch targets by `semitones` from the
+  // written key. The setting is remembered per score.
+  async function handleTransposeChange(semitones: number) {
+    const source = sourceTimelineRef.current
+    if (!source) return
+    const next = clampTranspose(semitones)
+    if (next === transposeRef.current) return
+    transposeRef.current = next
+    setTranspose(next)
+    if (scoreKeyRef.current) saveScorePreferences(scoreKeyRef.current, { transpose: next })
+
+    const p = playerRef.current
+    if (p) {
+      transposeCarryRef.current = { time: p.getCurrentTime(), loopRange: p.getLoopRange(), tempoMultiplier: p.getTempoMultiplier() }
+      p.pause()
+    }
+
+    if (viewMode === 'notation' && osmdRef.current?.Sheet) {
+      applyOsmdTranspose(next)
+      await syncOsmdLayout('rules')
+    }
+
+    const timeline = transposeTimeline(source, next)
+    timelineRef.current = timeline
+    setScoreTimeline(timeline)
+    indexNotesByVoice(timeline)
+
+    // Marks and takes against the old key no longer apply.
+    clearTrail()
+    takeRef.current = null
+    setTakeReport(null)
+    resetDetector()
+    resetPitchEvaluationState()
+  }
+
+  // Reference pitch / temperament for playback, the tuner and the trail; remembered per score.
+  function handleTuningChange(patch: Partial<TuningSettings>) {
+    const next = { ...tuningRef.current, ...patch }
+    tuningRef.current = next
+    setTuning(next)
+    if (scoreKeyRef.current) saveScorePreferences(scoreKeyRef.current, { tuning: next })
+    playerRef.current?.setTuning(next)
+    if (timelineRef.current) indexNotesByVoice(timelineRef.current)
+    forwardedTargetMidiRef.current = {}
+    resetDetector()
+    resetPitchEvaluationState()
+  }
+
+  /**
+   * Sung pitch as equal-tempered MIDI relative to the voice's note at `time`:
+   * measured against the reference pitch, with the note's just intonation
+   * offset taken out, so comparisons with integer target notes stay valid.
+   */
+  function sungExactMidi(frequency: number, voice: VoiceId | null, time: number): number | null {
+    const info = frequencyToNoteInfo(frequency, tuningRef.current.referenceHz)
+    if (!info) return null
+    const note = voice ? notesByVoiceRef.current?.[voice]?.find(n => time >= n.start && time < n.end) : undefined
+    return info.exactMidi - (note?.cents ?? 0) / 100
+  }
+
+  // Chord tone of the voice's note at `time` (from the chord at the note's onset, like its tuning)
+  function chordToneAt(voice: VoiceId | null, time: number): ChordToneInfo | null {
+    const note = voice ? notesByVoiceRef.current?.[voice]?.find(n => time >= n.start && time < n.end) : undefined
+    return note?.chordTone ?? null
+  }
+
+  function showChordTone(info: ChordToneInfo | null) {
+    const prev = chordToneRef.current
+    if (prev?.tone === info?.tone && prev?.justCents === info?.justCents) return
+    chordToneRef.current = info
+    setChordTone(info)
+  }
+
   async function handleFileSelect(event: React.ChangeEvent<HTMLInputElement>) {
     const file = event.target.files?.[0]
     if (!file) return
@@ -603,8 +970,11 @@ export default function ScorePlayerPage() {
     setIsLoading(true)
 
     try {
-      const xmlContent = await readFile(file)
-      await loadXmlContent(xmlContent)
+      const source = await readFile(file)
+      scoreKeyRef.current = scoreKeyForFile(file)
+      scoreNameRef.current = file.name.replace(/\.[^.]+$/, '')
+      identifyPracticeScore(source, null)
+      await loadScoreSource(source)
     } catch (err: any) {
       console.error(err)
       setError(`Kunde inte ladda filen: ${err?.message ?? 'Okänt fel'}`)
@@ -613,7 +983,19 @@ export default function ScorePlayerPage() {
     }
   }
 
-  async function readUrlAsXml(url: string): Promise<string> {
+  // Group scores are recorded by id; anything else by a hash of its content.
+  // Warm-ups aren't repertoire and are not recorded.
+  function identifyPracticeScore(source: ScoreSource, groupScoreId: string | null) {
+    practiceScoreRef.current = groupScoreId ? { groupScoreId } : null
+    if (groupScoreId || source.kind === 'warmup') return
+    hashScoreContent(source.kind === 'midi' ? source.bytes : source.xml)
+      .then((fileHash) => {
+        practiceScoreRef.current = { fileHash }
+      })
+      .catch(() => {}) // no WebCrypto (insecure context): history is simply not recorded
+  }
+
+  async function readUrlAsScore(url: string): Promise<ScoreSource> {
     const r = await fetch(url)
     if (!r.ok) throw new Error(`Failed to fetch score (HTTP ${r.status})`)
     const blob = await r.blob()
@@ -623,8 +1005,11 @@ export default function ScorePlayerPage() {
     const last = u.pathname.split('/').pop() || 'score'
     const name = decodeURIComponent(last.split('?')[0])
 
+    if (isMidiFileName(name)) {
+      return { kind: 'midi', bytes: await blob.arrayBuffer() }
+    }
     if (!name.toLowerCase().endsWith('.mxl')) {
-      return await blob.text()
+      return { kind: 'musicxml', xml: await blob.text() }
     }
 
     const zip = await JSZip.loadAsync(await blob.arrayBuffer())
@@ -636,7 +1021,7 @@ export default function ScorePlayerPage() {
       const fullPath = rootfile?.getAttribute('full-path')
       if (fullPath) {
         const main = zip.file(fullPath)
-        if (main) return main.async('text')
+        if (main) return { kind: 'musicxml', xml: await main.async('text') }
       }
     }
     const xmlFile =
@@ -645,7 +1030,7 @@ export default function ScorePlayerPage() {
         f => !f.dir && (f.name.endsWith('.xml') || f.name.endsWith('.musicxml')) && !f.name.includes('META-INF')
       )
     if (!xmlFile) throw new Error('Ingen XML-fil hittades i MXL-arkivet')
-    return xmlFile.async('text')
+    return { kind: 'musicxml', xml: await xmlFile.async('text') }
   }
 
   useEffect(() => {
@@ -656,8 +1041,14 @@ export default function ScorePlayerPage() {
     lastLoadedUrlRef.current = scoreUrl
     setError('')
     setIsLoading(true)
-    readUrlAsXml(scoreUrl)
-      .then((xml) => loadXmlContent(xml))
+    readUrlAsScore(scoreUrl)
+      .then((source) => {
+        scoreKeyRef.current = scoreKeyForUrl(scoreUrl)
+        const last = decodeURIComponent(new URL(scoreUrl).pathname.split('/').pop() || 'score')
+        scoreNameRef.current = search?.get('title') || last.replace(/\.[^.]+$/, '')
+        identifyPracticeScore(source, search?.get('scoreId') ?? null)
+        return loadScoreSource(source)
+      })
       .catch((err: any) => {
         console.error(err)
         setError(`Kunde inte ladda scoreUrl: ${err?.message ?? 'Okänt fel'}`)
@@ -666,9 +1057,43 @@ export default function ScorePlayerPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [search])
 
-  async function readFile(file: File): Promise<string> {
+  // Warm-up routines come in the URL (from the warm-up editor or a group's list)
+  useEffect(() => {
+    const warmupParam = search?.get('warmup')
+    if (!warmupParam) return
+    if (lastLoadedUrlRef.current === warmupParam) return
+
+    lastLoadedUrlRef.current = warmupParam
+    let routine: WarmupRoutine | null = null
+    try {
+      routine = parseWarmupRoutine(JSON.parse(warmupParam))
+    } catch {}
+    if (!routine) {
+      setError('Kunde inte läsa uppvärmningen')
+      return
+    }
+
+    const source: ScoreSource = { kind: 'warmup', routine }
+    setError('')
+    setIsLoading(true)
+    scoreKeyRef.current = scoreKeyForWarmup(routine.name)
+    scoreNameRef.current = search?.get('title') || routine.name
+    identifyPracticeScore(source, null)
+    loadScoreSource(source)
+      .catch((err: any) => {
+        console.error(err)
+        setError(`Kunde inte ladda uppvärmningen: ${err?.message ?? 'Okänt fel'}`)
+      })
+      .finally(() => setIsLoading(false))
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [search])
+
+  async function readFile(file: File): Promise<ScoreSource> {
+    if (isMidiFileName(file.name)) {
+      return { kind: 'midi', bytes: await file.arrayBuffer() }
+    }
     if (!file.name.toLowerCase().endsWith('.mxl')) {
-      return file.text()
+      return { kind: 'musicxml', xml: await file.text() }
     }
 
     const zip = await JSZip.loadAsync(await file.arrayBuffer())
@@ -681,7 +1106,7 @@ export default function ScorePlayerPage() {
       const fullPath = rootfile?.getAttribute('full-path')
       if (fullPath) {
         const main = zip.file(fullPath)
-        if (main) return main.async('text')
+        if (main) return { kind: 'musicxml', xml: await main.async('text') }
       }
     }
 
@@ -691,7 +1116,7 @@ export default function ScorePlayerPage() {
         f => !f.dir && (f.name.endsWith('.xml') || f.name.endsWith('.musicxml')) && !f.name.includes('META-INF')
       )
     if (!xmlFile) throw new Error('Ingen XML-fil hittades i MXL-arkivet')
-    return xmlFile.async('text')
+    return { kind: 'musicxml', xml: await xmlFile.async('text') }
   }
 
   /* =========================
@@ -709,15 +1134,41 @@ export default function ScorePlayerPage() {
       // Pass existing audio context when available so the player shares the
       // same context as the mic (avoids multiple contexts and timing mismatch).
       // @ts-ignore
-      playerRef.current = new ScorePlayer(scoreTimeline, { partMetadata, audioContext: audioContextRef.current, timbre })
+      playerRef.current = new ScorePlayer(scoreTimeline, { partMetadata, audioContext: audioContextRef.current, timbre, tuning: tuningRef.current })
+      playerRef.current.setCountInBars(countInBars)
       timelineRef.current = scoreTimeline
 
+      // Restore the mixer (levels, pan, instruments) remembered for this score.
+      const prefs = scoreKeyRef.current ? loadScorePreferences(scoreKeyRef.current) : {}
+      prefsKeyRef.current = scoreKeyRef.current
+
       const initialSettings: Record<VoiceId, VoiceMixerSettings> = {}
-      const voices = Array.from(new Set(scoreTimeline.notes.map(n => n.voice)))
+      const initialInstruments: Record<VoiceId, InstrumentId> = {}
+      const voices = [...Array.from(new Set(scoreTimeline.notes.map(n => n.voice))), METRONOME_VOICE_ID]
       for (const v of voices) {
+        const storedSettings = prefs.mixer?.[v]
+        if (storedSettings) playerRef.current.setVoiceSettings(v, storedSettings)
         initialSettings[v] = playerRef.current.getVoiceSettings(v)
+        if (v === METRONOME_VOICE_ID) continue
+        const storedInstrument = prefs.instruments?.[v]
+        if (storedInstrument && isKnownInstrument(storedInstrument)) playerRef.current.setVoiceInstrument(v, storedInstrument)
+        initialInstruments[v] = playerRef.current.getVoiceInstrument(v)
       }
       setVoiceSettings(initialSettings)
+      setVoiceInstruments(initialInstruments)
+
+      // A new score starts without a loop region; a transposed one keeps its place.
+      lastLoopIterationRef.current = 0
+      const carry = transposeCarryRef.current
+      transposeCarryRef.current = null
+      if (carry) {
+        playerRef.current.setTempoMultiplier(carry.tempoMultiplier)
+        playerRef.current.setLoopRange(carry.loopRange)
+        playerRef.current.seekTo(carry.time)
+      } else {
+        setLoopMeasures(null)
+        setLoopSelecting(false)
+      }
     } catch (err) {
       console.error(err)
       setError('Could not initialize audio player.')
@@ -731,6 +1182,12 @@ export default function ScorePlayerPage() {
     }
   }, [scoreTimeline, partMetadata])
 
+  useEffect(() => {
+    const key = prefsKeyRef.current
+    if (!key || Object.keys(voiceSettings).length === 0) return
+    saveScorePreferences(key, { mixer: voiceSettings, instruments: voiceInstruments })
+  }, [voiceSettings, voiceInstruments])
+
   /* =========================
      PLAYER TIME TICK + LOOP END SAFE
   ========================= */
@@ -744,21 +1201,19 @@ export default function ScorePlayerPage() {
       setCurrentTime(t)
       setIsPlaying(p.isPlaying())
 
-      if (p.isPlaying() && t >= scoreTimeline.totalDurationSeconds - 0.02) {
-        // Auto-loop: restart immediately from the beginning.
-        // Trail is cleared on auto-loop so each loop is a fresh "take".
+      // The player loops the piece (or the A–B region) by itself, sample-accurately.
+      // Trail is cleared on each wrap-around so every pass is a fresh "take".
+      const iteration = p.getLoopIteration()
+      if (iteration !== lastLoopIterationRef.current) {
+        lastLoopIterationRef.current = iteration
         clearTrail()
         resetPitchEvaluationState()
-        resetPitchDetectorState()
+        resetDetector()
         setCurrentTargetNote(null)
         currentTargetNoteRef.current = null
         setDistanceCents(null)
         lastEmittedDistanceRoundedRef.current = null
         lastEmittedPitchRef.current = null
-
-        p.seekTo(0)
-        setCurrentTime(0)
-        setIsPlaying(true)
       }
     }, 100)
 
@@ -771,8 +1226,10 @@ export default function ScorePlayerPage() {
   function handlePlayPause() {
     const p = playerRef.current
     if (!p) return
-    if (p.isPlaying()) p.pause()
-    else {
+    if (p.isPlaying()) {
+      stopTakePlayback()
+      p.pause()
+    } else {
       const dur = scoreTimeline?.totalDurationSeconds ?? p.getDuration()
       const t = p.getCurrentTime()
       const atEnd = dur > 0 && t >= dur - 0.02
@@ -783,8 +1240,9 @@ export default function ScorePlayerPage() {
         // so the user can review the colored notes after finishing.
         clearTrail()
         resetPitchEvaluationState()
-        p.seekTo(0)
-        setCurrentTime(0)
+        const loopStart = p.getLoopRange()?.startSeconds ?? 0
+        p.seekTo(loopStart)
+        setCurrentTime(loopStart)
       } else {
         // Clear everything ahead of the playhead so only the already-sung section
         // remains visible. (Keeps the trail for review after playback ends.)
@@ -797,13 +1255,16 @@ export default function ScorePlayerPage() {
   function handleStop() {
     const p = playerRef.current
     if (!p) return
+    finishTake()
+    stopTakePlayback()
     p.stop()
-    setCurrentTime(0)
+    setCurrentTime(p.getCurrentTime())
     setIsPlaying(false)
 
     setCurrentTargetNote(null)
     currentTargetNoteRef.current = null
     setDistanceCents(null)
+    showChordTone(null)
     lastEmittedDistanceRoundedRef.current = null
     lastEmittedPitchRef.current = null
 
@@ -825,33 +1286,25 @@ export default function ScorePlayerPage() {
     p.setTempoMultiplier(mult)
   }
 
-  function recreatePlayerWithTimbre(next: SynthTimbre) {
-    const existing = playerRef.current
-    if (!existing || !scoreTimeline) return
-    const ctx = audioContextRef.current ?? existing.getAudioContext()
-    const wasPlaying = existing.isPlaying()
-    const t = existing.getCurrentTime()
-    const tempo = existing.getTempoMultiplier()
-    try {
-      // Critical: don't close the AudioContext when we are recreating the player
-      // on the same context (otherwise playback stops working after switching timbre).
-      existing.dispose({ closeAudioContext: false })
-    } catch {}
-
-    // Recreate on the same AudioContext so mic/worklet stays time-aligned.
-    // @ts-ignore
-    playerRef.current = new ScorePlayer(scoreTimeline, { partMetadata, audioContext: ctx, timbre: next })
-    timelineRef.current = scoreTimeline
-    playerRef.current.setTempoMultiplier(tempo)
-
-    // Re-apply mixer settings from UI state
+  // Settings → Sound: one instrument for every voice (the mixer can still override per voice).
+  function handleTimbreChange(next: InstrumentId) {
+    setTimbre(next)
+    const p = playerRef.current
+    if (!p) return
+    const instruments: Record<VoiceId, InstrumentId> = {}
     for (const v of getVoices()) {
-      const s = getVoiceSettings(v)
-      playerRef.current.setVoiceSettings(v, s)
+      p.setVoiceInstrument(v, next)
+      instruments[v] = next
     }
+    setVoiceInstruments(instruments)
+  }
 
-    playerRef.current.seekTo(t)
-    if (wasPlaying) playerRef.current.play()
+  function applyMixerState(p: ScorePlayer) {
+    for (const v of getMixerVoices()) {
+      p.setVoiceSettings(v, getVoiceSettings(v))
+      const instrument = voiceInstruments[v]
+      if (instrument && v !== METRONOME_VOICE_ID) p.setVoiceInstrument(v, instrument)
+    }
   }
 
   function getVoices(): VoiceId[] {
@@ -859,12 +1312,18 @@ export default function ScorePlayerPage() {
     return Array.from(new Set(scoreTimeline.notes.map(n => n.voice)))
   }
 
+  // Score voices plus the metronome channel
+  function getMixerVoices(): VoiceId[] {
+    return [...getVoices(), METRONOME_VOICE_ID]
+  }
+
   function getVoiceSettings(voice: VoiceId): VoiceMixerSettings {
     return (
       voiceSettings[voice] || {
         volume: 1.0,
         muted: false,
-        solo: false
+        solo: false,
+        pan: 0
       }
     )
   }
@@ -877,6 +1336,231 @@ export default function ScorePlayerPage() {
     playerRef.current?.setVoiceSettings(voice, settings)
   }
 
+  const instrumentOptions = [
+    ...SYNTH_INSTRUMENT_OPTIONS,
+    ...availableSampled.map(id => ({ id, label: SAMPLED_INSTRUMENTS[id].label }))
+  ]
+
+  // A remembered sampled instrument whose samples are missing plays (and shows as) its fallback
+  function shownInstrument(id: InstrumentId): InstrumentId {
+    return isSampledInstrument(id) && !availableSampled.includes(id) ? SAMPLED_INSTRUMENTS[id].fallback : id
+  }
+
+  function handleVoiceInstrumentChange(voice: VoiceId, instrument: InstrumentId) {
+    setVoiceInstruments(prev => ({ ...prev, [voice]: instrument }))
+    playerRef.current?.setVoiceInstrument(voice, instrument)
+  }
+
+  /* =========================
+     EXPORT REHEARSAL TRACK
+  ========================= */
+  async function handleExportRehearsalTrack() {
+    const p = playerRef.current
+    if (!p || !scoreTimeline || exportStatus) return
+    const range = exportLoopOnly ? p.getLoopRange() : null
+
+    setExportStatus('Rendering…')
+    try {
+      const mixer: Record<VoiceId, VoiceMixerSettings> = {}
+      for (const v of getMixerVoices()) mixer[v] = getVoiceSettings(v)
+      const tracks = await renderRehearsalTracks(scoreTimeline, exportPreset, {
+        range,
+        tempoMultiplier: p.getTempoMultiplier(),
+        mixer,
+        instruments: voiceInstruments,
+        defaultInstrument: timbre,
+        countInBars,
+        tuning: tuningRef.current
+      })
+
+      for (const track of tracks) {
+        const voiceLabel = track.voice ? buildVoiceDisplayLabel(track.voice, getVoices(), partMetadata) : 'mix'
+        downloadBlob(encodeWav(track.buffer), `${scoreNameRef.current} - ${voiceLabel}.wav`)
+      }
+      setExportStatus(null)
+    } catch (err: any) {
+      console.error(err)
+      setExportStatus(null)
+      setError(`Export failed: ${err?.message ?? 'Unknown error'}`)
+    }
+  }
+
+  function handleExportMidi() {
+    if (!scoreTimeline) return
+    let mixer: Record<VoiceId, VoiceMixerSettings> | undefined
+    if (midiExportMixer) {
+      mixer = {}
+      for (const v of getVoices()) mixer[v] = getVoiceSettings(v)
+    }
+    const bytes = exportTimelineToMidi(scoreTimeline, {
+      voiceLabel: (v) => buildVoiceDisplayLabel(v, getVoices(), partMetadata),
+      mixer
+    })
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `${scoreNameRef.current}.mid`)
+  }
+
+  function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = fileName.replace(/[\\/:*?"<>|]+/g, '_')
+    document.body.appendChild(a)
+    a.click()
+    a.remove()
+    setTimeout(() => URL.revokeObjectURL(url), 10_000)
+  }
+
+  // Rehearsal balance: the selected voice loud on the left, the rest soft on the right.
+  // reset=true puts every score voice back to full volume, centred.
+  function handlePartBalance(reset = false) {
+    const p = playerRef.current
+    if (!p) return
+    if (reset) {
+      for (const v of getVoices()) p.setVoiceSettings(v, { volume: 1.0, pan: 0, muted: false, solo: false })
+    } else {
+      if (!selectedVoice) return
+      p.applyPartBalance(selectedVoice)
+    }
+    const next: Record<VoiceId, VoiceMixerSettings> = {}
+    for (const v of getMixerVoices()) next[v] = p.getVoiceSettings(v)
+    setVoiceSettings(next)
+  }
+
+  /* =========================
+     A–B LOOP
+  ========================= */
+  // Notated measure under a point in score-container content coordinates, using the
+  // cached cursor positions (same coordinate system as the playhead).
+  function measureAtScorePoint(x: number, y: number): number {
+    const timeline = timelineRef.current
+    const steps = cursorStepsRef.current
+    const positions = cursorPositionsRef.current
+    if (!timeline || !positionsReadyRef.current || positions.length === 0) return -1
+
+    // Closest system row (by vertical distance)...
+    let rowTop: number | null = null
+    let bestRowDist = Infinity
+    for (const pos of positions) {
+      const rowDist = y < pos.top ? pos.top - y : Math.max(0, y - (pos.top + pos.height))
+      if (rowDist < bestRowDist) {
+        bestRowDist = rowDist
+        rowTop = pos.top
+      }
+    }
+
+    // ...then the last step in that row starting at or before x (or the row's first step).
+    let best = -1
+    for (let i = 0; i < positions.length && i < steps.length; i++) {
+      const pos = positions[i]
+      if (pos.top !== rowTop) continue
+      if (best < 0 || pos.left <= x) best = i
+    }
+    if (best < 0) return -1
+    return measureIndexAtSourceWhole(timeline, steps[best].musicalTime)
+  }
+
+  function updateLoopRects() {
+    const timeline = timelineRef.current
+    const loop = loopMeasuresRef.current ?? loopDragRef.current
+    const steps = cursorStepsRef.current
+    const positions = cursorPositionsRef.current
+    if (!timeline || !loop || positions.length === 0) {
+      setLoopRects([])
+      return
+    }
+
+    const lo = Math.min(loop.from, loop.to)
+    const hi = Math.max(loop.from, loop.to)
+    // One rectangle per system row covering the looped steps.
+    const rows = new Map<number, { left: number; right: number; top: number; height: number }>()
+    for (let i = 0; i < positions.length && i < steps.length; i++) {
+      const m = measureIndexAtSourceWhole(timeline, steps[i].musicalTime)
+      if (m < lo || m > hi) continue
+      const pos = positions[i]
+      const next = positions[i + 1]
+      const right = next && next.top === pos.top && next.left > pos.left ? next.left : pos.left + 24
+      const row = rows.get(pos.top)
+      if (row) {
+        row.left = Math.min(row.left, pos.left)
+        row.right = Math.max(row.right, right)
+      } else {
+        rows.set(pos.top, { left: pos.left, right, top: pos.top, height: pos.height })
+      }
+    }
+    setLoopRects(
+      Array.from(rows.values()).map(r => ({ left: r.left - 6, top: r.top, width: r.right - r.left + 6, height: r.height }))
+    )
+  }
+
+  function applyLoopMeasures(next: { from: number; to: number } | null) {
+    const p = playerRef.current
+    const normalized = next ? { from: Math.min(next.from, next.to), to: Math.max(next.from, next.to) } : null
+    setLoopMeasures(normalized)
+    if (!p) return
+    if (normalized) {
+      p.setLoopMeasures(normalized.from, normalized.to)
+      // Jump into the region so practice starts at A.
+      const range = p.getLoopRange()
+      const t = p.getCurrentTime()
+      if (range && (t < range.startSeconds || t >= range.endSeconds)) {
+        p.seekTo(range.startSeconds)
+        setCurrentTime(range.startSeconds)
+        clearTrail()
+      }
+    } else {
+      p.setLoopRange(null)
+    }
+  }
+
+  function handleLoopClick() {
+    if (loopSelecting) {
+      setLoopSelecting(false)
+      loopDragRef.current = null
+      updateLoopRects()
+    } else if (loopMeasures) {
+      applyLoopMeasures(null)
+    } else {
+      setActivePanel('none')
+      setLoopSelecting(true)
+    }
+  }
+
+  function scorePointFromEvent(e: React.PointerEvent<HTMLDivElement>): { x: number; y: number } | null {
+    const container = scoreContainerRef.current
+    if (!container) return null
+    const rect = container.getBoundingClientRect()
+    return { x: e.clientX - rect.left + container.scrollLeft, y: e.clientY - rect.top + container.scrollTop }
+  }
+
+  function handleScorePointerDown(e: React.PointerEvent<HTMLDivElement>) {
+    if (!loopSelecting) return
+    const pt = scorePointFromEvent(e)
+    const m = pt ? measureAtScorePoint(pt.x, pt.y) : -1
+    if (m < 0) return
+    e.preventDefault()
+    try { e.currentTarget.setPointerCapture(e.pointerId) } catch {}
+    loopDragRef.current = { from: m, to: m }
+    updateLoopRects()
+  }
+
+  function handleScorePointerMove(e: React.PointerEvent<HTMLDivElement>) {
+    const drag = loopDragRef.current
+    if (!loopSelecting || !drag) return
+    const pt = scorePointFromEvent(e)
+    const m = pt ? measureAtScorePoint(pt.x, pt.y) : -1
+    if (m < 0 || m === drag.to) return
+    drag.to = m
+    updateLoopRects()
+  }
+
+  function handleScorePointerUp() {
+    const drag = loopDragRef.current
+    if (!loopSelecting || !drag) return
+    loopDragRef.current = null
+    setLoopSelecting(false)
+    applyLoopMeasures(drag)
+  }
+
   async function activateMicForVoice(voice: VoiceId) {
     // Ensure the selected voice is available to the mic/worklet handler immediately.
     selectedVoiceRef.current = voice
@@ -896,12 +1580,26 @@ export default function ScorePlayerPage() {
       stopMic()
       return
     }
+    await startMic()
+  }
+
+  // Multi-singer mode needs every input channel, so the stream is reopened.
+  async function restartMic() {
+    stopMic()
+    await startMic()
+  }
 
+  async function startMic() {
     try {
       let stream: MediaStream
       try {
         stream = await navigator.mediaDevices.getUserMedia({
-          audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+          audio: {
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false,
+            ...(multiSingerRef.current ? { channelCount: { ideal: MAX_SINGER_CHANNELS } } : {})
+          }
         })
       } catch (e: any) {
         // Provide the real browser error (NotAllowedError, NotFoundError, NotReadableError, etc.)
@@ -912,6 +1610,8 @@ export default function ScorePlayerPage() {
         return
       }
       micStreamRef.current = stream
+      const streamChannels = stream.getAudioTracks()[0]?.getSettings().channelCount ?? 1
+      setInputChannelCount(streamChannels)
 
       if (!audioContextRef.current) audioContextRef.current = new AudioContext()
 
@@ -939,21 +1639,19 @@ export default function ScorePlayerPage() {
           if (playerCtx !== ctx) {
             const wasPlaying = existingPlayer.isPlaying()
             const t = existingPlayer.getCurrentTime()
+            const loopRange = existingPlayer.getLoopRange()
             existingPlayer.dispose()
             // Recreate on the shared context
             // @ts-ignore
-            playerRef.current = new ScorePlayer(scoreTimeline, { partMetadata, audioContext: ctx, timbre })
+            playerRef.current = new ScorePlayer(scoreTimeline, { partMetadata, audioContext: ctx, timbre, tuning: tuningRef.current })
             timelineRef.current = scoreTimeline
 
-            // Refresh mixer state from new player instance
-            const initialSettings: Record<VoiceId, VoiceMixerSettings> = {}
-            const voices = Array.from(new Set(scoreTimeline.notes.map(n => n.voice)))
-            for (const v of voices) {
-              initialSettings[v] = playerRef.current.getVoiceSettings(v)
-            }
-            setVoiceSettings(initialSettings)
+            // Carry the mixer over to the new player instance
+            applyMixerState(playerRef.current)
 
             // Restore time/play state (best-effort; avoids user-visible jumps)
+            playerRef.current.setLoopRange(loopRange)
+            playerRef.current.setCountInBars(countInBars)
             playerRef.current.seekTo(t)
             if (wasPlaying) playerRef.current.play()
           }
@@ -975,7 +1673,16 @@ export default function ScorePlayerPage() {
           numberOfInputs: 1,
           numberOfOutputs: 1,
           outputChannelCount: [1],
-          processorOptions: { windowSize: FFT_SIZE, analysisIntervalMs: ANALYSIS_INTERVAL_MS }
+          // Multi-singer: keep the interface channels apart instead of mixing them down
+          ...(multiSingerRef.current
+            ? { channelCount: Math.max(1, streamChannels), channelCountMode: 'explicit' as const, channelInterpretation: 'discrete' as const }
+            : {}),
+          processorOptions: {
+            windowSize: FFT_SIZE,
+            analysisIntervalMs: ANALYSIS_INTERVAL_MS,
+            detector: detectorKind,
+            channels: analysedChannels()
+          }
         })
 
         // Ensure the node is "pulled" by the graph but keep it silent.
@@ -996,6 +1703,21 @@ export default function ScorePlayerPage() {
         throw new Error('Kunde inte starta AudioWorklet (krävs).')
       }
 
+      // Take recording for playback is optional: pitch detection works without it.
+      try {
+        await ctx.audioWorklet.addModule(TAKE_RECORDER_WORKLET_URL)
+        const recNode = new AudioWorkletNode(ctx, 'take-recorder', {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          outputChannelCount: [1]
+        })
+        source.connect(recNode)
+        recNode.connect(pitchWorkletTapGainRef.current!)
+        takeRecorderRef.current = new TakeRecorder(recNode, resolveTakeRecorderPosition, setTakeRecording)
+      } catch (e) {
+        console.warn('[take] recorder worklet init failed', e, 'workletUrl=', TAKE_RECORDER_WORKLET_URL)
+      }
+
       setMicActive(true)
 
       setPitchResult({ frequency: null, clarity: 0 })
@@ -1013,6 +1735,7 @@ export default function ScorePlayerPage() {
       trailConfirmRef.current.lastKind = null
       lastTrailDrawMsRef.current = 0
       lastTrailXRef.current = null
+      singerTrailsRef.current.clear()
 
       // Reset per-voice indices used for allowed-window checks so the very first
       // frames after re-enable don't behave oddly.
@@ -1026,7 +1749,7 @@ export default function ScorePlayerPage() {
       } catch {}
 
       // reset pitch detection internal gate too
-      resetPitchDetectorState()
+      resetDetector()
 
       // Start detection:
       // - worklet mode is event-driven (port messages)
@@ -1041,31 +1764,19 @@ export default function ScorePlayerPage() {
           const timeline = timelineRef.current
           const voice = selectedVoiceRef.current
           const S = pitchSettingsRef.current
-
-          const halfWindowSec =
-            typeof data.halfWindowSec === 'number'
-              ? data.halfWindowSec
-              : ((FFT_SIZE / (audioContextRef.current?.sampleRate ?? 44100)) / 2)
-
-          const audioTimeSec = typeof data.audioTimeSec === 'number' ? data.audioTimeSec : null
-
-          // IMPORTANT: Worklet timestamps are in AudioContext time (real seconds).
-          // We want to align the *center* of the analysis window with playback
-          // timeline time. Convert AudioContext seconds -> timeline seconds,
-          // then apply latency compensation in timeline seconds.
-          //
-          // This avoids mixing time bases (audio seconds vs timeline seconds),
-          // which would otherwise drift and make target selection wrong.
-          const analysisCenterAudioTimeSec =
-            audioTimeSec != null ? Math.max(0, audioTimeSec - halfWindowSec) : null
-
-          const rawNowScoreTime =
-            analysisCenterAudioTimeSec != null && player
-              ? player.getTimeAtAudioContextTime(analysisCenterAudioTimeSec)
-              : (player?.getCurrentTime() ?? 0)
-
-          // Score-time used for any "compare to score" logic (does not affect pitch detection).
-          const pitchTime = rawNowScoreTime - (latencyMsRef.current || 0) / 1000
+          const channel = typeof data.channel === 'number' ? data.channel : 0
+          const pitchTime = pitchMessageScoreTime(data)
+
+          // Multi-singer: every singer gets trail marks; only the singer on the
+          // selected voice (the first one, if several share it) continues to the
+          // tuner, take scoring and contour below.
+          const multi = multiSingerRef.current
+          if (multi) {
+            handleSingerPitch(channel, pitchTime, data)
+            if (channel !== leadSingerChannel(singerVoicesRef.current, voice)) return
+          } else {
+            forwardTargetNote(pitchTime)
+          }
 
           // Optional: target-note selection from the score timeline.
           // (Kept for later re-enable, but disabled by default for "raw pitchy" evaluation.)
@@ -1138,10 +1849,12 @@ export default function ScorePlayerPage() {
           const isStableSignal = result.frequency != null && result.clarity >= S.MIN_CLARITY
 
           const uiTarget = currentTargetNoteRef.current
+          showChordTone(chordToneAt(voice, pitchTime))
           if (isStableSignal && result.frequency != null) {
-            const noteInfo = frequencyToNoteInfo(result.frequency)
-            const exactMidi = noteInfo?.exactMidi ?? null
+            const exactMidi = sungExactMidi(result.frequency, voice, pitchTime)
             const nearestMidi = exactMidi != null ? Math.round(exactMidi) : null
+            pushTakeFrame(pitchTime, exactMidi)
+            pushContourPoint(pitchTime, exactMidi)
 
             // Build allowed target set within a small time window around pitchTime.
             // This is "note correctness" only (no hinting of pitch detection).
@@ -1279,7 +1992,7 @@ export default function ScorePlayerPage() {
               }
             }
 
-            if (player?.isPlaying() && cents != null) {
+            if (player?.isPlaying() && cents != null && !multi) {
               const trailKind: 'offPitch' | 'wrongNote' =
                 (!isAllowedNoteInWindow && !nearMissOfAllowed) ? 'wrongNote' : 'offPitch'
 
@@ -1400,7 +2113,7 @@ export default function ScorePlayerPage() {
                     }
                   } catch {}
                   console.log(
-                    `[pitch-debug] ${result.debugReason}; expected=${expected}; expectedDelta=${expectedDelta}; voice=${String(voice ?? 'null')}; hz=${hz}; cents=${c}; clarity=${Math.round((result.clarity ?? 0) * 100)}%; pitchTime=${pitchTime.toFixed(3)}`
+                    `[pitch-debug] ${result.debugReason}; expected=${expected}; expectedDelta=${expectedDelta}; voice=${String(voice ?? 'null')}; chord=${chordToneRef.current?.label ?? '-'}; hz=${hz}; cents=${c}; clarity=${Math.round((result.clarity ?? 0) * 100)}%; pitchTime=${pitchTime.toFixed(3)}`
                   )
                 }
               }
@@ -1408,6 +2121,9 @@ export default function ScorePlayerPage() {
               result.debugReason = null
             }
           } else {
+            pushTakeFrame(pitchTime, null)
+            pushContourPoint(pitchTime, null)
+
             // No freeze: if signal is unstable or no target, clear distance.
             if (lastEmittedDistanceRoundedRef.current !== null) {
               lastEmittedDistanceRoundedRef.current = null
@@ -1460,6 +2176,9 @@ export default function ScorePlayerPage() {
   }
 
   function stopMic() {
+    finishTake()
+    takeRecorderRef.current?.dispose()
+    takeRecorderRef.current = null
     lastEmittedPitchRef.current = null
     lastEmittedDistanceRoundedRef.current = null
 
@@ -1483,8 +2202,9 @@ export default function ScorePlayerPage() {
     setMicActive(false)
     setPitchResult({ frequency: null, clarity: 0 })
     setDistanceCents(null)
+    showChordTone(null)
     // Reset detector internals so next activation starts fresh
-    resetPitchDetectorState()
+    resetDetector()
   }
 
   /* =========================
@@ -1550,7 +2270,65 @@ export default function ScorePlayerPage() {
     osmd.cursor.reset()
     osmd.cursor.update()
     positionsReadyRef.current = true
+    noteHighlighterRef.current.setIndex(buildNoteheadIndex(osmd))
     updatePlayheadAtCurrentTime()
+    updateLoopRects()
+    rebuildPitchContour()
+  }
+
+  /* =========================
+     PITCH CONTOUR LANES
+  ========================= */
+  // Make room for a lane under every system (OSMD re-renders with wider spacing).
+  function applyContourSpacing(on: boolean) {
+    const osmd = osmdRef.current
+    if (!osmd) return
+    const rules = osmd.EngravingRules
+    contourBaseSpacingRef.current ??= {
+      systems: rules.MinSkyBottomDistBetweenSystems,
+      pageBottom: rules.PageBottomMargin
+    }
+    const base = contourBaseSpacingRef.current
+    rules.MinSkyBottomDistBetweenSystems = base.systems + (on ? CONTOUR_LANE_UNITS : 0)
+    rules.PageBottomMargin = base.pageBottom + (on ? CONTOUR_LANE_UNITS : 0)
+  }
+
+  // (Re)create the lanes for the current layout and voice; the sung curve is
+  // kept so a re-layout doesn't lose it.
+  function rebuildPitchContour() {
+    const canvas = contourCanvasRef.current
+    const container = scoreContainerRef.current
+    const timeline = timelineRef.current
+    const voice = selectedVoiceRef.current
+    const previous = contourRef.current
+    contourRef.current = null
+    if (!canvas || !container) return
+    canvas.width = Math.max(1, container.scrollWidth || container.clientWidth || 1)
+    canvas.height = Math.max(1, container.scrollHeight || container.clientHeight || 1)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    if (!showPitchContourRef.current || !timeline || !voice || !positionsReadyRef.current) return
+
+    const unitPx = 10 * lastAppliedZoomRef.current
+    const lanes = new PitchContourLanes(ctx, {
+      steps: cursorStepsRef.current,
+      positions: cursorPositionsRef.current,
+      toMusicalTime: (t) => timelineTimeToSourceWhole(timeline, t),
+      notes: notesByVoiceRef.current?.[voice] ?? [],
+      laneHeight: CONTOUR_LANE_UNITS * unitPx * CONTOUR_LANE_FILL,
+      clearanceBelow: CONTOUR_LANE_UNITS * unitPx * (1 - CONTOUR_LANE_FILL) / 2
+    })
+    if (previous) lanes.adoptPoints(previous)
+    lanes.redraw()
+    contourRef.current = lanes
+  }
+
+  // Called for every analysis frame next to the take scorer.
+  function pushContourPoint(pitchTime: number, exactMidi: number | null) {
+    const lanes = contourRef.current
+    if (!lanes || !playerRef.current?.isPlaying() || takePlaybackRef.current) return
+    lanes.addPoint(pitchTime, exactMidi, pitchSettingsRef.current.ORANGE_THRESHOLD_CENTS)
   }
 
   /* =========================
@@ -1571,9 +2349,10 @@ export default function ScorePlayerPage() {
       if (!player || !playhead || !container) return
 
       const t = player.getCurrentTime()
-      const tempoBpm = scoreTimeline.tempoBpm
 
-      let musicalTime = (t * tempoBpm) / 240
+      // Follow the tempo map and map the performed (repeat-unrolled) position back
+      // to the notated measure, so the playhead jumps back on repeats.
+      let musicalTime = timelineTimeToSourceWhole(scoreTimeline, t)
       const maxMusicalTime = cursorStepsRef.current[cursorStepsRef.current.length - 1]?.musicalTime || 0
       musicalTime = Math.max(0, Math.min(musicalTime, maxMusicalTime))
 
@@ -1663,14 +2442,31 @@ export default function ScorePlayerPage() {
       }
     }
 
+    // Colour the selected voice's sounding note; a tied note lights up all
+    // of its noteheads.
+    const updateNoteHighlight = (t: number | null) => {
+      const voice = selectedVoiceRef.current
+      const notes = (voice && notesByVoiceRef.current?.[voice]) || []
+      const note = t === null ? undefined : notes.find((n) => n.start <= t && t < n.end)
+      noteHighlighterRef.current.highlight(note ? note.noteIds : null)
+    }
+
     const tick = () => {
       const player = playerRef.current
-      if (player?.isPlaying()) updateCursorPosition()
+      if (player?.isPlaying()) {
+        updateCursorPosition()
+        updateNoteHighlight(player.getCurrentTime())
+      } else {
+        updateNoteHighlight(null)
+      }
       raf = requestAnimationFrame(tick)
     }
 
     raf = requestAnimationFrame(tick)
-    return () => cancelAnimationFrame(raf)
+    return () => {
+      cancelAnimationFrame(raf)
+      noteHighlighterRef.current.clear()
+    }
   }, [scoreTimeline])
 
   // Keep OSMD layout in sync with the rendered page width (A4-like) using ResizeObserver.
@@ -1708,6 +2504,242 @@ export default function ScorePlayerPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [scoreTimeline])
 
+  /* =========================
+     DETECTOR
+  ========================= */
+  // The detectors (one PitchDetectorInstance per analysed channel) live in the
+  // worklet, so resets go there.
+  function resetDetector() {
+    forwardedTargetMidiRef.current = {}
+    pitchWorkletNodeRef.current?.port.postMessage({ type: 'reset' })
+  }
+
+  // Input channels the worklet analyses: channel 0, or one per assigned singer
+  function analysedChannels(): number[] {
+    return multiSingerRef.current ? activeSingerChannels(singerVoicesRef.current) : [0]
+  }
+
+  // Score time of the centre of a worklet analysis window, latency compensated.
+  //
+  // IMPORTANT: Worklet timestamps are in AudioContext time (real seconds).
+  // Convert AudioContext seconds -> timeline seconds, then apply latency
+  // compensation in timeline seconds. This avoids mixing time bases (audio
+  // seconds vs timeline seconds), which would otherwise drift and make target
+  // selection wrong.
+  function pitchMessageScoreTime(data: { audioTimeSec?: unknown; halfWindowSec?: unknown }): number {
+    const player = playerRef.current
+    const halfWindowSec =
+      typeof data.halfWindowSec === 'number'
+        ? data.halfWindowSec
+        : ((FFT_SIZE / (audioContextRef.current?.sampleRate ?? 44100)) / 2)
+    const audioTimeSec = typeof data.audioTimeSec === 'number' ? data.audioTimeSec : null
+    const analysisCenterAudioTimeSec =
+      audioTimeSec != null ? Math.max(0, audioTimeSec - halfWindowSec) : null
+
+    const rawNowScoreTime =
+      analysisCenterAudioTimeSec != null && player
+        ? player.getTimeAtAudioContextTime(analysisCenterAudioTimeSec)
+        : (player?.getCurrentTime() ?? 0)
+
+    // Score-time used for any "compare to score" logic (does not affect pitch detection).
+    return rawNowScoreTime - (latencyMsRef.current || 0) / 1000
+  }
+
+  // Target-aware detectors narrow their search around the note the singer
+  // should be on; send it to the worklet whenever it changes.
+  function forwardTargetNote(pitchTime: number, channel = 0, voice: VoiceId | null = selectedVoiceRef.current) {
+    const node = pitchWorkletNodeRef.current
+    if (!node) return
+    let target: number | null = null
+    if (voice && playerRef.current?.isPlaying()) {
+      // One hop ahead: the next frame is analysed after this message arrives.
+      const t = pitchTime + ANALYSIS_INTERVAL_MS / 1000
+      const note = notesByVoiceRef.current?.[voice]?.find(n => t >= n.start && t < n.end)
+      // The worklet works at A4 = 440 Hz: send the tuned pitch in those terms
+      if (note) target = note.midi + note.cents / 100 + referenceOffsetSemitones(tuningRef.current.referenceHz)
+    }
+    if (forwardedTargetMidiRef.current[channel] === target) return
+    forwardedTargetMidiRef.current[channel] = target
+    node.port.postMessage({ type: 'config', channel, targetMidi: target })
+  }
+
+  // Multi-singer mode: judge one singer's frame against their voice and mark
+  // confirmed mistakes on the score in the singer's colour.
+  function handleSingerPitch(channel: number, pitchTime: number, data: { frequency?: number | null; clarity?: number }) {
+    const voice = singerVoicesRef.current[channel]
+    if (!voice) return
+    forwardTargetNote(pitchTime, channel, voice)
+
+    let trail = singerTrailsRef.current.get(channel)
+    if (!trail) {
+      trail = new SingerTrail()
+      singerTrailsRef.current.set(channel, trail)
+    }
+
+    const S = pitchSettingsRef.current
+    const frequency = data.frequency ?? null
+    const stable = frequency != null && (data.clarity ?? 0) >= S.MIN_CLARITY
+    const exactMidi = stable ? sungExactMidi(frequency, voice, pitchTime) : null
+    const inTransition = ENABLE_ASYNC_TRANSITION && trail.updateTransition(exactMidi)
+    if (exactMidi == null || inTransition || !playerRef.current?.isPlaying()) {
+      trail.resetConfirmation()
+      return
+    }
+
+    const notes = notesByVoiceRef.current?.[voice] ?? []
+    const judgement = judgeSungPitch(notes, pitchTime, exactMidi, ALLOWED_TARGET_WINDOW_SEC, S.ORANGE_THRESHOLD_CENTS)
+    if (trail.confirm(judgement)) drawSingerTrailAtPlayhead(channel, trail, judgement)
+  }
+
+  useEffect(() => {
+    pitchWorkletNodeRef.current?.port.postMessage({ type: 'config', detector: detectorKind })
+    forwardedTargetMidiRef.current = {}
+  }, [detectorKind])
+
+  useEffect(() => {
+    singerVoicesRef.current = singerVoices
+    pitchWorkletNodeRef.current?.port.postMessage({ type: 'config', channels: analysedChannels() })
+    forwardedTargetMidiRef.current = {}
+    singerTrailsRef.current.clear()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [singerVoices])
+
+  useEffect(() => {
+    if (multiSingerRef.current === multiSinger) return
+    multiSingerRef.current = multiSinger
+    if (micActive) void restartMic()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [multiSinger])
+
+  /* =========================
+     TAKE SCORING
+  ========================= */
+  // Called for every analysis frame. A take is one loop pass of one voice:
+  // when the pass or the selected voice changes, the previous take is reported.
+  function pushTakeFrame(pitchTime: number, exactMidi: number | null) {
+    const player = playerRef.current
+    const timeline = timelineRef.current
+    const voice = selectedVoiceRef.current
+    if (!player?.isPlaying() || !timeline || !voice || takePlaybackRef.current) return
+
+    const iteration = player.getLoopIteration()
+    let take = takeRef.current
+    if (take && (take.iteration !== iteration || take.scorer.voice !== voice)) {
+      finishTake()
+      take = null
+    }
+    if (!take) {
+      take = {
+        scorer: new TakeScorer(timeline, voice, {
+          inTuneCents: pitchSettingsRef.current.ORANGE_THRESHOLD_CENTS,
+          allowedWindowSec: ALLOWED_TARGET_WINDOW_SEC
+        }),
+        iteration,
+        difficulty: difficultyRef.current,
+        startedAtMs: performance.now()
+      }
+      takeRef.current = take
+    }
+    take.scorer.push(pitchTime, exactMidi)
+  }
+
+  function finishTake() {
+    const take = takeRef.current
+    takeRef.current = null
+    const report = take?.scorer.finish()
+    if (!take || !report) return
+    setTakeReport(report)
+
+    const score = practiceScoreRef.current
+    if (!score) return
+    try {
+      supabaseRef.current ??= getSupabaseBrowser()
+    } catch {
+      return // Supabase not configured (local use without accounts)
+    }
+    recordPracticeSession(supabaseRef.current, report, {
+      score,
+      scoreTitle: scoreNameRef.current,
+      // Refs, not state: this also runs from the worklet message handler
+      voiceLabel: buildVoiceDisplayLabel(
+        report.voice,
+        Array.from(new Set(timelineRef.current?.notes.map(n => n.voice) ?? [])),
+        partMetadataRef.current
+      ),
+      tempoMultiplier: playerRef.current?.getTempoMultiplier() ?? 1,
+      difficulty: take.difficulty,
+      durationSeconds: (performance.now() - take.startedAtMs) / 1000
+    }).catch((err) => console.warn('[practice] failed to save session', err))
+  }
+
+  /* =========================
+     TAKE RECORDING + PLAYBACK
+  ========================= */
+  // Score position of a mic chunk. The singer was following what they heard
+  // latencyMs earlier, so the capture time is shifted back before mapping.
+  function resolveTakeRecorderPosition(audioTimeSec: number): TakeRecorderPosition | null {
+    const player = playerRef.current
+    const voice = selectedVoiceRef.current
+    if (!player?.isPlaying() || !voice || takePlaybackRef.current) return null
+    return {
+      voice,
+      timelineSeconds: player.getTimeAtAudioContextTime(audioTimeSec - (latencyMsRef.current || 0) / 1000),
+      tempoMultiplier: player.getTempoMultiplier()
+    }
+  }
+
+  // Replay the take together with the accompaniment from the score position it
+  // started at; the OSMD playhead follows the player as during normal playback.
+  function playTakeRecording(rec: TakeRecording) {
+    const p = playerRef.current
+    if (!p) return
+    stopTakePlayback()
+    finishTake()
+    if (p.isPlaying()) p.pause()
+    if (p.getTempoMultiplier() !== rec.tempoMultiplier) handleTempoChange(rec.tempoMultiplier)
+
+    const ctx = p.getAudioContext()
+    const buffer = ctx.createBuffer(1, rec.samples.length, rec.sampleRate)
+    buffer.getChannelData(0).set(rec.samples)
+    const source = ctx.createBufferSource()
+    source.buffer = buffer
+    source.connect(ctx.destination)
+    source.onended = () => {
+      if (takePlaybackRef.current !== source) return
+      stopTakePlayback()
+      playerRef.current?.pause()
+    }
+    takePlaybackRef.current = source
+    setTakePlaybackActive(true)
+
+    clearTrail()
+    p.seekTo(rec.timelineStartSeconds)
+    setCurrentTime(rec.timelineStartSeconds)
+    p.play()
+
+    // Start on the same clock as the accompaniment (after any count-in)
+    const at = p.getAudioContextTimeAt(rec.timelineStartSeconds) ?? ctx.currentTime
+    const now = ctx.currentTime
+    if (at >= now) source.start(at)
+    else source.start(now, now - at)
+  }
+
+  function stopTakePlayback() {
+    const source = takePlaybackRef.current
+    takePlaybackRef.current = null
+    if (!source) return
+    source.onended = null
+    try { source.stop() } catch {}
+    try { source.disconnect() } catch {}
+    setTakePlaybackActive(false)
+  }
+
+  function handleJumpToMeasure(m: MeasureScore) {
+    setCurrentTime(m.startTimeSeconds)
+    resetPitchEvaluationState()
+    playerRef.current?.seekTo(m.startTimeSeconds)
+  }
+
   function resetPitchEvaluationState() {
     // Intentionally minimal for "raw pitchy" evaluation.
   }
@@ -1758,6 +2790,7 @@ export default function ScorePlayerPage() {
   useEffect(() => {
     return () => {
       stopMic()
+      stopTakePlayback()
       playerRef.current?.dispose()
       playerRef.current = null
     }
@@ -1803,13 +2836,13 @@ export default function ScorePlayerPage() {
           </div>
           <div className="top-bar__right">
             <button type="button" className="top-bar__openFileBtn" onClick={() => fileInputRef.current?.click()}>
-              Open MusicXML / MXL
+              Open MusicXML / MXL / MIDI
             </button>
             <input
               ref={fileInputRef}
               id="musicxml-file"
               type="file"
-              accept=".xml,.musicxml,.mxl"
+              accept=".xml,.musicxml,.mxl,.mid,.midi"
               onChange={handleFileSelect}
               className="file-input"
             />
@@ -1822,20 +2855,57 @@ export default function ScorePlayerPage() {
 
       <main className="main-content">
         <div className="score-section">
-          <div ref={scoreContainerRef} id="score-container" className="score-container">
-            <div className="osmd-wrapper">
+          <div
+            ref={scoreContainerRef}
+            id="score-container"
+            className={`score-container${loopSelecting ? ' is-loop-selecting' : ''}`}
+            onPointerDown={handleScorePointerDown}
+            onPointerMove={handleScorePointerMove}
+            onPointerUp={handleScorePointerUp}
+            onPointerCancel={handleScorePointerUp}
+          >
+            <div className="osmd-wrapper" style={viewMode === 'timeline' ? { display: 'none' } : undefined}>
               <div ref={osmdWrapperRef} className="osmd-wrapper__inner">
                 <div ref={osmdContainerRef} className="osmd-container" />
               </div>
             </div>
             {isLoading && <div className="score-toast score-toast--loading">Loading…</div>}
             {!!error && <div className="score-toast score-toast--error">{error}</div>}
-            {!scoreTimeline && <p>Select a MusicXML or MXL file to display notes</p>}
+            {!scoreTimeline && <p>Select a MusicXML, MXL or MIDI file to display notes</p>}
+
+            {scoreTimeline && viewMode === 'timeline' && (
+              <TimelineView
+                timeline={scoreTimeline}
+                voices={getVoices()}
+                voiceLabel={(v) => buildVoiceDisplayLabel(v, getVoices(), partMetadata)}
+                selectedVoice={selectedVoice}
+                loopRange={loopMeasures ? playerRef.current?.getLoopRange() ?? null : null}
+                loopSelecting={loopSelecting}
+                getCurrentTime={() => playerRef.current?.getCurrentTime() ?? 0}
+                onSeek={(t) => {
+                  setCurrentTime(t)
+                  resetPitchEvaluationState()
+                  playerRef.current?.seekTo(t)
+                }}
+                onSelectMeasures={(from, to) => {
+                  setLoopSelecting(false)
+                  applyLoopMeasures({ from, to })
+                }}
+              />
+            )}
 
             {scoreTimeline && (
               <>
-                <canvas ref={trailCanvasRef} className="trail-canvas" />
-                <div ref={playheadRef} className="playhead-marker" />
+                {viewMode === 'notation' && (
+                  <>
+                    {loopRects.map((r, i) => (
+                      <div key={i} className="loop-region" style={{ left: r.left, top: r.top, width: r.width, height: r.height }} />
+                    ))}
+                    <canvas ref={contourCanvasRef} className="trail-canvas" />
+                    <canvas ref={trailCanvasRef} className="trail-canvas" />
+                    <div ref={playheadRef} className="playhead-marker" />
+                  </>
+                )}
 
                 {ENABLE_PERF_STATS && <PerfOverlay perfSnapshot={perfSnapshot} micActive={micActive} />}
 
@@ -1846,7 +2916,25 @@ export default function ScorePlayerPage() {
                   pitchResult={pitchResult}
                   distanceCents={distanceCents}
                   midiToNoteName={midiToNoteName}
+                  tuning={tuning}
+                  chordTone={chordTone}
                 />
+
+                {takeReport && (
+                  <TakeReportPanel
+                    report={takeReport}
+                    voiceLabel={buildVoiceDisplayLabel(takeReport.voice, getVoices(), partMetadata)}
+                    onJump={handleJumpToMeasure}
+                    onClose={() => setTakeReport(null)}
+                    canPlayTake={takeRecording?.voice === takeReport.voice}
+                    playingTake={takePlaybackActive}
+                    onPlayTake={() => takeRecording && playTakeRecording(takeRecording)}
+                    onStopTake={() => {
+                      stopTakePlayback()
+                      playerRef.current?.pause()
+                    }}
+                  />
+                )}
               </>
             )}
           </div>
@@ -1879,6 +2967,9 @@ export default function ScorePlayerPage() {
             }}
             onVolumeClick={() => setActivePanel(p => (p === 'mixer' ? 'none' : 'mixer'))}
             onSettingsClick={() => setActivePanel(p => (p === 'settings' ? 'none' : 'settings'))}
+            loopLabel={loopMeasures ? `m. ${loopMeasures.from + 1}–${loopMeasures.to + 1}` : null}
+            loopSelecting={loopSelecting}
+            onLoopClick={handleLoopClick}
           />
 
           {/* Voice selection overlay (choose voice first, then activate mic) */}
@@ -1943,10 +3034,25 @@ export default function ScorePlayerPage() {
                   </button>
                 </div>
 
+                <div className="mixer-presets">
+                  <button
+                    type="button"
+                    disabled={!selectedVoice}
+                    onClick={() => handlePartBalance()}
+                    title="Your voice loud on the left, the others soft on the right"
+                  >
+                    My part vs. the rest
+                  </button>
+                  <button type="button" onClick={() => handlePartBalance(true)}>
+                    Even mix
+                  </button>
+                </div>
+
                 <div className="voice-mixer">
-                  {getVoices().map(v => {
+                  {getMixerVoices().map(v => {
                     const settings = getVoiceSettings(v)
-                    const label = buildVoiceDisplayLabel(v, getVoices(), partMetadata)
+                    const isMetronome = v === METRONOME_VOICE_ID
+                    const label = isMetronome ? 'Metronome' : buildVoiceDisplayLabel(v, getVoices(), partMetadata)
                     return (
                       <div key={v} className="mixer-voice-row">
                         <div className="mixer-voice-name">{label}</div>
@@ -1975,6 +3081,31 @@ export default function ScorePlayerPage() {
                         >
                           S
                         </button>
+                        <div className="mixer-voice-options">
+                          <label title="Pan (left–right)">
+                            L
+                            <input
+                              type="range"
+                              min={-100}
+                              max={100}
+                              value={Math.round((settings.pan ?? 0) * 100)}
+                              onChange={e => handleVoiceSettingsChange(v, { pan: parseInt(e.target.value) / 100 })}
+                              onDoubleClick={() => handleVoiceSettingsChange(v, { pan: 0 })}
+                            />
+                            R
+                          </label>
+                          {!isMetronome && (
+                            <select
+                              value={shownInstrument(voiceInstruments[v] ?? timbre)}
+                              onChange={e => handleVoiceInstrumentChange(v, e.target.value as InstrumentId)}
+                              aria-label={`${label} sound`}
+                            >
+                              {instrumentOptions.map(o => (
+                                <option key={o.id} value={o.id}>{o.label}</option>
+                              ))}
+                            </select>
+                          )}
+                        </div>
                       </div>
                     )
                   })}
@@ -1997,15 +3128,12 @@ export default function ScorePlayerPage() {
                 <label className="score-overlay-field">
                   Sound&nbsp;
                   <select
-                    value={timbre}
-                    onChange={(e) => {
-                      const next = e.target.value as SynthTimbre
-                      setTimbre(next)
-                      recreatePlayerWithTimbre(next)
-                    }}
+                    value={shownInstrument(timbre)}
+                    onChange={(e) => handleTimbreChange(e.target.value as InstrumentId)}
                   >
-                    <option value="vocal">Vocal / Choir</option>
-                    <option value="sine">Pure tone</option>
+                    {instrumentOptions.map(o => (
+                      <option key={o.id} value={o.id}>{o.label}</option>
+                    ))}
                   </select>
                 </label>
 
@@ -2018,6 +3146,120 @@ export default function ScorePlayerPage() {
                   </select>
                 </label>
 
+                <label className="score-overlay-field">
+                  Pitch detector&nbsp;
+                  <select value={detectorKind} onChange={(e) => setDetectorKind(e.target.value as DetectorKind)}>
+                    {listPitchDetectors().map(d => (
+                      <option key={d.kind} value={d.kind}>{d.label}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="score-overlay-field">
+                  <input
+                    type="checkbox"
+                    checked={multiSinger}
+                    onChange={(e) => {
+                      const on = e.target.checked
+                      // First time on: one voice per input channel, in score order
+                      if (on && activeSingerChannels(singerVoices).length === 0) {
+                        const next = emptySingerAssignments()
+                        voicesHuman.slice(0, MAX_SINGER_CHANNELS).forEach((v, i) => { next[i] = v })
+                        setSingerVoices(next)
+                      }
+                      setMultiSinger(on)
+                    }}
+                  />
+                  &nbsp;Multi-singer (one input channel per voice)
+                </label>
+
+                {multiSinger && (
+                  <div className="singer-channels">
+                    {singerVoices.slice(0, Math.max(2, Math.min(MAX_SINGER_CHANNELS, inputChannelCount))).map((v, ch) => (
+                      <label key={ch} className="score-overlay-field singer-channels__row">
+                        <span className="singer-channels__swatch" style={{ background: singerColor(ch) }} />
+                        Input {ch + 1}&nbsp;
+                        <select
+                          value={v ?? ''}
+                          onChange={(e) => {
+                            const next = singerVoices.slice()
+                            next[ch] = e.target.value || null
+                            setSingerVoices(next)
+                          }}
+                        >
+                          <option value="">Not used</option>
+                          {voicesHuman.map(voice => (
+                            <option key={voice} value={voice}>{buildVoiceDisplayLabel(voice, getVoices(), partMetadata)}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                    {micActive && inputChannelCount < 2 && (
+                      <div className="singer-channels__note">The microphone input has a single channel.</div>
+                    )}
+                  </div>
+                )}
+
+                <label className="score-overlay-field">
+                  Transpose&nbsp;
+                  <select value={transpose} onChange={(e) => handleTransposeChange(parseInt(e.target.value, 10))}>
+                    {Array.from({ length: 2 * MAX_TRANSPOSE_SEMITONES + 1 }, (_, i) => MAX_TRANSPOSE_SEMITONES - i).map(n => (
+                      <option key={n} value={n}>{formatTranspose(n)}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="score-overlay-field">
+                  Tuning&nbsp;
+                  <select
+                    value={tuning.referenceHz}
+                    onChange={(e) => handleTuningChange({ referenceHz: clampReferenceHz(parseFloat(e.target.value)) })}
+                  >
+                    {REFERENCE_PITCH_PRESETS.some(p => p.hz === tuning.referenceHz) ? null : (
+                      <option value={tuning.referenceHz}>{tuning.referenceHz} Hz</option>
+                    )}
+                    {REFERENCE_PITCH_PRESETS.map(p => (
+                      <option key={p.hz} value={p.hz}>A4 = {p.label}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="score-overlay-field">
+                  Temperament&nbsp;
+                  <select
+                    value={tuning.temperament}
+                    onChange={(e) => handleTuningChange({ temperament: e.target.value as Temperament })}
+                  >
+                    <option value="equal">Equal</option>
+                    <option value="just">Just (tuned to the chord root)</option>
+                  </select>
+                </label>
+
+                <label className="score-overlay-field">
+                  Count-in&nbsp;
+                  <select
+                    value={countInBars}
+                    onChange={(e) => {
+                      const bars = parseInt(e.target.value, 10)
+                      setCountInBars(bars)
+                      playerRef.current?.setCountInBars(bars)
+                    }}
+                  >
+                    <option value={0}>Off</option>
+                    <option value={1}>1 bar</option>
+                    <option value={2}>2 bars</option>
+                  </select>
+                </label>
+
+                <label className="score-overlay-field">
+                  <input
+                    type="checkbox"
+                    checked={showPitchContour}
+                    onChange={(e) => setShowPitchContour(e.target.checked)}
+                  />
+                  &nbsp;Pitch contour under each system
+                </label>
+
                 <div className="tempo-control" style={{ marginTop: 12 }}>
                   <h4>Zoom</h4>
                   <div className="tempo-display">{Math.round(osmdZoom * 100)}%</div>
@@ -2046,8 +3288,11 @@ export default function ScorePlayerPage() {
                 <div className="tempo-control" style={{ marginTop: 12 }}>
                   <h4>Tempo</h4>
                   <div className="tempo-display">
-                    {Math.round(scoreTimeline.tempoBpm * tempoMultiplier)} BPM
-                    <span className="tempo-original"> ({scoreTimeline.tempoBpm} BPM original)</span>
+                    {Math.round(tempoAtSeconds(scoreTimeline.tempoSegments, currentTime) * tempoMultiplier)} BPM
+                    <span className="tempo-original">
+                      {' '}({Math.round(tempoAtSeconds(scoreTimeline.tempoSegments, currentTime))} BPM original
+                      {scoreTimeline.tempoSegments.length > 1 ? ', tempo changes in score' : ''})
+                    </span>
                   </div>
                   <div className="tempo-buttons">
                     {[0.5, 0.75, 1.0, 1.25, 1.5].map(m => (
@@ -2067,6 +3312,49 @@ export default function ScorePlayerPage() {
                   />
                 </div>
 
+                <div className="tempo-control" style={{ marginTop: 12 }}>
+                  <h4>Export rehearsal track</h4>
+                  <label className="score-overlay-field">
+                    Tracks&nbsp;
+                    <select value={exportPreset} onChange={(e) => setExportPreset(e.target.value as RehearsalExportPreset)}>
+                      <option value="mix">Current mix</option>
+                      <option value="voice-emphasis">Each voice emphasised (one file per voice)</option>
+                    </select>
+                  </label>
+                  <label className="score-overlay-field">
+                    Range&nbsp;
+                    <select
+                      value={exportLoopOnly && loopMeasures ? 'loop' : 'all'}
+                      onChange={(e) => setExportLoopOnly(e.target.value === 'loop')}
+                    >
+                      <option value="all">Whole piece</option>
+                      <option value="loop" disabled={!loopMeasures}>Loop region</option>
+                    </select>
+                  </label>
+                  <div className="tempo-buttons">
+                    <button type="button" disabled={!!exportStatus} onClick={handleExportRehearsalTrack}>
+                      {exportStatus ?? 'Export WAV'}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="tempo-control" style={{ marginTop: 12 }}>
+                  <h4>Export MIDI</h4>
+                  <label className="score-overlay-field">
+                    <input
+                      type="checkbox"
+                      checked={midiExportMixer}
+                      onChange={(e) => setMidiExportMixer(e.target.checked)}
+                    />
+                    &nbsp;Include mixer volume and pan
+                  </label>
+                  <div className="tempo-buttons">
+                    <button type="button" disabled={!scoreTimeline} onClick={handleExportMidi}>
+                      Export MIDI
+                    </button>
+                  </div>
+                </div>
+
                 <div style={{ marginTop: 12 }}>
                   <LatencyControl
                     micActive={micActive}
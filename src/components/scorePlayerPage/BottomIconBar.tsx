@@ -46,6 +46,17 @@ function StopIcon() {
   )
 }
 
+function LoopIcon() {
+  return (
+    <svg width="22" height="22" viewBox="0 0 24 24" aria-hidden="true">
+      <path
+        d="M7 7h10v3l4-4-4-4v3H5v6h2V7zm10 10H7v-3l-4 4 4 4v-3h12v-6h-2v4z"
+        fill="currentColor"
+      />
+    </svg>
+  )
+}
+
 function MicIcon() {
   return (
     <svg width="22" height="22" viewBox="0 0 24 24" aria-hidden="true">
@@ -92,9 +103,14 @@ export const BottomIconBar = memo(function BottomIconBar(props: {
   onVolumeClick: () => void
   onSettingsClick: () => void
   activePanel: 'none' | 'voice' | 'mixer' | 'settings'
+  // A–B loop: label like "m. 5–8" when a loop region is set
+  loopLabel: string | null
+  loopSelecting: boolean
+  onLoopClick: () => void
 }) {
   const { disabled, isPlaying, micActive, currentTime, duration, onSeek, onPlayPause, onStop, onMicClick, onVolumeClick, onSettingsClick, activePanel } =
     props
+  const { loopLabel, loopSelecting, onLoopClick } = props
   const safeDuration = Number.isFinite(duration) && duration > 0 ? duration : 0
 
   return (
@@ -106,6 +122,14 @@ export const BottomIconBar = memo(function BottomIconBar(props: {
         <IconButton title="Stop" onClick={onStop} disabled={disabled}>
           <StopIcon />
         </IconButton>
+        <IconButton
+          title={loopLabel ? `Clear loop (${loopLabel})` : (loopSelecting ? 'Cancel loop selection' : 'Loop measures (drag on the score)')}
+          onClick={onLoopClick}
+          disabled={disabled}
+          active={!!loopLabel || loopSelecting}
+        >
+          <LoopIcon />
+        </IconButton>
         <IconButton title={micActive ? 'Deactivate microphone' : 'Activate microphone'} onClick={onMicClick} active={micActive}>
           <MicIcon />
         </IconButton>
@@ -120,6 +144,8 @@ export const BottomIconBar = memo(function BottomIconBar(props: {
       <div className="bottom-icon-bar__middle" aria-label="Seek">
         <div className="transport-bar__time">
           {Number.isFinite(currentTime) ? currentTime.toFixed(1) : '0.0'}s / {safeDuration.toFixed(1)}s
+          {loopSelecting && <span className="transport-bar__loop"> · Drag over measures to loop</span>}
+          {!loopSelecting && loopLabel && <span className="transport-bar__loop"> · Loop {loopLabel}</span>}
         </div>
         <input
           className="transport-bar__slider"
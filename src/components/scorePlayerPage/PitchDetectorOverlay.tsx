@@ -1,4 +1,5 @@
 import { frequencyToNoteInfo, PitchResult } from '../../audio/pitchDetection'
+import { ChordToneInfo, chordToneGuidance, DEFAULT_TUNING, TuningSettings } from '../../audio/tuning'
 import { VoiceId } from '../../types/ScoreTimeline'
 
 function clamp(v: number, lo: number, hi: number) {
@@ -32,15 +33,29 @@ export type PitchDetectorOverlayProps = {
   pitchResult: PitchResult
   distanceCents: number | null
   midiToNoteName: (midi: number) => string
+  tuning?: TuningSettings
+  chordTone?: ChordToneInfo | null
 }
 
 export function PitchDetectorOverlay(props: PitchDetectorOverlayProps) {
-  const { micActive, currentTargetNote, pitchResult, distanceCents, midiToNoteName } = props
+  const { micActive, currentTargetNote, pitchResult, distanceCents, midiToNoteName, tuning = DEFAULT_TUNING, chordTone } = props
   // Show overlay whenever mic is active so the user can pause playback and still
   // practice holding/finding the pitch.
   if (!micActive) return null
 
-  const sungName = pitchResult.frequency ? frequencyToNoteInfo(pitchResult.frequency)?.noteName ?? '---' : '---'
+  const sungName = pitchResult.frequency
+    ? frequencyToNoteInfo(pitchResult.frequency, tuning.referenceHz)?.noteName ?? '---'
+    : '---'
+  const tuningNote =
+    tuning.referenceHz !== DEFAULT_TUNING.referenceHz || tuning.temperament !== 'equal'
+      ? ` (A4 = ${tuning.referenceHz} Hz${tuning.temperament === 'just' ? ', just' : ''})`
+      : ''
+  const guidance = chordTone ? chordToneGuidance(chordTone, tuning.temperament) : null
+  // In equal temperament the cents are from the piano; also show them from the pure tone
+  const fromPure =
+    chordTone && guidance && tuning.temperament === 'equal' && distanceCents != null
+      ? Math.round(distanceCents - chordTone.justCents)
+      : null
 
   return (
     <div className="pitch-detector-overlay">
@@ -52,7 +67,17 @@ export function PitchDetectorOverlay(props: PitchDetectorOverlayProps) {
           {currentTargetNote
             ? `Target: ${midiToNoteName(currentTargetNote.midi)}`
             : 'Reference: nearest semitone'}
+          {tuningNote}
         </div>
+        {chordTone && (
+          <div className="chord-tone">
+            <span className="chord-tone__label">
+              {chordTone.label}
+              {fromPure != null && ` · ${fromPure > 0 ? '+' : ''}${fromPure} cents from pure`}
+            </span>
+            {guidance && <span className="chord-tone__hint">{guidance}</span>}
+          </div>
+        )}
         <div className="pitch-info">
           <span className="pitch-hz">{pitchResult.frequency ? `${pitchResult.frequency.toFixed(1)} Hz` : '--- Hz'}</span>
           <span className="pitch-cents">
@@ -0,0 +1,79 @@
+import { MeasureScore, TakeReport } from '../../audio/TakeScorer'
+
+const WORST_MEASURE_COUNT = 5
+
+function pct(fraction: number) {
+  return `${Math.round(fraction * 100)}%`
+}
+
+function signedCents(cents: number | null) {
+  if (cents == null) return '—'
+  const r = Math.round(cents)
+  return `${r > 0 ? '+' : ''}${r} c`
+}
+
+export type TakeReportPanelProps = {
+  report: TakeReport
+  voiceLabel: string
+  onJump: (measure: MeasureScore) => void
+  onClose: () => void
+  // Playback of the recorded take (when the mic recording is available)
+  canPlayTake?: boolean
+  playingTake?: boolean
+  onPlayTake?: () => void
+  onStopTake?: () => void
+}
+
+/**
+ * Summary shown after a take: overall accuracy and the weakest measures,
+ * each of which moves the playhead there.
+ */
+export function TakeReportPanel(props: TakeReportPanelProps) {
+  const { report, voiceLabel, onJump, onClose, canPlayTake, playingTake, onPlayTake, onStopTake } = props
+  const worst = report.measures.slice(0, WORST_MEASURE_COUNT)
+  const lateMs = report.meanOnsetLatenessSec != null ? Math.round(report.meanOnsetLatenessSec * 1000) : null
+
+  return (
+    <div className="take-report" role="dialog" aria-label="Take report">
+      <div className="score-overlay-panel__header">
+        <div className="score-overlay-panel__title">Take report — {voiceLabel}</div>
+        <button type="button" className="score-overlay-closeBtn" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className="take-report__summary">
+        <div><strong>{pct(report.inTuneFraction)}</strong> in tune</div>
+        <div><strong>{pct(report.wrongNoteFraction)}</strong> wrong notes</div>
+        <div>mean <strong>{signedCents(report.meanCents)}</strong> · median <strong>{signedCents(report.medianCents)}</strong></div>
+        <div>onsets <strong>{lateMs != null ? `${lateMs} ms` : '—'}</strong> late</div>
+      </div>
+
+      {canPlayTake && (
+        <button
+          type="button"
+          className="take-report__listen"
+          onClick={playingTake ? onStopTake : onPlayTake}
+        >
+          {playingTake ? '■ Stop playback' : '▶ Listen to your take with the accompaniment'}
+        </button>
+      )}
+
+      <div className="take-report__subtitle">Measures to practise</div>
+      <ul className="take-report__measures">
+        {worst.map(m => (
+          <li key={`${m.measureIndex}:${m.pass}`}>
+            <button type="button" onClick={() => onJump(m)}>
+              <span className="take-report__measureNo">
+                m. {m.measureIndex + 1}{m.pass > 1 ? ` (pass ${m.pass})` : ''}
+              </span>
+              <span>{pct(m.inTuneFraction)} in tune</span>
+              {m.wrongNoteFraction > 0.05 && <span className="take-report__wrong">{pct(m.wrongNoteFraction)} wrong</span>}
+              {m.meanAbsCents != null && <span>±{Math.round(m.meanAbsCents)} c</span>}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
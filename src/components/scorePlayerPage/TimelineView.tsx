@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { ScoreTimeline, VoiceId } from '../../types/ScoreTimeline'
+import { LoopRange } from '../../audio/ScorePlayer'
+import { findPerformedMeasureIndex } from '../../utils/performanceOrder'
+
+const PX_PER_SEC = 60
+const LANE_HEIGHT = 64
+const LABEL_WIDTH = 96
+
+export type TimelineViewProps = {
+  timeline: ScoreTimeline
+  voices: VoiceId[]
+  voiceLabel: (voice: VoiceId) => string
+  selectedVoice: VoiceId | null
+  loopRange: LoopRange | null
+  loopSelecting: boolean
+  getCurrentTime: () => number
+  onSeek: (timeSeconds: number) => void
+  onSelectMeasures: (fromMeasure: number, toMeasure: number) => void
+}
+
+/**
+ * Notation-free view for scores without a rendered score (e.g. MIDI files):
+ * one lane per voice with its notes as bars over time, measure lines and a
+ * playhead that follows playback.
+ */
+export function TimelineView(props: TimelineViewProps) {
+  const { timeline, voices, voiceLabel, selectedVoice, loopRange, loopSelecting, getCurrentTime, onSeek, onSelectMeasures } = props
+  const scrollRef = useRef<HTMLDivElement>(null)
+  // Measure drag while choosing an A–B loop (performed measure indices)
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null)
+  const playheadRef = useRef<HTMLDivElement>(null)
+  const getTimeRef = useRef(getCurrentTime)
+  getTimeRef.current = getCurrentTime
+
+  const width = Math.max(1, Math.ceil(timeline.totalDurationSeconds * PX_PER_SEC)) + 40
+
+  const lanes = useMemo(() => {
+    return voices.map(voice => {
+      const notes = timeline.notes.filter(n => n.voice === voice)
+      let lo = Infinity
+      let hi = -Infinity
+      for (const n of notes) {
+        lo = Math.min(lo, n.midiPitch)
+        hi = Math.max(hi, n.midiPitch)
+      }
+      if (!Number.isFinite(lo)) {
+        lo = 60
+        hi = 60
+      }
+      return { voice, notes, lo: lo - 1, hi: hi + 1 }
+    })
+  }, [timeline, voices])
+
+  // Playhead + follow-scroll run on animation frames, independent of React renders.
+  useEffect(() => {
+    let raf = 0
+    let lastX = -1
+    const tick = () => {
+      const x = getTimeRef.current() * PX_PER_SEC
+      if (playheadRef.current) playheadRef.current.style.transform = `translateX(${x}px)`
+      const scroller = scrollRef.current
+      // Only follow while the playhead moves, so manual scrolling while paused sticks.
+      if (scroller && x !== lastX) {
+        lastX = x
+        const viewW = scroller.clientWidth - LABEL_WIDTH
+        const rel = x - scroller.scrollLeft
+        if (rel < 0 || rel > viewW * 0.8) scroller.scrollLeft = Math.max(0, x - viewW * 0.2)
+      }
+      raf = requestAnimationFrame(tick)
+    }
+    raf = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(raf)
+  }, [])
+
+  function timeAt(e: React.PointerEvent<HTMLDivElement>): number {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return Math.max(0, Math.min(timeline.totalDurationSeconds, (e.clientX - rect.left) / PX_PER_SEC))
+  }
+
+  function handlePointerDown(e: React.PointerEvent<HTMLDivElement>) {
+    const t = timeAt(e)
+    if (!loopSelecting) {
+      onSeek(t)
+      return
+    }
+    const idx = findPerformedMeasureIndex(timeline.measures, t)
+    if (idx < 0) return
+    try { e.currentTarget.setPointerCapture(e.pointerId) } catch {}
+    setDrag({ from: idx, to: idx })
+  }
+
+  function handlePointerMove(e: React.PointerEvent<HTMLDivElement>) {
+    if (!drag) return
+    const idx = findPerformedMeasureIndex(timeline.measures, timeAt(e))
+    if (idx >= 0 && idx !== drag.to) setDrag({ ...drag, to: idx })
+  }
+
+  function handlePointerUp() {
+    if (!drag) return
+    setDrag(null)
+    onSelectMeasures(timeline.measures[drag.from].measureIndex, timeline.measures[drag.to].measureIndex)
+  }
+
+  const dragRange: LoopRange | null = drag
+    ? {
+        startSeconds: timeline.measures[Math.min(drag.from, drag.to)].startTimeSeconds,
+        endSeconds: timeline.measures[Math.max(drag.from, drag.to)].endTimeSeconds
+      }
+    : null
+  const shownLoop = dragRange ?? loopRange
+
+  return (
+    <div className="timeline-view" ref={scrollRef}>
+      <div className="timeline-view__labels" style={{ width: LABEL_WIDTH }}>
+        <div className="timeline-view__ruler" />
+        {lanes.map(l => (
+          <div
+            key={l.voice}
+            className={`timeline-view__label${l.voice === selectedVoice ? ' is-selected' : ''}`}
+            style={{ height: LANE_HEIGHT }}
+          >
+            {voiceLabel(l.voice)}
+          </div>
+        ))}
+      </div>
+
+      <div
+        className={`timeline-view__content${loopSelecting ? ' is-loop-selecting' : ''}`}
+        style={{ width }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+      >
+        <div className="timeline-view__ruler">
+          {timeline.measures.map((m, i) => (
+            <span key={i} className="timeline-view__measureNo" style={{ left: m.startTimeSeconds * PX_PER_SEC }}>
+              {m.measureIndex + 1}
+            </span>
+          ))}
+        </div>
+
+        {timeline.measures.map((m, i) => (
+          <div key={i} className="timeline-view__barline" style={{ left: m.startTimeSeconds * PX_PER_SEC }} />
+        ))}
+
+        {shownLoop && (
+          <div
+            className="timeline-view__loop"
+            style={{
+              left: shownLoop.startSeconds * PX_PER_SEC,
+              width: (shownLoop.endSeconds - shownLoop.startSeconds) * PX_PER_SEC
+            }}
+          />
+        )}
+
+        {lanes.map(l => {
+          const span = Math.max(1, l.hi - l.lo)
+          const noteH = Math.max(3, Math.min(10, LANE_HEIGHT / span))
+          return (
+            <div
+              key={l.voice}
+              className={`timeline-view__lane${l.voice === selectedVoice ? ' is-selected' : ''}`}
+              style={{ height: LANE_HEIGHT }}
+            >
+              {l.notes.map(n => (
+                <div
+                  key={n.id}
+                  className="timeline-view__note"
+                  style={{
+                    left: n.startTimeSeconds * PX_PER_SEC,
+                    width: Math.max(2, n.durationSeconds * PX_PER_SEC - 1),
+                    top: ((l.hi - n.midiPitch) / span) * (LANE_HEIGHT - noteH),
+                    height: noteH
+                  }}
+                />
+              ))}
+            </div>
+          )
+        })}
+
+        <div ref={playheadRef} className="timeline-view__playhead" />
+      </div>
+    </div>
+  )
+}
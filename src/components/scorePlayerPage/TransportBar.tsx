@@ -4,11 +4,19 @@ function IconButton(props: {
   title: string
   onClick: () => void
   disabled?: boolean
+  active?: boolean
   children: React.ReactNode
 }) {
-  const { title, onClick, disabled, children } = props
+  const { title, onClick, disabled, active, children } = props
   return (
-    <button className="transport-icon-btn" type="button" title={title} aria-label={title} onClick={onClick} disabled={disabled}>
+    <button
+      className={`transport-icon-btn${active ? ' is-active' : ''}`}
+      type="button"
+      title={title}
+      aria-label={title}
+      onClick={onClick}
+      disabled={disabled}
+    >
       {children}
     </button>
   )
@@ -38,6 +46,17 @@ function StopIcon() {
   )
 }
 
+function LoopIcon() {
+  return (
+    <svg width="22" height="22" viewBox="0 0 24 24" aria-hidden="true">
+      <path
+        d="M7 7h10v3l4-4-4-4v3H5v6h2V7zm10 10H7v-3l-4 4 4 4v-3h12v-6h-2v4z"
+        fill="currentColor"
+      />
+    </svg>
+  )
+}
+
 export const TransportBar = memo(function TransportBar(props: {
   isPlaying: boolean
   currentTime: number
@@ -46,8 +65,13 @@ export const TransportBar = memo(function TransportBar(props: {
   onStop: () => void
   onSeek: (t: number) => void
   disabled?: boolean
+  // A–B loop: label like "m. 5–8" when a loop region is set
+  loopLabel: string | null
+  loopSelecting: boolean
+  onLoopClick: () => void
 }) {
   const { isPlaying, currentTime, duration, onPlayPause, onStop, onSeek, disabled } = props
+  const { loopLabel, loopSelecting, onLoopClick } = props
 
   return (
     <div className="transport-bar" aria-label="Transport controls">
@@ -58,11 +82,21 @@ export const TransportBar = memo(function TransportBar(props: {
         <IconButton title="Stop" onClick={onStop} disabled={disabled}>
           <StopIcon />
         </IconButton>
+        <IconButton
+          title={loopLabel ? `Clear loop (${loopLabel})` : (loopSelecting ? 'Cancel loop selection' : 'Loop measures (drag on the score)')}
+          onClick={onLoopClick}
+          disabled={disabled}
+          active={!!loopLabel || loopSelecting}
+        >
+          <LoopIcon />
+        </IconButton>
       </div>
 
       <div className="transport-bar__middle">
         <div className="transport-bar__time">
           {currentTime.toFixed(1)}s / {duration.toFixed(1)}s
+          {loopSelecting && <span className="transport-bar__loop"> · Drag over measures to loop</span>}
+          {!loopSelecting && loopLabel && <span className="transport-bar__loop"> · Loop {loopLabel}</span>}
         </div>
         <input
           className="transport-bar__slider"
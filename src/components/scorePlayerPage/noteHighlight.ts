@@ -0,0 +1,73 @@
+// Current-note highlighting on the rendered score: OSMD noteheads indexed by
+// NoteEvent.noteId, so the note the selected voice is on can be coloured,
+// including every notehead of a tied chain (NoteEvent.tiedNoteIds).
+
+import type { OpenSheetMusicDisplay } from 'opensheetmusicdisplay'
+
+const HIGHLIGHT_CLASS = 'note-highlight'
+
+/**
+ * Notehead SVG elements of every rendered note, by the noteId the MusicXML
+ * parser gives it (part, measure, staff, written pitch and notated tick).
+ * Rebuild after every render: OSMD replaces the SVG.
+ */
+export function buildNoteheadIndex(osmd: OpenSheetMusicDisplay): Map<string, Element[]> {
+  const index = new Map<string, Element[]>()
+  const instruments = osmd.Sheet?.Instruments ?? []
+  const measureList = osmd.GraphicSheet?.MeasureList ?? []
+
+  measureList.forEach((staves, measureIndex) => {
+    for (const measure of staves ?? []) {
+      for (const staffEntry of measure?.staffEntries ?? []) {
+        for (const voiceEntry of staffEntry.graphicalVoiceEntries ?? []) {
+          for (const gn of voiceEntry.notes ?? []) {
+            const note = gn.sourceNote
+            if (!note || note.isRest()) continue
+            const part = instruments.indexOf(note.ParentStaff.ParentInstrument)
+            if (part < 0) continue
+            // halfTone counts from C0 = 0 in MusicXML octaves (C4 = 48)
+            const midi = note.halfTone + 12
+            const tick = Math.round(note.getAbsoluteTimestamp().RealValue * 480)
+            const id = `p${part}-m${measureIndex}-s${part}-p${midi}-t${tick}`
+            const heads: Element[] = (gn as any).getNoteheadSVGs?.() ?? []
+            if (heads.length === 0) continue
+            index.set(id, [...(index.get(id) ?? []), ...heads])
+          }
+        }
+      }
+    }
+  })
+  return index
+}
+
+/** Colours one note (all its noteIds) at a time. */
+export class NoteHighlighter {
+  private index = new Map<string, Element[]>()
+  private current: Element[] = []
+  private currentKey: string | null = null
+
+  setIndex(index: Map<string, Element[]>) {
+    this.clear()
+    this.index = index
+  }
+
+  highlight(noteIds: string[] | null) {
+    const key = noteIds ? noteIds.join(' ') : null
+    if (key === this.currentKey) return
+    this.clear()
+    this.currentKey = key
+    if (!noteIds) return
+    for (const id of noteIds) {
+      for (const el of this.index.get(id) ?? []) {
+        el.classList.add(HIGHLIGHT_CLASS)
+        this.current.push(el)
+      }
+    }
+  }
+
+  clear() {
+    for (const el of this.current) el.classList.remove(HIGHLIGHT_CLASS)
+    this.current = []
+    this.currentKey = null
+  }
+}
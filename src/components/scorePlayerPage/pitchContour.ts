@@ -0,0 +1,227 @@
+// Piano-roll lanes drawn in the gap under each rendered system: the selected
+// voice's target notes as bars and the sung pitch as a continuous curve, so
+// scoops, vibrato and drift are visible (not only the off-pitch trail marks).
+
+export type ContourNote = { midi: number; start: number; end: number }
+export type ContourCursorStep = { step: number; musicalTime: number }
+export type ContourCursorPosition = { step: number; left: number; top: number; height: number }
+
+export type PitchContourLayout = {
+  steps: ContourCursorStep[]
+  positions: ContourCursorPosition[]
+  // Timeline seconds -> notated musical time (same mapping as the playhead)
+  toMusicalTime: (timeSeconds: number) => number
+  notes: ContourNote[] // selected voice, sorted by start
+  laneHeight: number
+  // Distance kept between a lane and the system below it
+  clearanceBelow: number
+}
+
+type ContourSystem = { top: number; bottom: number; right: number; laneTop: number }
+type ContourPoint = { t: number; midi: number | null; cents: number }
+
+const RANGE_MARGIN_SEMITONES = 2
+const SYSTEM_RIGHT_PAD_PX = 24
+// Samples further apart than this (seconds or pixels) are not joined
+const MAX_JOIN_GAP_SEC = 0.25
+const MAX_JOIN_GAP_PX = 40
+
+const LANE_FILL = 'rgba(37, 99, 235, 0.05)'
+const TARGET_FILL = 'rgba(100, 116, 139, 0.45)'
+const COLOR_IN_TUNE = '#16a34a'
+const COLOR_OFF_PITCH = '#f97316'
+const COLOR_WRONG_NOTE = '#ef4444'
+const COLOR_NO_TARGET = '#64748b'
+
+export class PitchContourLanes {
+  private ctx: CanvasRenderingContext2D
+  private layout: PitchContourLayout
+  private systems: ContourSystem[] = []
+  private systemOfStep: number[] = []
+  private lo = 57
+  private hi = 72
+  private points: ContourPoint[] = []
+
+  constructor(ctx: CanvasRenderingContext2D, layout: PitchContourLayout) {
+    this.ctx = ctx
+    this.layout = layout
+    this.buildSystems()
+    this.buildRange()
+  }
+
+  /** Sung pitch at a timeline time; null (unvoiced) breaks the curve. */
+  addPoint(timeSeconds: number, exactMidi: number | null, inTuneCents: number) {
+    const prev = this.points[this.points.length - 1]
+    const point = { t: timeSeconds, midi: exactMidi, cents: inTuneCents }
+    this.points.push(point)
+    if (prev) this.drawSegment(prev, point)
+  }
+
+  /** Take over the curve sung so far (after a re-layout); call redraw() after. */
+  adoptPoints(from: PitchContourLanes) {
+    this.points = from.points
+  }
+
+  /** Drop the curve (keeps the target notes). */
+  clear() {
+    this.points = []
+    this.redraw()
+  }
+
+  /** Drop the curve from the given timeline time on. */
+  clearAfter(timeSeconds: number) {
+    this.points = this.points.filter(p => p.t < timeSeconds)
+    this.redraw()
+  }
+
+  redraw() {
+    const ctx = this.ctx
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+    this.drawLanes()
+    for (let i = 1; i < this.points.length; i++) this.drawSegment(this.points[i - 1], this.points[i])
+  }
+
+  private buildSystems() {
+    const { positions, laneHeight, clearanceBelow } = this.layout
+    const systems: ContourSystem[] = []
+    for (let i = 0; i < positions.length; i++) {
+      const p = positions[i]
+      let sys = systems[systems.length - 1]
+      if (!sys || Math.abs(p.top - sys.top) > 1) {
+        sys = { top: p.top, bottom: p.top + p.height, right: p.left, laneTop: 0 }
+        systems.push(sys)
+      }
+      sys.bottom = Math.max(sys.bottom, p.top + p.height)
+      sys.right = Math.max(sys.right, p.left + SYSTEM_RIGHT_PAD_PX)
+      this.systemOfStep[i] = systems.length - 1
+    }
+
+    // Lanes sit just above the next system (the extra spacing is added there);
+    // the last system reuses the offset of the one before it.
+    let lastOffset = clearanceBelow
+    for (let k = 0; k < systems.length; k++) {
+      const next = systems[k + 1]
+      if (next) {
+        systems[k].laneTop = Math.max(systems[k].bottom, next.top - clearanceBelow - laneHeight)
+        lastOffset = systems[k].laneTop - systems[k].bottom
+      } else {
+        systems[k].laneTop = systems[k].bottom + lastOffset
+      }
+    }
+    this.systems = systems
+  }
+
+  private buildRange() {
+    let lo = Infinity
+    let hi = -Infinity
+    for (const n of this.layout.notes) {
+      lo = Math.min(lo, n.midi)
+      hi = Math.max(hi, n.midi)
+    }
+    if (!Number.isFinite(lo)) return
+    this.lo = lo - RANGE_MARGIN_SEMITONES
+    this.hi = hi + RANGE_MARGIN_SEMITONES
+  }
+
+  // Horizontal position of a timeline time, interpolated between cursor steps
+  // of the same system (towards the system end on its last step).
+  private locate(timeSeconds: number): { system: number; x: number } | null {
+    const { steps, positions } = this.layout
+    if (!steps.length || !positions.length) return null
+    const m = this.layout.toMusicalTime(timeSeconds)
+
+    let lo = 0
+    let hi = Math.min(steps.length, positions.length) - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (steps[mid].musicalTime <= m) lo = mid
+      else hi = mid - 1
+    }
+    const pos = positions[lo]
+    const system = this.systemOfStep[lo]
+    const next = positions[lo + 1]
+    const span = next ? steps[lo + 1].musicalTime - steps[lo].musicalTime : 0
+    if (!next || span <= 0) return { system, x: pos.left }
+
+    const progress = Math.max(0, Math.min(1, (m - steps[lo].musicalTime) / span))
+    const endX = this.systemOfStep[lo + 1] === system ? next.left : this.systems[system].right
+    return { system, x: pos.left + (endX - pos.left) * progress }
+  }
+
+  private yForMidi(system: ContourSystem, midi: number): number {
+    const h = this.layout.laneHeight
+    const clamped = Math.max(this.lo, Math.min(this.hi, midi))
+    return system.laneTop + ((this.hi - clamped) / (this.hi - this.lo)) * h
+  }
+
+  private drawLanes() {
+    const ctx = this.ctx
+    const h = this.layout.laneHeight
+    const firstLeft = this.layout.positions[0]?.left ?? 0
+    ctx.fillStyle = LANE_FILL
+    for (const s of this.systems) ctx.fillRect(firstLeft - 8, s.laneTop, s.right - firstLeft + 8, h)
+
+    const noteH = Math.max(2, Math.min(8, h / (this.hi - this.lo)))
+    ctx.fillStyle = TARGET_FILL
+    for (const n of this.layout.notes) {
+      const a = this.locate(n.start)
+      const b = this.locate(Math.max(n.start, n.end - 0.001))
+      if (!a || !b) continue
+      const sys = this.systems[a.system]
+      const y = this.yForMidi(sys, n.midi) - noteH / 2
+      if (a.system === b.system && b.x >= a.x) {
+        ctx.fillRect(a.x, y, Math.max(2, b.x - a.x), noteH)
+      } else {
+        // Note held across a system break (or a repeat jump): draw both ends
+        ctx.fillRect(a.x, y, Math.max(2, sys.right - a.x), noteH)
+        const sysB = this.systems[b.system]
+        const startLeft = this.layout.positions[this.systemOfStep.indexOf(b.system)]?.left ?? b.x
+        if (b.x > startLeft) ctx.fillRect(startLeft, this.yForMidi(sysB, n.midi) - noteH / 2, b.x - startLeft, noteH)
+      }
+    }
+  }
+
+  // Target notes sounding at t (chords allowed); the one nearest the sung pitch wins.
+  private centsFromTarget(t: number, midi: number): number | null {
+    const notes = this.layout.notes
+    let lo = 0
+    let hi = notes.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (notes[mid].start <= t) lo = mid + 1
+      else hi = mid
+    }
+    let best: number | null = null
+    for (let i = lo - 1; i >= 0 && i >= lo - 8; i--) {
+      const n = notes[i]
+      if (t >= n.end) continue
+      const cents = (midi - n.midi) * 100
+      if (best == null || Math.abs(cents) < Math.abs(best)) best = cents
+    }
+    return best
+  }
+
+  private drawSegment(a: ContourPoint, b: ContourPoint) {
+    if (a.midi == null || b.midi == null) return
+    if (b.t <= a.t || b.t - a.t > MAX_JOIN_GAP_SEC) return
+    const pa = this.locate(a.t)
+    const pb = this.locate(b.t)
+    if (!pa || !pb || pa.system !== pb.system) return
+    if (pb.x < pa.x || pb.x - pa.x > MAX_JOIN_GAP_PX) return
+
+    const sys = this.systems[pa.system]
+    const cents = this.centsFromTarget(b.t, b.midi)
+    const ctx = this.ctx
+    ctx.strokeStyle =
+      cents == null ? COLOR_NO_TARGET
+        : Math.abs(cents) <= b.cents ? COLOR_IN_TUNE
+          : Math.abs(cents) < 100 ? COLOR_OFF_PITCH
+            : COLOR_WRONG_NOTE
+    ctx.lineWidth = 2
+    ctx.lineCap = 'round'
+    ctx.beginPath()
+    ctx.moveTo(pa.x, this.yForMidi(sys, a.midi))
+    ctx.lineTo(pb.x, this.yForMidi(sys, b.midi))
+    ctx.stroke()
+  }
+}
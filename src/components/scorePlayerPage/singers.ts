@@ -0,0 +1,160 @@
+// Multi-singer mode: with a multichannel audio interface every input channel is
+// one singer assigned to a voice. The worklet runs a detector per channel and
+// each singer's mistakes are marked on the score in their own colour.
+
+import type { VoiceId } from '../../types/ScoreTimeline'
+
+export const MAX_SINGER_CHANNELS = 8
+
+// Voice per input channel (index = channel), null = channel not used
+export type SingerAssignments = Array<VoiceId | null>
+
+export type SingerNote = { midi: number; start: number; end: number }
+
+export type SingerJudgement =
+  | { kind: 'inTune' }
+  | { kind: 'offPitch' | 'wrongNote'; absCents: number }
+  | { kind: 'unreliable' }
+
+const SINGER_COLORS: Array<[number, number, number]> = [
+  [37, 99, 235],   // blue
+  [219, 39, 119],  // pink
+  [22, 163, 74],   // green
+  [234, 88, 12],   // orange
+  [124, 58, 237],  // violet
+  [8, 145, 178],   // cyan
+  [202, 138, 4],   // amber
+  [71, 85, 105]    // slate
+]
+
+// Same hysteresis as the single-singer transition gate
+const TRANSITION_START_CENTS = 50
+const TRANSITION_STOP_CENTS = 30
+
+export function emptySingerAssignments(): SingerAssignments {
+  return new Array<VoiceId | null>(MAX_SINGER_CHANNELS).fill(null)
+}
+
+export function singerColor(channel: number, alpha = 1): string {
+  const [r, g, b] = SINGER_COLORS[channel % SINGER_COLORS.length]
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`
+}
+
+// Input channels that have a voice, in channel order
+export function activeSingerChannels(assignments: SingerAssignments): number[] {
+  const out: number[] = []
+  assignments.forEach((voice, channel) => {
+    if (voice) out.push(channel)
+  })
+  return out
+}
+
+// The singer who drives the tuner, take scoring and contour for `voice`: the
+// first input channel assigned to it (-1 if none)
+export function leadSingerChannel(assignments: SingerAssignments, voice: VoiceId | null): number {
+  return voice ? assignments.indexOf(voice) : -1
+}
+
+/**
+ * Judge one sung frame against a voice the way the single-singer trail does:
+ * the nearest semitone must be one of the voice's notes within ±windowSec,
+ * otherwise it is a wrong note (or, within 90 cents of an allowed note, off
+ * pitch). About an octave or more from every allowed note is unreliable.
+ */
+export function judgeSungPitch(
+  notes: SingerNote[],
+  pitchTime: number,
+  exactMidi: number,
+  windowSec: number,
+  thresholdCents: number
+): SingerJudgement {
+  const nearest = Math.round(exactMidi)
+  const intonation = Math.abs((exactMidi - nearest) * 100)
+  const startT = pitchTime - windowSec
+  const endT = pitchTime + windowSec
+
+  // Notes are sorted by start: find the first one after the window, then walk
+  // back until notes end before it (as the single-singer window check does).
+  let right = 0
+  let hi = notes.length
+  while (right < hi) {
+    const mid = (right + hi) >> 1
+    if (notes[mid].start <= endT) right = mid + 1
+    else hi = mid
+  }
+
+  let allowed = notes.length === 0
+  let closest = Infinity
+  for (let k = right - 1; k >= 0 && notes[k].end >= startT; k--) {
+    const n = notes[k]
+    closest = Math.min(closest, Math.abs((exactMidi - n.midi) * 100))
+    if (n.midi === nearest) allowed = true
+  }
+
+  let absCents: number
+  if (allowed) absCents = intonation
+  else if (closest < 90) absCents = closest
+  else if (closest >= 1000) return { kind: 'unreliable' }
+  else return { kind: 'wrongNote', absCents: thresholdCents + 100 }
+
+  return absCents >= thresholdCents ? { kind: 'offPitch', absCents } : { kind: 'inTune' }
+}
+
+/**
+ * Per-singer trail state: transition hysteresis, the consecutive-frame
+ * confirmation gate (2 frames off pitch, 3 wrong note) and the draw throttle.
+ */
+export class SingerTrail {
+  lastDrawMs = 0
+  lastX: number | null = null
+  private lastExactMidi: number | null = null
+  private inTransition = false
+  private count = 0
+  private confirmed = false
+  private lastKind: 'offPitch' | 'wrongNote' | null = null
+
+  /** Feed the sung pitch (null when unvoiced); true while it is moving between notes. */
+  updateTransition(exactMidi: number | null): boolean {
+    const prev = this.lastExactMidi
+    this.lastExactMidi = exactMidi
+    if (exactMidi == null || prev == null) {
+      this.inTransition = true
+    } else {
+      const delta = Math.abs((exactMidi - prev) * 100)
+      this.inTransition = this.inTransition ? delta >= TRANSITION_STOP_CENTS : delta > TRANSITION_START_CENTS
+    }
+    return this.inTransition
+  }
+
+  /** Feed a judged frame; true once the mistake is confirmed and should be drawn. */
+  confirm(judgement: SingerJudgement): boolean {
+    if (judgement.kind !== 'offPitch' && judgement.kind !== 'wrongNote') {
+      this.resetConfirmation()
+      return false
+    }
+    if (this.lastKind !== judgement.kind) {
+      this.lastKind = judgement.kind
+      this.count = 0
+      this.confirmed = false
+    }
+    if (!this.confirmed) {
+      this.count += 1
+      this.confirmed = this.count >= (judgement.kind === 'wrongNote' ? 3 : 2)
+    }
+    return this.confirmed
+  }
+
+  resetConfirmation() {
+    this.count = 0
+    this.confirmed = false
+    this.lastKind = null
+  }
+
+  reset() {
+    this.resetConfirmation()
+    this.lastExactMidi = null
+    this.inTransition = false
+    this.lastDrawMs = 0
+    this.lastX = null
+  }
+}
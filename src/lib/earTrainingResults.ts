@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ExerciseResult, TrainerDifficulty, TrainerExercise, TrainerMode } from '../audio/earTraining'
+
+export type EarTrainingResultRow = {
+  id: string
+  mode: TrainerMode
+  difficulty: TrainerDifficulty
+  prompt: string
+  target_midis: number[]
+  sung_midis: Array<number | null>
+  notes_passed: boolean[]
+  passed: boolean
+  mean_abs_cents: number | null
+  created_at: string
+}
+
+export type EarTrainingSummary = {
+  mode: TrainerMode
+  difficulty: TrainerDifficulty
+  attempts: number
+  passed: number
+}
+
+/**
+ * Store one graded exercise for the signed-in user. Returns false (without
+ * throwing) when nobody is signed in.
+ */
+export async function recordEarTrainingResult(
+  supabase: SupabaseClient,
+  exercise: TrainerExercise,
+  difficulty: TrainerDifficulty,
+  result: ExerciseResult
+): Promise<boolean> {
+  const { data } = await supabase.auth.getSession()
+  const userId = data.session?.user?.id
+  if (!userId) return false
+
+  const { error } = await supabase.from('ear_training_results').insert({
+    user_id: userId,
+    mode: exercise.mode,
+    difficulty,
+    prompt: exercise.prompt,
+    target_midis: exercise.targets,
+    sung_midis: result.notes.map((n) => (n.sungMidi != null ? Math.round(n.sungMidi * 100) / 100 : null)),
+    notes_passed: result.notes.map((n) => n.passed),
+    passed: result.passed,
+    mean_abs_cents: result.meanAbsCents != null ? Math.round(result.meanAbsCents) : null,
+  })
+  if (error) throw error
+  return true
+}
+
+/**
+ * The signed-in user's results, newest first.
+ */
+export async function listEarTrainingResults(supabase: SupabaseClient, limit = 500): Promise<EarTrainingResultRow[]> {
+  const { data, error } = await supabase
+    .from('ear_training_results')
+    .select('id,mode,difficulty,prompt,target_midis,sung_midis,notes_passed,passed,mean_abs_cents,created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw error
+  return (data ?? []) as EarTrainingResultRow[]
+}
+
+// Attempts and passes per mode and difficulty (only combinations that were practised)
+export function summarizeEarTraining(rows: EarTrainingResultRow[]): EarTrainingSummary[] {
+  const byKey = new Map<string, EarTrainingSummary>()
+  for (const row of rows) {
+    const key = `${row.mode}:${row.difficulty}`
+    const s = byKey.get(key) ?? { mode: row.mode, difficulty: row.difficulty, attempts: 0, passed: 0 }
+    s.attempts += 1
+    if (row.passed) s.passed += 1
+    byKey.set(key, s)
+  }
+  return Array.from(byKey.values())
+}
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseWarmupRoutine, WarmupRoutine } from '../utils/warmupGenerator'
+
+export type GroupWarmup = {
+  id: string
+  name: string
+  routine: WarmupRoutine
+  updated_at: string
+}
+
+/**
+ * Link that opens a routine in the score player. The routine travels in the
+ * URL so local (unsaved) routines play the same way as group ones.
+ */
+export function warmupPlayHref(routine: WarmupRoutine): string {
+  return `/play?warmup=${encodeURIComponent(JSON.stringify(routine))}&title=${encodeURIComponent(routine.name)}`
+}
+
+// Rows whose routine no longer validates (e.g. a removed pattern) are skipped.
+function toGroupWarmup(row: any): GroupWarmup | null {
+  const routine = parseWarmupRoutine({ ...row.routine, name: row.name })
+  if (!routine) return null
+  return { id: row.id, name: row.name, routine, updated_at: row.updated_at }
+}
+
+export async function listGroupWarmups(supabase: SupabaseClient, groupId: string): Promise<GroupWarmup[]> {
+  const { data, error } = await supabase
+    .from('group_warmups')
+    .select('id,name,routine,updated_at')
+    .eq('group_id', groupId)
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return (data ?? []).map(toGroupWarmup).filter((w): w is GroupWarmup => w != null)
+}
+
+export async function getGroupWarmup(supabase: SupabaseClient, groupId: string, id: string): Promise<GroupWarmup | null> {
+  const { data, error } = await supabase
+    .from('group_warmups')
+    .select('id,name,routine,updated_at')
+    .eq('group_id', groupId)
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw error
+  return data ? toGroupWarmup(data) : null
+}
+
+/**
+ * Publish a routine to the group (admins only, enforced by RLS). Updates the
+ * warm-up `id` when given, otherwise adds a new one. Returns its id.
+ */
+export async function saveGroupWarmup(
+  supabase: SupabaseClient,
+  groupId: string,
+  routine: WarmupRoutine,
+  id?: string | null
+): Promise<string> {
+  const { name, ...rest } = routine
+  if (id) {
+    const { error } = await supabase
+      .from('group_warmups')
+      .update({ name, routine: rest, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('group_id', groupId)
+    if (error) throw error
+    return id
+  }
+
+  const { data: sessionData } = await supabase.auth.getSession()
+  const userId = sessionData.session?.user?.id
+  if (!userId) throw new Error('Not signed in')
+  const { data, error } = await supabase
+    .from('group_warmups')
+    .insert({ group_id: groupId, name, routine: rest, created_by: userId })
+    .select('id')
+    .single()
+  if (error) throw error
+  return data.id as string
+}
+
+export async function deleteGroupWarmup(supabase: SupabaseClient, groupId: string, id: string): Promise<void> {
+  const { error } = await supabase.from('group_warmups').delete().eq('id', id).eq('group_id', groupId)
+  if (error) throw error
+}
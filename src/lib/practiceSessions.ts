@@ -0,0 +1,106 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { TakeReport } from '../audio/TakeScorer'
+
+// Which piece a session belongs to: a group score, or a local file by content hash.
+export type PracticeScoreRef = { groupScoreId: string } | { fileHash: string }
+
+export type PracticeMeasureSummary = {
+  measure: number
+  pass: number
+  inTune: number
+  wrong: number
+}
+
+export type PracticeSessionRow = {
+  id: string
+  group_score_id: string | null
+  file_hash: string | null
+  score_title: string | null
+  voice: string
+  voice_label: string | null
+  tempo_multiplier: number
+  difficulty: string
+  in_tune_fraction: number
+  wrong_note_fraction: number
+  mean_cents: number | null
+  measures: PracticeMeasureSummary[]
+  duration_seconds: number
+  created_at: string
+}
+
+export type PracticeSessionContext = {
+  score: PracticeScoreRef
+  scoreTitle: string | null
+  voiceLabel: string | null
+  tempoMultiplier: number
+  difficulty: string
+  durationSeconds: number
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100
+
+/**
+ * SHA-256 of the score content (hex). Identifies locally opened files across sessions.
+ */
+export async function hashScoreContent(content: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : new Uint8Array(content)
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Store one scored take for the signed-in user. Returns false (without
+ * throwing) when nobody is signed in.
+ */
+export async function recordPracticeSession(
+  supabase: SupabaseClient,
+  report: TakeReport,
+  ctx: PracticeSessionContext
+): Promise<boolean> {
+  const { data } = await supabase.auth.getSession()
+  const userId = data.session?.user?.id
+  if (!userId) return false
+
+  const measures: PracticeMeasureSummary[] = report.measures
+    .slice()
+    .sort((a, b) => a.startTimeSeconds - b.startTimeSeconds)
+    .map((m) => ({ measure: m.measureIndex, pass: m.pass, inTune: round2(m.inTuneFraction), wrong: round2(m.wrongNoteFraction) }))
+
+  const { error } = await supabase.from('practice_sessions').insert({
+    user_id: userId,
+    group_score_id: 'groupScoreId' in ctx.score ? ctx.score.groupScoreId : null,
+    file_hash: 'fileHash' in ctx.score ? ctx.score.fileHash : null,
+    score_title: ctx.scoreTitle,
+    voice: report.voice,
+    voice_label: ctx.voiceLabel,
+    tempo_multiplier: ctx.tempoMultiplier,
+    difficulty: ctx.difficulty,
+    in_tune_fraction: round2(report.inTuneFraction),
+    wrong_note_fraction: round2(report.wrongNoteFraction),
+    mean_cents: report.meanCents != null ? Math.round(report.meanCents) : null,
+    measures,
+    duration_seconds: Math.round(ctx.durationSeconds),
+  })
+  if (error) throw error
+  return true
+}
+
+/**
+ * The signed-in user's sessions, newest first.
+ */
+export async function listPracticeSessions(supabase: SupabaseClient, limit = 500): Promise<PracticeSessionRow[]> {
+  const { data, error } = await supabase
+    .from('practice_sessions')
+    .select(
+      'id,group_score_id,file_hash,score_title,voice,voice_label,tempo_multiplier,difficulty,in_tune_fraction,wrong_note_fraction,mean_cents,measures,duration_seconds,created_at'
+    )
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw error
+  return (data ?? []) as PracticeSessionRow[]
+}
+
+// Stable key for grouping sessions per piece
+export function practicePieceKey(row: Pick<PracticeSessionRow, 'group_score_id' | 'file_hash'>): string {
+  return row.group_score_id ? `score:${row.group_score_id}` : `file:${row.file_hash}`
+}
@@ -10,9 +10,11 @@ export interface NoteEvent {
   startTimeSeconds: number;   // when the note starts, in seconds from piece start
   durationSeconds: number;    // note duration in seconds
   midiPitch: number;          // t.ex. 60 = C4
-  startWhole: number;         // musical time in whole notes (for OSMD sync)
-  endWhole: number;           // end time in whole notes
+  startWhole: number;         // notated musical time in whole notes (for OSMD sync)
+  endWhole: number;           // notated end time in whole notes
   noteId: string;             // stable ID for OSMD SVG mapping
+  pass?: number;              // 1-based play-through of this measure (repeats, D.C./D.S.)
+  tiedNoteIds?: string[];     // all noteIds of a tied chain merged into this event (first = noteId)
   
   // OSMD GraphicalNote metadata for exact note matching
   measureIndex?: number;      // Measure index in OSMD
@@ -20,8 +22,32 @@ export interface NoteEvent {
   noteIndexInMeasure?: number; // Note index within the measure
 }
 
+// One constant-tempo stretch of the piece. Segments are sorted by startWhole and
+// the first one always starts at 0, so every musical position maps to exactly one.
+// Positions are in performed musical time (repeats unrolled), not notated time.
+export interface TempoSegment {
+  startWhole: number;         // musical time in whole notes where this tempo begins
+  startTimeSeconds: number;   // same position in seconds from piece start
+  tempoBpm: number;           // quarter notes per minute
+}
+
+// One measure in performance order (repeats, voltas and jumps unrolled).
+export interface PerformedMeasure {
+  measureIndex: number;       // notated measure index (as in NoteEvent.measureIndex)
+  pass: number;               // 1-based play-through of this measure
+  startWhole: number;         // performed musical time in whole notes
+  sourceStartWhole: number;   // notated musical time in whole notes (for OSMD sync)
+  durationWhole: number;
+  startTimeSeconds: number;
+  endTimeSeconds: number;
+  beats: number;              // time signature numerator in effect
+  beatType: number;           // time signature denominator in effect
+}
+
 export interface ScoreTimeline {
-  notes: NoteEvent[];
+  notes: NoteEvent[];         // in performance order; repeated measures appear once per pass
   totalDurationSeconds: number;
-  tempoBpm: number;
+  tempoBpm: number;           // initial tempo (first segment)
+  tempoSegments: TempoSegment[];
+  measures: PerformedMeasure[];
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { ScoreTimeline } from '../types/ScoreTimeline';
+import { findPerformedMeasureIndex } from './performanceOrder';
+import { tempoAtSeconds, wholeToSeconds } from './tempoMap';
+
+export interface Click {
+  timeSeconds: number; // timeline seconds
+  accent: boolean;     // downbeat of a bar
+}
+
+/**
+ * Length of one metronome beat in whole notes for a time signature.
+ * Compound meters (6/8, 9/8, 12/8, ...) click on the dotted beat.
+ */
+export function clickUnitWhole(beats: number, beatType: number): number {
+  const isCompound = beatType >= 8 && beats > 3 && beats % 3 === 0;
+  return isCompound ? 3 / beatType : 1 / beatType;
+}
+
+/**
+ * Metronome clicks for the whole timeline, in performance order.
+ * An incomplete first measure (pickup) is aligned to the end of the bar, so a
+ * one-beat anacrusis clicks on the last beat and gets no accent. Other short
+ * measures, like the final bar that completes the anacrusis, start on the
+ * downbeat.
+ */
+export function buildClickTrack(timeline: ScoreTimeline): Click[] {
+  const clicks: Click[] = [];
+
+  timeline.measures.forEach((m, i) => {
+    const unit = clickUnitWhole(m.beats, m.beatType);
+    const fullBar = m.beats / m.beatType;
+    if (unit <= 0 || m.durationWhole <= 0) return;
+
+    // Position of this measure's start within a full bar (>0 for a pickup)
+    const barOffset = i === 0 ? Math.max(0, fullBar - m.durationWhole) : 0;
+    const firstBeat = Math.ceil(barOffset / unit - 1e-9);
+
+    for (let k = firstBeat; k * unit < fullBar - 1e-9; k++) {
+      const within = k * unit - barOffset;
+      if (within >= m.durationWhole - 1e-9) break;
+      clicks.push({
+        timeSeconds: wholeToSeconds(timeline.tempoSegments, m.startWhole + within),
+        accent: k === 0
+      });
+    }
+  });
+
+  return clicks;
+}
+
+/**
+ * Count-in clicks for `bars` bars ending right before timeline time `atSeconds`,
+ * using the time signature and tempo in effect there. Returned times are
+ * seconds *before* the start (real time, not yet scaled by a tempo multiplier),
+ * in ascending order, e.g. [-2, -1.5, -1, -0.5] for one 4/4 bar at 120 BPM.
+ */
+export function buildCountIn(timeline: ScoreTimeline, atSeconds: number, bars: number): Array<{ offsetSeconds: number; accent: boolean }> {
+  if (bars <= 0) return [];
+
+  const idx = findPerformedMeasureIndex(timeline.measures, atSeconds);
+  const m = idx >= 0 ? timeline.measures[idx] : null;
+  const beats = m?.beats ?? 4;
+  const beatType = m?.beatType ?? 4;
+
+  const unit = clickUnitWhole(beats, beatType);
+  const perBar = Math.max(1, Math.round((beats / beatType) / unit));
+  const beatSec = (unit * 240) / tempoAtSeconds(timeline.tempoSegments, atSeconds);
+
+  const total = perBar * bars;
+  const out: Array<{ offsetSeconds: number; accent: boolean }> = [];
+  for (let i = 0; i < total; i++) {
+    out.push({ offsetSeconds: -(total - i) * beatSec, accent: i % perBar === 0 });
+  }
+  return out;
+}
@@ -0,0 +1,131 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { ScoreTimeline, VoiceId } from '../types/ScoreTimeline';
+import { effectiveVoiceGain, VoiceMixerSettings } from '../audio/ScorePlayer';
+import { secondsToWhole } from './tempoMap';
+
+const TICKS_PER_QUARTER = 480;
+const CHOIR_AAHS_PROGRAM = 52; // General MIDI "Choir Aahs" (0-based)
+
+export interface MidiExportOptions {
+  voiceLabel?: (voice: VoiceId) => string;
+  // When given, written as channel volume (CC7) and pan (CC10) per track.
+  mixer?: Record<VoiceId, VoiceMixerSettings>;
+}
+
+type TrackEvent = { tick: number; order: number; bytes: number[] };
+
+function varint(value: number): number[] {
+  let v = Math.max(0, Math.floor(value));
+  const out = [v & 0x7f];
+  v >>>= 7;
+  while (v > 0) {
+    out.unshift((v & 0x7f) | 0x80);
+    v >>>= 7;
+  }
+  return out;
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(new TextEncoder().encode(text));
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...varint(data.length), ...data];
+}
+
+function trackChunk(events: TrackEvent[]): number[] {
+  events.sort((a, b) => (a.tick - b.tick) || (a.order - b.order));
+  const data: number[] = [];
+  let last = 0;
+  for (const e of events) {
+    data.push(...varint(e.tick - last), ...e.bytes);
+    last = e.tick;
+  }
+  data.push(...varint(0), ...metaEvent(0x2f, []));
+  const len = data.length;
+  return [0x4d, 0x54, 0x72, 0x6b, (len >>> 24) & 0xff, (len >>> 16) & 0xff, (len >>> 8) & 0xff, len & 0xff, ...data];
+}
+
+/**
+ * Write a timeline as a format 1 Standard MIDI File: a conductor track with
+ * the tempo map and time signatures, then one track (and channel) per voice.
+ * Times follow the performed timeline, so repeats appear unrolled.
+ */
+export function exportTimelineToMidi(timeline: ScoreTimeline, options?: MidiExportOptions): ArrayBuffer {
+  const toTick = (seconds: number) =>
+    Math.round(secondsToWhole(timeline.tempoSegments, seconds) * 4 * TICKS_PER_QUARTER);
+
+  // Conductor track
+  const conductor: TrackEvent[] = [];
+  for (const seg of timeline.tempoSegments) {
+    const usPerQuarter = Math.round(60_000_000 / seg.tempoBpm);
+    conductor.push({
+      tick: Math.round(seg.startWhole * 4 * TICKS_PER_QUARTER),
+      order: 0,
+      bytes: metaEvent(0x51, [(usPerQuarter >> 16) & 0xff, (usPerQuarter >> 8) & 0xff, usPerQuarter & 0xff])
+    });
+  }
+  let prevSig = '';
+  for (const m of timeline.measures) {
+    const sig = `${m.beats}/${m.beatType}`;
+    const denomPower = Math.round(Math.log2(m.beatType));
+    if (sig === prevSig || m.beats <= 0 || 2 ** denomPower !== m.beatType) continue;
+    prevSig = sig;
+    conductor.push({
+      tick: Math.round(m.startWhole * 4 * TICKS_PER_QUARTER),
+      order: 1,
+      bytes: metaEvent(0x58, [m.beats, denomPower, 24, 8])
+    });
+  }
+
+  const voices = Array.from(new Set(timeline.notes.map(n => n.voice)));
+  const mixer = options?.mixer;
+  const hasSolo = mixer ? voices.some(v => mixer[v]?.solo) : false;
+
+  const tracks: number[][] = [trackChunk(conductor)];
+  voices.forEach((voice, i) => {
+    // Skip the GM percussion channel; voices beyond 15 share the last channel.
+    const channel = Math.min(i < 9 ? i : i + 1, 15);
+    const events: TrackEvent[] = [
+      { tick: 0, order: 0, bytes: metaEvent(0x03, textBytes(options?.voiceLabel?.(voice) ?? voice)) },
+      { tick: 0, order: 1, bytes: [0xc0 | channel, CHOIR_AAHS_PROGRAM] }
+    ];
+
+    const settings = mixer?.[voice];
+    if (settings) {
+      const volume = Math.round(effectiveVoiceGain(voice, settings, hasSolo) * 127);
+      const pan = Math.round(64 + Math.max(-1, Math.min(1, settings.pan ?? 0)) * 63);
+      events.push({ tick: 0, order: 2, bytes: [0xb0 | channel, 7, volume] });
+      events.push({ tick: 0, order: 2, bytes: [0xb0 | channel, 10, pan] });
+    }
+
+    for (const n of timeline.notes) {
+      if (n.voice !== voice) continue;
+      const pitch = Math.max(0, Math.min(127, Math.round(n.midiPitch)));
+      const start = toTick(n.startTimeSeconds);
+      const end = Math.max(start + 1, toTick(n.startTimeSeconds + n.durationSeconds));
+      // At equal ticks note-offs come first, so repeated pitches re-strike cleanly.
+      events.push({ tick: start, order: 4, bytes: [0x90 | channel, pitch, 80] });
+      events.push({ tick: end, order: 3, bytes: [0x80 | channel, pitch, 0] });
+    }
+    tracks.push(trackChunk(events));
+  });
+
+  const header = [
+    0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6,
+    0, 1,                                          // format 1
+    (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+    (TICKS_PER_QUARTER >> 8) & 0xff, TICKS_PER_QUARTER & 0xff
+  ];
+  const out = new Uint8Array(header.length + tracks.reduce((sum, t) => sum + t.length, 0));
+  out.set(header, 0);
+  let offset = header.length;
+  for (const t of tracks) {
+    out.set(t, offset);
+    offset += t.length;
+  }
+  return out.buffer;
+}
@@ -0,0 +1,293 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { NoteEvent, PerformedMeasure, ScoreTimeline, VoiceId } from '../types/ScoreTimeline';
+import { PartMetadata } from './musicXmlParser';
+import { buildTempoSegments, TempoChange, wholeToSeconds } from './tempoMap';
+
+const PERCUSSION_CHANNEL = 9; // General MIDI channel 10: no pitched notes
+const SMF_DEFAULT_TEMPO_BPM = 120; // tempo before the first Set Tempo event
+
+export function isMidiFileName(name: string): boolean {
+  return /\.(mid|midi|smf)$/i.test(name);
+}
+
+type RawNote = { track: number; channel: number; pitch: number; startTick: number; endTick: number };
+
+type ParsedMidi = {
+  ticksPerQuarter: number;
+  notes: RawNote[];
+  tempos: Array<{ tick: number; tempoBpm: number }>;
+  timeSignatures: Array<{ tick: number; beats: number; beatType: number }>;
+  trackNames: string[];
+};
+
+class MidiReader {
+  private view: DataView;
+  pos: number;
+
+  constructor(view: DataView, pos = 0) {
+    this.view = view;
+    this.pos = pos;
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.pos++);
+  }
+
+  u16(): number {
+    const v = this.view.getUint16(this.pos);
+    this.pos += 2;
+    return v;
+  }
+
+  u32(): number {
+    const v = this.view.getUint32(this.pos);
+    this.pos += 4;
+    return v;
+  }
+
+  tag(): string {
+    let s = '';
+    for (let i = 0; i < 4; i++) s += String.fromCharCode(this.u8());
+    return s;
+  }
+
+  // Variable-length quantity (7 bits per byte, high bit = more)
+  varint(): number {
+    let v = 0;
+    for (let i = 0; i < 4; i++) {
+      const b = this.u8();
+      v = (v << 7) | (b & 0x7f);
+      if (!(b & 0x80)) break;
+    }
+    return v;
+  }
+
+  text(length: number): string {
+    const bytes = new Uint8Array(this.view.buffer, this.view.byteOffset + this.pos, length);
+    this.pos += length;
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      return new TextDecoder('latin1').decode(bytes);
+    }
+  }
+}
+
+/**
+ * Read a Standard MIDI File (format 0 or 1) into raw notes and meta events.
+ */
+function parseSmf(buffer: ArrayBuffer): ParsedMidi {
+  const r = new MidiReader(new DataView(buffer));
+  if (buffer.byteLength < 14 || r.tag() !== 'MThd') throw new Error('Inte en MIDI-fil (MThd saknas)');
+
+  const headerLength = r.u32();
+  r.u16(); // format: 0 and 1 are read the same way, 2 is rare enough to treat likewise
+  const trackCount = r.u16();
+  const division = r.u16();
+  if (division & 0x8000) throw new Error('MIDI-filer med SMPTE-tidbas stöds inte');
+  r.pos = 8 + headerLength;
+
+  const parsed: ParsedMidi = {
+    ticksPerQuarter: division || 480,
+    notes: [],
+    tempos: [],
+    timeSignatures: [],
+    trackNames: []
+  };
+
+  for (let track = 0; track < trackCount && r.pos + 8 <= buffer.byteLength; track++) {
+    const tag = r.tag();
+    const length = r.u32();
+    const end = Math.min(buffer.byteLength, r.pos + length);
+    if (tag !== 'MTrk') {
+      r.pos = end;
+      track--;
+      continue;
+    }
+
+    // Sounding notes per channel+pitch (a FIFO queue, so re-struck notes pair up in order)
+    const open = new Map<number, number[]>();
+    let tick = 0;
+    let runningStatus = 0;
+    let name = '';
+
+    while (r.pos < end) {
+      tick += r.varint();
+      let status = r.u8();
+      if (status < 0x80) {
+        // Running status: reuse the previous status byte
+        status = runningStatus;
+        r.pos--;
+      }
+
+      if (status === 0xff) {
+        const type = r.u8();
+        const len = r.varint();
+        const next = r.pos + len;
+        if (type === 0x51 && len >= 3) {
+          const usPerQuarter = (r.u8() << 16) | (r.u8() << 8) | r.u8();
+          if (usPerQuarter > 0) parsed.tempos.push({ tick, tempoBpm: 60_000_000 / usPerQuarter });
+        } else if (type === 0x58 && len >= 2) {
+          const beats = r.u8();
+          const beatType = Math.pow(2, r.u8());
+          if (beats > 0) parsed.timeSignatures.push({ tick, beats, beatType });
+        } else if ((type === 0x03 || (type === 0x04 && !name)) && len > 0) {
+          name = r.text(len).trim();
+        } else if (type === 0x2f) {
+          r.pos = next;
+          break;
+        }
+        r.pos = next;
+        continue;
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        // Sysex: read the length first (varint() moves pos past its own bytes)
+        const len = r.varint();
+        r.pos += len;
+        continue;
+      }
+
+      runningStatus = status;
+      const kind = status & 0xf0;
+      const channel = status & 0x0f;
+
+      if (kind === 0x90 || kind === 0x80) {
+        const pitch = r.u8();
+        const velocity = r.u8();
+        const key = channel * 128 + pitch;
+        if (kind === 0x90 && velocity > 0) {
+          const stack = open.get(key) ?? [];
+          stack.push(tick);
+          open.set(key, stack);
+        } else {
+          const startTick = open.get(key)?.shift();
+          if (startTick != null && tick > startTick && channel !== PERCUSSION_CHANNEL) {
+            parsed.notes.push({ track, channel, pitch, startTick, endTick: tick });
+          }
+        }
+      } else if (kind === 0xc0 || kind === 0xd0) {
+        r.pos += 1;
+      } else {
+        r.pos += 2;
+      }
+    }
+
+    // Notes still held at the end of the track end there
+    for (const [key, starts] of open) {
+      const channel = Math.floor(key / 128);
+      if (channel === PERCUSSION_CHANNEL) continue;
+      for (const startTick of starts) {
+        if (tick > startTick) parsed.notes.push({ track, channel, pitch: key % 128, startTick, endTick: tick });
+      }
+    }
+
+    parsed.trackNames[track] = name;
+    r.pos = end;
+  }
+
+  return parsed;
+}
+
+/**
+ * Build a ScoreTimeline from a Standard MIDI File. Each track with notes
+ * becomes a part (`T<track>`); tracks that mix several channels (format 0
+ * files) get one voice per channel. Tempo and time signature meta events give
+ * the tempo map and measures. There is no notation, so notated and performed
+ * time are the same.
+ */
+export function buildScoreTimelineFromMidi(buffer: ArrayBuffer): { timeline: ScoreTimeline; partMetadata: PartMetadata[] } {
+  const midi = parseSmf(buffer);
+  const tpq = midi.ticksPerQuarter;
+  const toWhole = (tick: number) => tick / (tpq * 4);
+
+  // SMF plays at 120 BPM until the first Set Tempo event; a tempo event at tick 0 replaces it.
+  const tempoChanges: TempoChange[] = [
+    { startWhole: 0, tempoBpm: SMF_DEFAULT_TEMPO_BPM },
+    ...midi.tempos.map(t => ({ startWhole: toWhole(t.tick), tempoBpm: t.tempoBpm }))
+  ];
+  const tempoSegments = buildTempoSegments(tempoChanges);
+  const toSeconds = (tick: number) => wholeToSeconds(tempoSegments, toWhole(tick));
+
+  // Voices: one per track, or per track+channel when a track uses several channels
+  const channelsByTrack = new Map<number, Set<number>>();
+  for (const n of midi.notes) {
+    const set = channelsByTrack.get(n.track) ?? new Set<number>();
+    set.add(n.channel);
+    channelsByTrack.set(n.track, set);
+  }
+  const voiceFor = (n: RawNote): VoiceId => {
+    const multiChannel = (channelsByTrack.get(n.track)?.size ?? 0) > 1;
+    return `T${n.track + 1}-v${multiChannel ? n.channel + 1 : 1}`;
+  };
+
+  const partMetadata: PartMetadata[] = Array.from(channelsByTrack.keys())
+    .sort((a, b) => a - b)
+    .map(track => ({ partId: `T${track + 1}`, partName: midi.trackNames[track] || `Track ${track + 1}` }));
+
+  const lastTick = midi.notes.reduce((m, n) => Math.max(m, n.endTick), 0);
+
+  // Measures from time signature events (a change mid-bar starts a new bar there)
+  const signatures = midi.timeSignatures.slice().sort((a, b) => a.tick - b.tick);
+  if (signatures.length === 0 || signatures[0].tick > 0) signatures.unshift({ tick: 0, beats: 4, beatType: 4 });
+  const measures: PerformedMeasure[] = [];
+  for (let k = 0, tick = 0; tick < lastTick; ) {
+    while (k + 1 < signatures.length && signatures[k + 1].tick <= tick) k++;
+    const sig = signatures[k];
+    const barTicks = Math.round((tpq * 4 * sig.beats) / sig.beatType);
+    const nextChange = k + 1 < signatures.length ? signatures[k + 1].tick : Infinity;
+    const endTick = Math.min(tick + barTicks, nextChange);
+    measures.push({
+      measureIndex: measures.length,
+      pass: 1,
+      startWhole: toWhole(tick),
+      sourceStartWhole: toWhole(tick),
+      durationWhole: toWhole(endTick - tick),
+      startTimeSeconds: toSeconds(tick),
+      endTimeSeconds: toSeconds(endTick),
+      beats: sig.beats,
+      beatType: sig.beatType
+    });
+    tick = endTick;
+  }
+
+  const sorted = midi.notes.slice().sort((a, b) => (a.startTick - b.startTick) || (b.pitch - a.pitch));
+  const notes: NoteEvent[] = [];
+  let counter = 0;
+  let totalDurationSeconds = 0;
+  let measureIndex = 0;
+  for (const n of sorted) {
+    const voice = voiceFor(n);
+    const startWhole = toWhole(n.startTick);
+    while (measureIndex + 1 < measures.length && measures[measureIndex + 1].startWhole <= startWhole + 1e-9) measureIndex++;
+    const startTimeSeconds = toSeconds(n.startTick);
+    const endTimeSeconds = toSeconds(n.endTick);
+    totalDurationSeconds = Math.max(totalDurationSeconds, endTimeSeconds);
+    notes.push({
+      id: `${voice}-${counter++}`,
+      voice,
+      startTimeSeconds,
+      durationSeconds: endTimeSeconds - startTimeSeconds,
+      midiPitch: n.pitch,
+      startWhole,
+      endWhole: toWhole(n.endTick),
+      noteId: `t${n.track}-c${n.channel}-p${n.pitch}-t${n.startTick}`,
+      pass: 1,
+      measureIndex
+    });
+  }
+
+  return {
+    timeline: {
+      notes,
+      totalDurationSeconds,
+      tempoBpm: tempoSegments[0].tempoBpm,
+      tempoSegments,
+      measures
+    },
+    partMetadata
+  };
+}
@@ -2,7 +2,14 @@
  * Copyright (c) 2025 Rickard Evertsson
  */
 
-import { ScoreTimeline, NoteEvent, VoiceId } from '../types/ScoreTimeline';
+import { ScoreTimeline, NoteEvent, PerformedMeasure, VoiceId } from '../types/ScoreTimeline';
+import { buildTempoSegments, TempoChange, wholeToSeconds } from './tempoMap';
+import {
+  buildPerformanceOrder,
+  emptyMeasureStructure,
+  MeasureStructure,
+  parseEndingNumbers
+} from './performanceOrder';
 
 export interface PartMetadata {
   partId: string;
@@ -27,16 +34,38 @@ export function extractPartMetadata(xml: string): PartMetadata[] {
   return metadata;
 }
 
+// A note as read from one notated measure, before repeats are unrolled.
+interface MeasureNote {
+  voice: VoiceId;
+  offsetBeats: number;        // from measure start
+  durationBeats: number;
+  midiPitch: number;
+  partIndex: number;
+  staffIndex: number;
+  tieStart: boolean;          // tied to the next note of the same pitch
+  tieStop: boolean;           // tied from the previous note of the same pitch
+}
+
 export async function buildScoreTimelineFromMusicXml(xml: string): Promise<ScoreTimeline> {
   const parser = new DOMParser();
   const xmlDoc = parser.parseFromString(xml, "application/xml");
 
-  const soundElement = xmlDoc.querySelector('sound[tempo]');
-  const tempoBpm = soundElement ? parseInt(soundElement.getAttribute('tempo') || '120') : 120;
-  
-  const notes: NoteEvent[] = [];
-  let noteIdCounter = 0;
-  const partDurations: number[] = [];
+  // Per notated measure, merged across parts
+  const measureNotes: MeasureNote[][] = [];
+  const measureLengths: number[] = [];
+  const measureTempos: Array<Array<{ offsetBeats: number; tempoBpm: number }>> = [];
+  const measureTimeSignatures: Array<{ beats: number; beatType: number } | null> = [];
+  const structures: MeasureStructure[] = [];
+
+  const ensureMeasure = (index: number) => {
+    while (measureNotes.length <= index) {
+      measureNotes.push([]);
+      measureLengths.push(0);
+      measureTempos.push([]);
+      measureTimeSignatures.push(null);
+      structures.push(emptyMeasureStructure());
+    }
+  };
 
   const parts = xmlDoc.querySelectorAll('part');
   
@@ -52,32 +81,59 @@ export async function buildScoreTimelineFromMusicXml(xml: string): Promise<Score
     const prevStartBeatsByVoice = new Map<string, number>();
     let currentDivisions = 1;
     let measureStartBeats = 0;
+    let currentTimeSignature = { beats: 4, beatType: 4 };
 
     const measures = part.querySelectorAll('measure');
     let measureIndex = 0;
     
     for (const measure of measures) {
+      ensureMeasure(measureIndex);
+      readMeasureStructure(measure, structures[measureIndex]);
+
       const divisionsElement = measure.querySelector('attributes divisions');
       if (divisionsElement) {
         currentDivisions = parseInt(divisionsElement.textContent || '1');
       }
 
-      // Save voice times at the start of the measure to calculate measure length later
-      const measureStartTimesByVoice = new Map<string, number>();
-      for (const [voiceKey, time] of currentTimeBeatsByVoice) {
-        measureStartTimesByVoice.set(voiceKey, time);
+      const timeElement = measure.querySelector('attributes time');
+      if (timeElement) {
+        // Additive signatures ("3+2") sum up; anything unreadable keeps the previous one
+        const beats = (timeElement.querySelector('beats')?.textContent || '')
+          .split('+')
+          .reduce((sum, v) => sum + (parseInt(v) || 0), 0);
+        const beatType = parseInt(timeElement.querySelector('beat-type')?.textContent || '');
+        if (beats > 0 && beatType > 0) currentTimeSignature = { beats, beatType };
       }
-      
+      // The first part that reaches a measure decides its time signature
+      if (!measureTimeSignatures[measureIndex]) measureTimeSignatures[measureIndex] = currentTimeSignature;
+
       // Reset all voices to the start of the measure
       for (const voiceKey of currentTimeBeatsByVoice.keys()) {
         currentTimeBeatsByVoice.set(voiceKey, measureStartBeats);
       }
 
       const measureChildren = Array.from(measure.children);
+      // XML reading position within the measure (in beats). Only used to place
+      // tempo marks; note timing uses the per-voice counters below.
+      let xmlCursorBeats = 0;
       
       for (const element of measureChildren) {
-        // Ignore <backup> and <forward> - only for XML reading order
         if (element.tagName === 'backup' || element.tagName === 'forward') {
+          const d = parseInt(element.querySelector('duration')?.textContent || '0') / currentDivisions;
+          xmlCursorBeats = Math.max(0, xmlCursorBeats + (element.tagName === 'backup' ? -d : d));
+          // Otherwise ignored - note timing is tracked per voice
+          continue;
+        }
+
+        if (element.tagName === 'direction' || element.tagName === 'sound') {
+          const tempoBpm = readTempoMark(element);
+          if (tempoBpm != null) {
+            const offsetDivs = element.tagName === 'direction'
+              ? parseInt(element.querySelector(':scope > offset')?.textContent || '0')
+              : 0;
+            const offsetBeats = Math.max(0, xmlCursorBeats + offsetDivs / currentDivisions);
+            measureTempos[measureIndex].push({ offsetBeats, tempoBpm });
+          }
           continue;
         }
         
@@ -95,6 +151,7 @@ export async function buildScoreTimelineFromMusicXml(xml: string): Promise<Score
 
         const duration = parseInt(noteElement.querySelector('duration')?.textContent || '0');
         const durationBeats = duration / currentDivisions;
+        if (!noteElement.querySelector('chord')) xmlCursorBeats += durationBeats;
 
         // Handle rests - advance the voice time
         if (noteElement.querySelector('rest')) {
@@ -115,41 +172,20 @@ export async function buildScoreTimelineFromMusicXml(xml: string): Promise<Score
           startTimeBeats = currentTimeBeatsByVoice.get(voiceKey) || measureStartBeats;
           prevStartBeatsByVoice.set(voiceKey, startTimeBeats);
         }
-        
-        const startTimeSeconds = (startTimeBeats * 60) / tempoBpm;
-        const durationSeconds = (durationBeats * 60) / tempoBpm;
-        
-        // Musical time in whole notes (1 beat = 1/4 whole note)
-        const startWhole = startTimeBeats / 4;
-        const durationWhole = durationBeats / 4;
-        const endWhole = startWhole + durationWhole;
 
         const pitchElement = noteElement.querySelector('pitch');
         if (pitchElement) {
-          const midiPitch = convertPitchToMidi(pitchElement);
-          
           // NoteEvent.voice is technically (partId, xmlVoice)
           // UI labels are based on part-name + number of voices per part
-          const voiceId: VoiceId = `${partId}-v${xmlVoice}`;
-          
-          // Generate stable noteId using integer tick
-          const tick = Math.round(startWhole * 480);
-          const noteId = `p${partIndex}-m${measureIndex}-s${staffIndex}-p${midiPitch}-t${tick}`;
-          
-          const noteEvent: NoteEvent = {
-            id: `${voiceId}-${noteIdCounter++}`,
-            voice: voiceId,
-            startTimeSeconds,
-            durationSeconds,
-            midiPitch,
-            startWhole,
-            endWhole,
-            noteId,
-            measureIndex,
-            staffIndex
-          };
-          
-          notes.push(noteEvent);
+          measureNotes[measureIndex].push({
+            voice: `${partId}-v${xmlVoice}`,
+            offsetBeats: startTimeBeats - measureStartBeats,
+            durationBeats,
+            midiPitch: convertPitchToMidi(pitchElement),
+            partIndex,
+            staffIndex,
+            ...readTies(noteElement)
+          });
         }
 
         // Update voice time (only if not a chord)
@@ -166,27 +202,221 @@ export async function buildScoreTimelineFromMusicXml(xml: string): Promise<Score
         maxVoiceTime = Math.max(maxVoiceTime, time);
       }
       
+      measureLengths[measureIndex] = Math.max(measureLengths[measureIndex], maxVoiceTime - measureStartBeats);
       measureStartBeats = maxVoiceTime;
       measureIndex++;
     }
-    
-    // Compute duration for all voices in this part
-    const partNotes = notes.filter(note => note.id.includes(partId));
-    const partDuration = partNotes.reduce((max, note) => 
-      Math.max(max, note.startTimeSeconds + note.durationSeconds), 0
-    );
-    partDurations.push(partDuration);
   }
 
-  const totalDurationSeconds = Math.max(...partDurations, 0);
+  // Notated start of each measure (shared by all parts)
+  const sourceStartBeats: number[] = [];
+  let acc = 0;
+  for (const len of measureLengths) {
+    sourceStartBeats.push(acc);
+    acc += len;
+  }
+
+  // Unroll repeats/voltas/jumps, then lay the measures out in performance order.
+  const order = buildPerformanceOrder(structures);
+  const performedStartBeats: number[] = [];
+  const tempoChanges: TempoChange[] = [];
+  acc = 0;
+  for (const step of order) {
+    performedStartBeats.push(acc);
+    for (const mark of measureTempos[step.measureIndex]) {
+      tempoChanges.push({ startWhole: (acc + mark.offsetBeats) / 4, tempoBpm: mark.tempoBpm });
+    }
+    acc += measureLengths[step.measureIndex];
+  }
+
+  // Convert musical time to seconds through the tempo map so ritardandi and
+  // new tempo sections later in the score play back at the right speed.
+  const tempoSegments = buildTempoSegments(tempoChanges);
+  const toSeconds = (beats: number) => wholeToSeconds(tempoSegments, beats / 4);
+
+  const notes: NoteEvent[] = [];
+  const measures: PerformedMeasure[] = [];
+  let noteIdCounter = 0;
+  let totalDurationSeconds = 0;
+  // Open tied chains per voice+pitch, so a tied chain becomes one sustained event
+  const openTies = new Map<string, { event: NoteEvent; endBeats: number }>();
+
+  order.forEach((step, slot) => {
+    const measureIndex = step.measureIndex;
+    const performedStart = performedStartBeats[slot];
+    const sourceStart = sourceStartBeats[measureIndex];
+    const lengthBeats = measureLengths[measureIndex];
+
+    measures.push({
+      measureIndex,
+      pass: step.pass,
+      startWhole: performedStart / 4,
+      sourceStartWhole: sourceStart / 4,
+      durationWhole: lengthBeats / 4,
+      startTimeSeconds: toSeconds(performedStart),
+      endTimeSeconds: toSeconds(performedStart + lengthBeats),
+      beats: measureTimeSignatures[measureIndex]?.beats ?? 4,
+      beatType: measureTimeSignatures[measureIndex]?.beatType ?? 4
+    });
+
+    for (const n of measureNotes[measureIndex]) {
+      // Musical time in whole notes (1 beat = 1/4 whole note)
+      const startWhole = (sourceStart + n.offsetBeats) / 4;
+      const endWhole = startWhole + n.durationBeats / 4;
+
+      // Generate stable noteId using integer tick (same for every pass, so
+      // repeated notes map to the same OSMD graphical note)
+      const tick = Math.round(startWhole * 480);
+      const noteId = `p${n.partIndex}-m${measureIndex}-s${n.staffIndex}-p${n.midiPitch}-t${tick}`;
+
+      const startBeats = performedStart + n.offsetBeats;
+      const endBeats = startBeats + n.durationBeats;
+      const startTimeSeconds = toSeconds(startBeats);
+      const endTimeSeconds = toSeconds(endBeats);
+      totalDurationSeconds = Math.max(totalDurationSeconds, endTimeSeconds);
+
+      // Continue an open tie only if it ends exactly where this note starts,
+      // both as performed and as notated (a tie never carries across a repeat jump).
+      const tieKey = `${n.voice}|${n.midiPitch}`;
+      const open = n.tieStop ? openTies.get(tieKey) : undefined;
+      if (open && Math.abs(open.endBeats - startBeats) < 1e-6 && Math.abs(open.event.endWhole - startWhole) < 1e-6) {
+        open.event.durationSeconds = endTimeSeconds - open.event.startTimeSeconds;
+        open.event.endWhole = endWhole;
+        open.event.tiedNoteIds!.push(noteId);
+        open.endBeats = endBeats;
+        if (!n.tieStart) openTies.delete(tieKey);
+        continue;
+      }
+
+      const event: NoteEvent = {
+        id: `${n.voice}-${noteIdCounter++}`,
+        voice: n.voice,
+        startTimeSeconds,
+        durationSeconds: endTimeSeconds - startTimeSeconds,
+        midiPitch: n.midiPitch,
+        startWhole,
+        endWhole,
+        noteId,
+        pass: step.pass,
+        measureIndex,
+        staffIndex: n.staffIndex
+      };
+      notes.push(event);
+
+      if (n.tieStart) {
+        event.tiedNoteIds = [noteId];
+        openTies.set(tieKey, { event, endBeats });
+      } else {
+        openTies.delete(tieKey);
+      }
+    }
+  });
+
+  // A chain that never found its continuation is an ordinary single note.
+  for (const note of notes) {
+    if (note.tiedNoteIds && note.tiedNoteIds.length < 2) delete note.tiedNoteIds;
+  }
 
   return {
     notes,
     totalDurationSeconds,
-    tempoBpm
+    tempoBpm: tempoSegments[0].tempoBpm,
+    tempoSegments,
+    measures
   };
 }
 
+/**
+ * Read tie markup of a note. Both the sounding <tie> and the notated
+ * <notations><tied> are accepted, since exporters differ in which they write.
+ */
+function readTies(noteElement: Element): { tieStart: boolean; tieStop: boolean } {
+  let tieStart = false;
+  let tieStop = false;
+  for (const tie of Array.from(noteElement.querySelectorAll(':scope > tie, notations > tied'))) {
+    const type = tie.getAttribute('type');
+    if (type === 'start' || type === 'continue') tieStart = true;
+    if (type === 'stop' || type === 'continue') tieStop = true;
+  }
+  return { tieStart, tieStop };
+}
+
+/**
+ * Collect repeat barlines, voltas and <sound> jump/marker attributes of a
+ * measure into its (part-merged) structure.
+ */
+function readMeasureStructure(measure: Element, target: MeasureStructure) {
+  for (const barline of Array.from(measure.querySelectorAll(':scope > barline'))) {
+    const repeat = barline.querySelector('repeat');
+    if (repeat?.getAttribute('direction') === 'forward') target.forwardRepeat = true;
+    if (repeat?.getAttribute('direction') === 'backward') {
+      target.backwardRepeat = true;
+      const times = parseInt(repeat.getAttribute('times') || '');
+      if (Number.isFinite(times) && times >= 2) target.repeatTimes = times;
+    }
+
+    const ending = barline.querySelector('ending');
+    const endingType = ending?.getAttribute('type');
+    if (endingType === 'start') {
+      const nums = parseEndingNumbers(ending!.getAttribute('number'));
+      if (nums.length) target.endingStart = nums;
+    } else if (endingType === 'stop' || endingType === 'discontinue') {
+      target.endingStop = true;
+    }
+  }
+
+  for (const sound of Array.from(measure.querySelectorAll('sound'))) {
+    if (sound.hasAttribute('segno')) target.segno = sound.getAttribute('segno');
+    if (sound.hasAttribute('coda')) target.coda = sound.getAttribute('coda');
+    if (sound.hasAttribute('tocoda')) target.toCoda = sound.getAttribute('tocoda');
+    if (sound.hasAttribute('dalsegno')) target.dalSegno = sound.getAttribute('dalsegno');
+    if (sound.getAttribute('dacapo') === 'yes') target.daCapo = true;
+    if (sound.hasAttribute('fine')) target.fine = true;
+  }
+}
+
+// Length of each <beat-unit> in quarter notes
+const BEAT_UNIT_QUARTERS: Record<string, number> = {
+  'long': 16, 'breve': 8, 'whole': 4, 'half': 2, 'quarter': 1,
+  'eighth': 0.5, '16th': 0.25, '32nd': 0.125
+};
+
+/**
+ * Read a tempo (quarter notes per minute) from a <direction> or <sound> element.
+ * <sound tempo> is the playback value and wins over a printed <metronome> mark.
+ */
+function readTempoMark(element: Element): number | null {
+  const sound = element.tagName === 'sound' ? element : element.querySelector(':scope > sound');
+  const soundTempo = parseFloat(sound?.getAttribute('tempo') || '');
+  if (Number.isFinite(soundTempo) && soundTempo > 0) return soundTempo;
+
+  const metronome = element.querySelector('direction-type metronome');
+  if (!metronome) return null;
+
+  const perMinute = parseFloat(metronome.querySelector('per-minute')?.textContent || '');
+  const beatUnit = metronome.querySelector('beat-unit')?.textContent?.trim() || '';
+  let quarters = BEAT_UNIT_QUARTERS[beatUnit];
+  if (!Number.isFinite(perMinute) || perMinute <= 0 || !quarters) return null;
+
+  // Dots directly after the first <beat-unit> each add half of the previous value
+  // (dotted quarter = 1.5 quarters)
+  let add = quarters / 2;
+  let seenUnit = false;
+  for (const child of Array.from(metronome.children)) {
+    if (child.tagName === 'beat-unit') {
+      if (seenUnit) break;
+      seenUnit = true;
+    } else if (child.tagName === 'beat-unit-dot' && seenUnit) {
+      quarters += add;
+      add /= 2;
+    } else if (seenUnit) {
+      break;
+    }
+  }
+
+  return perMinute * quarters;
+}
+
 export function buildVoiceDisplayLabel(voiceId: VoiceId, allVoices: VoiceId[], partMetadata: PartMetadata[]): string {
   // Parse voiceId format: "P1-v1"
   const match = voiceId.match(/^(.+)-v(\d+)$/);
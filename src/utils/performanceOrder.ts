@@ -0,0 +1,247 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { PerformedMeasure, ScoreTimeline } from '../types/ScoreTimeline';
+import { secondsToWhole } from './tempoMap';
+
+// Playback-relevant markup of one measure (merged across all parts).
+export interface MeasureStructure {
+  forwardRepeat: boolean;
+  backwardRepeat: boolean;
+  repeatTimes: number;            // total number of plays for a backward repeat (default 2)
+  endingStart: number[] | null;   // volta numbers when an <ending type="start"> begins here
+  endingStop: boolean;            // <ending type="stop|discontinue"> ends here
+  segno: string | null;           // <sound segno>
+  coda: string | null;            // <sound coda>
+  toCoda: string | null;          // <sound tocoda>
+  daCapo: boolean;                // <sound dacapo="yes">
+  dalSegno: string | null;        // <sound dalsegno>
+  fine: boolean;                  // <sound fine>
+}
+
+export interface PerformanceStep {
+  measureIndex: number;
+  pass: number; // 1-based: how many times this measure has been played so far
+}
+
+export function emptyMeasureStructure(): MeasureStructure {
+  return {
+    forwardRepeat: false,
+    backwardRepeat: false,
+    repeatTimes: 2,
+    endingStart: null,
+    endingStop: false,
+    segno: null,
+    coda: null,
+    toCoda: null,
+    daCapo: false,
+    dalSegno: null,
+    fine: false
+  };
+}
+
+/**
+ * Parse an <ending number="..."> attribute. MusicXML uses comma-separated
+ * lists ("1, 2"); ranges ("1-3") are accepted as well.
+ */
+export function parseEndingNumbers(value: string | null): number[] {
+  const nums: number[] = [];
+  for (const part of (value || '').split(',')) {
+    const range = part.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+    if (range) {
+      for (let n = parseInt(range[1]); n <= parseInt(range[2]); n++) nums.push(n);
+      continue;
+    }
+    const n = parseInt(part.trim());
+    if (Number.isFinite(n)) nums.push(n);
+  }
+  return nums;
+}
+
+/**
+ * Unroll repeats, voltas, D.C./D.S., To Coda and Fine into the order the
+ * measures are actually performed.
+ *
+ * Follows the usual conventions: repeats are not taken again after a D.C./D.S.
+ * jump (only the last volta of each group is played then), and Fine / To Coda
+ * only apply after such a jump.
+ */
+export function buildPerformanceOrder(measures: MeasureStructure[]): PerformanceStep[] {
+  const n = measures.length;
+
+  // Volta numbers in effect for each measure, and whether it belongs to the
+  // last volta of its group (the one played after a D.C./D.S.).
+  const endingNumbers: Array<number[] | null> = new Array(n).fill(null);
+  const isLastEnding: boolean[] = new Array(n).fill(false);
+  let current: number[] | null = null;
+  let spanStart = -1;
+  const closeSpan = (end: number) => {
+    const nextStartsEnding = end + 1 < n && measures[end + 1].endingStart != null;
+    for (let k = spanStart; k <= end; k++) isLastEnding[k] = !nextStartsEnding;
+  };
+  for (let i = 0; i < n; i++) {
+    const m = measures[i];
+    if (m.endingStart) {
+      if (current) closeSpan(i - 1);
+      current = m.endingStart;
+      spanStart = i;
+    }
+    endingNumbers[i] = current;
+    if (current && (m.endingStop || i === n - 1)) {
+      closeSpan(i);
+      current = null;
+    }
+  }
+
+  const findMarker = (key: 'segno' | 'coda', name: string | null): number => {
+    const exact = measures.findIndex(m => m[key] != null && (name == null || m[key] === name));
+    return exact >= 0 ? exact : measures.findIndex(m => m[key] != null);
+  };
+
+  const order: PerformanceStep[] = [];
+  const playCount: number[] = new Array(n).fill(0);
+  const repeatsTaken = new Map<number, number>();
+  const jumpsTaken = new Set<number>();
+
+  let repeatStart = 0;
+  let ending = 1;            // which volta to play in the current repeated section
+  let afterJump = false;     // true once a D.C./D.S. has been taken
+  let jumpedBack = false;    // true right after taking a backward repeat
+  let i = 0;
+
+  // Guard against malformed markup producing an endless loop.
+  const maxSteps = Math.max(64, n * 32);
+
+  while (i < n && order.length < maxSteps) {
+    const m = measures[i];
+
+    const cameBack = jumpedBack;
+    jumpedBack = false;
+    if (m.forwardRepeat && !cameBack) {
+      repeatStart = i;
+      ending = 1;
+    }
+
+    const nums = endingNumbers[i];
+    if (nums) {
+      const play = afterJump ? isLastEnding[i] : nums.includes(ending);
+      if (!play) {
+        i++;
+        continue;
+      }
+    } else if (!cameBack && i > 0 && endingNumbers[i - 1]) {
+      // Left a volta group: the next repeated section starts counting again.
+      ending = 1;
+    }
+
+    playCount[i] += 1;
+    order.push({ measureIndex: i, pass: playCount[i] });
+
+    if (afterJump && m.fine) break;
+
+    if (afterJump && m.toCoda != null) {
+      const codaIdx = findMarker('coda', m.toCoda);
+      if (codaIdx > i) {
+        i = codaIdx;
+        continue;
+      }
+    }
+
+    if (m.backwardRepeat && !afterJump) {
+      const taken = repeatsTaken.get(i) ?? 0;
+      if (taken < m.repeatTimes - 1) {
+        repeatsTaken.set(i, taken + 1);
+        ending += 1;
+        jumpedBack = true;
+        i = repeatStart;
+        continue;
+      }
+      repeatsTaken.delete(i);
+      if (!nums) ending = 1;
+      repeatStart = i + 1;
+    }
+
+    if ((m.daCapo || m.dalSegno != null) && !jumpsTaken.has(i)) {
+      jumpsTaken.add(i);
+      const target = m.daCapo ? 0 : findMarker('segno', m.dalSegno);
+      if (target >= 0) {
+        afterJump = true;
+        ending = 1;
+        i = target;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return order;
+}
+
+/**
+ * Index into timeline.measures of the performed measure playing at a timeline
+ * time (seconds). Returns -1 for an empty timeline.
+ */
+export function findPerformedMeasureIndex(measures: PerformedMeasure[], timeSeconds: number): number {
+  if (measures.length === 0) return -1;
+  let lo = 0;
+  let hi = measures.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (measures[mid].startTimeSeconds <= timeSeconds) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Map timeline time (seconds, in performance order) back to the notated
+ * position in whole notes, e.g. for placing the OSMD playhead on the measure
+ * that is currently being repeated.
+ */
+export function timelineTimeToSourceWhole(timeline: ScoreTimeline, timeSeconds: number): number {
+  const performedWhole = secondsToWhole(timeline.tempoSegments, timeSeconds);
+  const idx = findPerformedMeasureIndex(timeline.measures, timeSeconds);
+  if (idx < 0) return performedWhole;
+
+  const m = timeline.measures[idx];
+  const within = Math.max(0, Math.min(m.durationWhole, performedWhole - m.startWhole));
+  return m.sourceStartWhole + within;
+}
+
+/**
+ * Timeline range (seconds) covering notated measures fromMeasure..toMeasure
+ * (inclusive), using the first performed occurrence of fromMeasure and the
+ * first occurrence of toMeasure after it.
+ */
+export function loopRangeForMeasures(
+  timeline: ScoreTimeline,
+  fromMeasure: number,
+  toMeasure: number
+): { startSeconds: number; endSeconds: number } | null {
+  const lo = Math.min(fromMeasure, toMeasure);
+  const hi = Math.max(fromMeasure, toMeasure);
+  const measures = timeline.measures;
+
+  const first = measures.findIndex(m => m.measureIndex === lo);
+  if (first < 0) return null;
+  let last = first;
+  while (last < measures.length - 1 && measures[last].measureIndex !== hi) last++;
+
+  return { startSeconds: measures[first].startTimeSeconds, endSeconds: measures[last].endTimeSeconds };
+}
+
+/**
+ * Notated measure index at a notated musical position (whole notes), or -1.
+ */
+export function measureIndexAtSourceWhole(timeline: ScoreTimeline, sourceWhole: number): number {
+  let best = -1;
+  for (const m of timeline.measures) {
+    if (m.sourceStartWhole <= sourceWhole + 1e-9 && sourceWhole < m.sourceStartWhole + m.durationWhole - 1e-9) {
+      return m.measureIndex;
+    }
+    if (m.sourceStartWhole <= sourceWhole) best = Math.max(best, m.measureIndex);
+  }
+  return best;
+}
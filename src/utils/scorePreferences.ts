@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import type { InstrumentId, VoiceMixerSettings } from '../audio/ScorePlayer';
+import type { TuningSettings } from '../audio/tuning';
+import { VoiceId } from '../types/ScoreTimeline';
+
+// Per-score settings remembered in localStorage between sessions.
+export interface ScorePreferences {
+  mixer?: Record<VoiceId, VoiceMixerSettings>;
+  instruments?: Record<VoiceId, InstrumentId>;
+  transpose?: number;         // semitones, applied to playback, notation and pitch targets
+  tuning?: TuningSettings;
+}
+
+const STORAGE_PREFIX = 'choir-practice:score:';
+
+/**
+ * Stable key for a score source. Signed storage URLs change their token on
+ * every visit, so only origin + path identify the score.
+ */
+export function scoreKeyForUrl(url: string): string {
+  try {
+    const u = new URL(url);
+    return `url:${u.origin}${u.pathname}`;
+  } catch {
+    return `url:${url.split('?')[0]}`;
+  }
+}
+
+export function scoreKeyForFile(file: File): string {
+  return `file:${file.name}:${file.size}`;
+}
+
+// Warm-ups are generated, so their mixer is remembered per routine name.
+export function scoreKeyForWarmup(name: string): string {
+  return `warmup:${name}`;
+}
+
+export function loadScorePreferences(scoreKey: string): ScorePreferences {
+  if (typeof window === 'undefined') return {};
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + scoreKey);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Merge `patch` into the stored preferences for a score. */
+export function saveScorePreferences(scoreKey: string, patch: ScorePreferences): void {
+  if (typeof window === 'undefined') return;
+  try {
+    const next = { ...loadScorePreferences(scoreKey), ...patch };
+    window.localStorage.setItem(STORAGE_PREFIX + scoreKey, JSON.stringify(next));
+  } catch {
+    // Storage full or disabled (private mode): settings just aren't remembered.
+  }
+}
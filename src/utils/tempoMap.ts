@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { TempoSegment } from '../types/ScoreTimeline';
+
+export interface TempoChange {
+  startWhole: number; // musical time in whole notes
+  tempoBpm: number;   // quarter notes per minute
+}
+
+const DEFAULT_TEMPO_BPM = 120;
+
+/**
+ * Build sorted tempo segments from raw tempo changes (any order, duplicates allowed).
+ * A later change at the same position wins; consecutive equal tempos are collapsed.
+ */
+export function buildTempoSegments(changes: TempoChange[], fallbackBpm = DEFAULT_TEMPO_BPM): TempoSegment[] {
+  const valid = changes
+    .filter(c => Number.isFinite(c.tempoBpm) && c.tempoBpm > 0 && Number.isFinite(c.startWhole))
+    .map((c, order) => ({ ...c, startWhole: Math.max(0, c.startWhole), order }))
+    .sort((a, b) => (a.startWhole - b.startWhole) || (a.order - b.order));
+
+  // Keep the last change at each position (e.g. <sound tempo> overriding a <metronome> mark).
+  const byPosition: TempoChange[] = [];
+  for (const c of valid) {
+    const last = byPosition[byPosition.length - 1];
+    if (last && Math.abs(last.startWhole - c.startWhole) < 1e-9) {
+      last.tempoBpm = c.tempoBpm;
+    } else {
+      byPosition.push({ startWhole: c.startWhole, tempoBpm: c.tempoBpm });
+    }
+  }
+
+  if (byPosition.length === 0 || byPosition[0].startWhole > 0) {
+    // Before the first marking the score plays at the first marked tempo (or the fallback).
+    byPosition.unshift({ startWhole: 0, tempoBpm: byPosition[0]?.tempoBpm ?? fallbackBpm });
+  }
+
+  const segments: TempoSegment[] = [];
+  for (const c of byPosition) {
+    const prev = segments[segments.length - 1];
+    if (prev && prev.tempoBpm === c.tempoBpm) continue;
+
+    const startTimeSeconds = prev
+      ? prev.startTimeSeconds + ((c.startWhole - prev.startWhole) * 240) / prev.tempoBpm
+      : 0;
+    segments.push({ startWhole: c.startWhole, startTimeSeconds, tempoBpm: c.tempoBpm });
+  }
+
+  return segments;
+}
+
+function findSegmentIndex(segments: TempoSegment[], value: number, key: 'startWhole' | 'startTimeSeconds'): number {
+  // Binary search for the last segment starting at or before value.
+  let lo = 0;
+  let hi = segments.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (segments[mid][key] <= value) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Convert musical time (whole notes) to seconds using the tempo map.
+ */
+export function wholeToSeconds(segments: TempoSegment[], whole: number): number {
+  if (segments.length === 0) return (whole * 240) / DEFAULT_TEMPO_BPM;
+  const seg = segments[findSegmentIndex(segments, whole, 'startWhole')];
+  return seg.startTimeSeconds + ((whole - seg.startWhole) * 240) / seg.tempoBpm;
+}
+
+/**
+ * Convert seconds to musical time (whole notes) using the tempo map.
+ */
+export function secondsToWhole(segments: TempoSegment[], seconds: number): number {
+  if (segments.length === 0) return (seconds * DEFAULT_TEMPO_BPM) / 240;
+  const seg = segments[findSegmentIndex(segments, seconds, 'startTimeSeconds')];
+  return seg.startWhole + ((seconds - seg.startTimeSeconds) * seg.tempoBpm) / 240;
+}
+
+/**
+ * Tempo (quarter notes per minute) in effect at a given timeline time.
+ */
+export function tempoAtSeconds(segments: TempoSegment[], seconds: number): number {
+  if (segments.length === 0) return DEFAULT_TEMPO_BPM;
+  return segments[findSegmentIndex(segments, seconds, 'startTimeSeconds')].tempoBpm;
+}
@@ -0,0 +1,32 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { ScoreTimeline } from '../types/ScoreTimeline';
+
+export const MAX_TRANSPOSE_SEMITONES = 12;
+
+export function clampTranspose(semitones: number): number {
+  if (!Number.isFinite(semitones)) return 0;
+  return Math.max(-MAX_TRANSPOSE_SEMITONES, Math.min(MAX_TRANSPOSE_SEMITONES, Math.round(semitones)));
+}
+
+/**
+ * The timeline with every note moved by `semitones`. Timing, ids and measures
+ * are shared with the original; returns the original itself for 0.
+ */
+export function transposeTimeline(timeline: ScoreTimeline, semitones: number): ScoreTimeline {
+  const shift = clampTranspose(semitones);
+  if (shift === 0) return timeline;
+  return {
+    ...timeline,
+    notes: timeline.notes.map(n => ({ ...n, midiPitch: n.midiPitch + shift })),
+  };
+}
+
+// e.g. "−2 semitones", for controls and labels
+export function formatTranspose(semitones: number): string {
+  if (semitones === 0) return 'Original key';
+  const abs = Math.abs(semitones);
+  return `${semitones > 0 ? '+' : '−'}${abs} semitone${abs === 1 ? '' : 's'}`;
+}
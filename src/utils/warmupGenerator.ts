@@ -0,0 +1,231 @@
+/*
+ * Copyright (c) 2025 Rickard Evertsson
+ */
+
+import { NoteEvent, PerformedMeasure, ScoreTimeline, VoiceId } from '../types/ScoreTimeline';
+import { PartMetadata } from './musicXmlParser';
+import { buildTempoSegments, TempoChange, wholeToSeconds } from './tempoMap';
+
+// Vocal warm-ups: classic patterns repeated on a rising (and/or falling) root
+// within a voice range, built as a ScoreTimeline so they play through
+// ScorePlayer with the same pitch feedback as an uploaded score.
+
+export type WarmupPattern = 'fiveNoteScale' | 'arpeggio' | 'siren' | 'lipTrill';
+export type WarmupDirection = 'up' | 'down' | 'upDown';
+export type WarmupRangeId = 'soprano' | 'alto' | 'tenor' | 'bass';
+
+export interface WarmupExercise {
+  pattern: WarmupPattern;
+  direction: WarmupDirection;
+  stepSemitones: number;      // transposition between repetitions
+  tempoBpm: number;           // quarter notes per minute
+}
+
+export interface WarmupRoutine {
+  name: string;
+  range: WarmupRangeId;
+  exercises: WarmupExercise[];
+}
+
+export interface WarmupPatternInfo {
+  label: string;
+  description: string;
+  notes: Array<[number, number]>;   // [semitones above the root, beats]
+  chordUnder: boolean;              // keyboard holds the chord while the pattern is sung
+}
+
+export const WARMUP_PATTERNS: Record<WarmupPattern, WarmupPatternInfo> = {
+  fiveNoteScale: {
+    label: '5-note scale',
+    description: '1-2-3-4-5-4-3-2-1',
+    notes: [[0, 0.5], [2, 0.5], [4, 0.5], [5, 0.5], [7, 0.5], [5, 0.5], [4, 0.5], [2, 0.5], [0, 2]],
+    chordUnder: false,
+  },
+  arpeggio: {
+    label: 'Arpeggio',
+    description: '1-3-5-8-5-3-1',
+    notes: [[0, 0.5], [4, 0.5], [7, 0.5], [12, 1], [7, 0.5], [4, 0.5], [0, 2]],
+    chordUnder: false,
+  },
+  // A siren is a slide; it is written as a fast chromatic run so the glide
+  // passes through notes that pitch feedback can follow.
+  siren: {
+    label: 'Siren',
+    description: 'Slide up an octave and back',
+    notes: [
+      ...Array.from({ length: 12 }, (_, i): [number, number] => [i, 0.25]),
+      [12, 1],
+      ...Array.from({ length: 11 }, (_, i): [number, number] => [11 - i, 0.25]),
+      [0, 2],
+    ],
+    chordUnder: false,
+  },
+  lipTrill: {
+    label: 'Lip trill on a chord',
+    description: '1-3-5-3-1 over the held chord',
+    notes: [[0, 1], [4, 1], [7, 1], [4, 1], [0, 2]],
+    chordUnder: true,
+  },
+};
+
+// Comfortable warm-up range per voice (the top of each pattern stays inside it)
+export const WARMUP_RANGES: Record<WarmupRangeId, { label: string; low: number; high: number }> = {
+  soprano: { label: 'Soprano', low: 60, high: 79 },  // C4-G5
+  alto: { label: 'Alto', low: 55, high: 74 },        // G3-D5
+  tenor: { label: 'Tenor', low: 48, high: 67 },      // C3-G4
+  bass: { label: 'Bass', low: 41, high: 62 },        // F2-D4
+};
+
+export const WARMUP_VOICE_ID: VoiceId = 'Voice-v1';
+// Contains "keyboard" so the score player doesn't offer it as a voice to sing.
+export const WARMUP_KEYBOARD_VOICE_ID: VoiceId = 'Keyboard-v1';
+
+export const DEFAULT_WARMUP_ROUTINE: WarmupRoutine = {
+  name: 'Warm-up',
+  range: 'alto',
+  exercises: [
+    { pattern: 'lipTrill', direction: 'up', stepSemitones: 2, tempoBpm: 96 },
+    { pattern: 'siren', direction: 'up', stepSemitones: 2, tempoBpm: 80 },
+    { pattern: 'fiveNoteScale', direction: 'upDown', stepSemitones: 2, tempoBpm: 100 },
+    { pattern: 'arpeggio', direction: 'up', stepSemitones: 1, tempoBpm: 92 },
+  ],
+};
+
+const CUE_BEATS = 2;       // keyboard plays the chord before each repetition
+const BREATH_BEATS = 1;    // rest after each repetition
+const BEATS_PER_BAR = 4;
+const MIN_TEMPO_BPM = 40;
+const MAX_TEMPO_BPM = 200;
+const MAX_STEP_SEMITONES = 4;
+const MAX_EXERCISES = 12;
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return typeof value === 'string' && (options as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a routine from storage or a URL. Unknown patterns are dropped and
+ * numbers are clamped; returns null when nothing usable is left.
+ */
+export function parseWarmupRoutine(value: unknown): WarmupRoutine | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const patterns = Object.keys(WARMUP_PATTERNS) as WarmupPattern[];
+  const directions: WarmupDirection[] = ['up', 'down', 'upDown'];
+  const ranges = Object.keys(WARMUP_RANGES) as WarmupRangeId[];
+
+  const exercises: WarmupExercise[] = [];
+  for (const e of Array.isArray(raw.exercises) ? raw.exercises.slice(0, MAX_EXERCISES) : []) {
+    if (!e || typeof e !== 'object' || !isOneOf(e.pattern, patterns)) continue;
+    const step = Math.round(Number(e.stepSemitones));
+    const tempo = Number(e.tempoBpm);
+    exercises.push({
+      pattern: e.pattern,
+      direction: isOneOf(e.direction, directions) ? e.direction : 'up',
+      stepSemitones: Number.isFinite(step) ? Math.min(MAX_STEP_SEMITONES, Math.max(1, step)) : 1,
+      tempoBpm: Number.isFinite(tempo) ? Math.min(MAX_TEMPO_BPM, Math.max(MIN_TEMPO_BPM, tempo)) : 96,
+    });
+  }
+  if (exercises.length === 0) return null;
+
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim().slice(0, 80) : DEFAULT_WARMUP_ROUTINE.name,
+    range: isOneOf(raw.range, ranges) ? raw.range : DEFAULT_WARMUP_ROUTINE.range,
+    exercises,
+  };
+}
+
+/** Roots of an exercise's repetitions, in the order they are sung. */
+export function warmupRoots(exercise: WarmupExercise, range: WarmupRangeId): number[] {
+  const { low, high } = WARMUP_RANGES[range];
+  const span = Math.max(...WARMUP_PATTERNS[exercise.pattern].notes.map(n => n[0]));
+  const up: number[] = [];
+  for (let root = low; root + span <= high; root += exercise.stepSemitones) up.push(root);
+  if (up.length === 0) up.push(low);
+
+  if (exercise.direction === 'up') return up;
+  const down = up.slice().reverse();
+  if (exercise.direction === 'down') return down;
+  return [...up, ...down.slice(1)];
+}
+
+/**
+ * Build the timeline for a routine: one sung voice and a keyboard voice that
+ * gives the chord before each repetition (and holds it under lip trills).
+ * Every repetition fills whole 4/4 bars; each exercise has its own tempo.
+ */
+export function buildWarmupTimeline(routine: WarmupRoutine): { timeline: ScoreTimeline; partMetadata: PartMetadata[] } {
+  type RawNote = { voice: VoiceId; pitch: number; startBeat: number; beats: number };
+  const raw: RawNote[] = [];
+  const tempoChanges: TempoChange[] = [];
+  let beat = 0;
+
+  for (const exercise of routine.exercises) {
+    const pattern = WARMUP_PATTERNS[exercise.pattern];
+    const patternBeats = pattern.notes.reduce((a, n) => a + n[1], 0);
+    const repetitionBeats = Math.ceil((CUE_BEATS + patternBeats + BREATH_BEATS) / BEATS_PER_BAR) * BEATS_PER_BAR;
+    tempoChanges.push({ startWhole: beat / 4, tempoBpm: exercise.tempoBpm });
+
+    for (const root of warmupRoots(exercise, routine.range)) {
+      const chordBeats = pattern.chordUnder ? CUE_BEATS + patternBeats : CUE_BEATS;
+      for (const offset of [0, 4, 7]) {
+        // The chord sits an octave below the sung root, out of the singer's way
+        raw.push({ voice: WARMUP_KEYBOARD_VOICE_ID, pitch: root - 12 + offset, startBeat: beat, beats: chordBeats });
+      }
+      let at = beat + CUE_BEATS;
+      for (const [semitones, beats] of pattern.notes) {
+        raw.push({ voice: WARMUP_VOICE_ID, pitch: root + semitones, startBeat: at, beats });
+        at += beats;
+      }
+      beat += repetitionBeats;
+    }
+  }
+
+  const tempoSegments = buildTempoSegments(tempoChanges);
+  const toSeconds = (beats: number) => wholeToSeconds(tempoSegments, beats / 4);
+
+  const measures: PerformedMeasure[] = [];
+  for (let b = 0; b < beat; b += BEATS_PER_BAR) {
+    measures.push({
+      measureIndex: measures.length,
+      pass: 1,
+      startWhole: b / 4,
+      sourceStartWhole: b / 4,
+      durationWhole: BEATS_PER_BAR / 4,
+      startTimeSeconds: toSeconds(b),
+      endTimeSeconds: toSeconds(b + BEATS_PER_BAR),
+      beats: BEATS_PER_BAR,
+      beatType: 4,
+    });
+  }
+
+  const notes: NoteEvent[] = raw.map((n, i) => {
+    const startTimeSeconds = toSeconds(n.startBeat);
+    return {
+      id: `${n.voice}-${i}`,
+      voice: n.voice,
+      startTimeSeconds,
+      durationSeconds: toSeconds(n.startBeat + n.beats) - startTimeSeconds,
+      midiPitch: n.pitch,
+      startWhole: n.startBeat / 4,
+      endWhole: (n.startBeat + n.beats) / 4,
+      noteId: `warmup-${i}`,
+      pass: 1,
+      measureIndex: Math.floor(n.startBeat / BEATS_PER_BAR),
+    };
+  });
+
+  return {
+    timeline: {
+      notes,
+      totalDurationSeconds: toSeconds(beat),
+      tempoBpm: tempoSegments[0].tempoBpm,
+      tempoSegments,
+      measures,
+    },
+    partMetadata: [
+      { partId: 'Voice', partName: WARMUP_RANGES[routine.range].label },
+      { partId: 'Keyboard', partName: 'Keyboard' },
+    ],
+  };
+}
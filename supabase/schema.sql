@@ -19,7 +19,9 @@ alter table public.profiles enable row level security;
 
 -- If you applied an older schema already, ensure new columns exist:
 alter table public.profiles
-  add column if not exists avatar_path text;
+  add column if not exists avatar_path text,
+  -- Whether group admins may see your practice progress (leader dashboard)
+  add column if not exists share_practice boolean not null default true;
 
 -- Users can read/update their own profile (email is copied from auth for convenience).
 create policy "profiles_select_own"
@@ -467,3 +469,186 @@ using (
 
 
 
+
+-- PRACTICE SESSIONS (one row per scored take)
+-- A piece is identified by its group score, or by a content hash for local files.
+create table if not exists public.practice_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  group_score_id uuid references public.group_scores(id) on delete cascade,
+  file_hash text,
+  score_title text,
+  voice text not null,
+  voice_label text,
+  tempo_multiplier real not null default 1,
+  difficulty text not null check (difficulty in ('normal', 'advanced', 'expert')),
+  in_tune_fraction real not null,
+  wrong_note_fraction real not null,
+  mean_cents real,
+  -- [{ "measure": <0-based index>, "pass": <n>, "inTune": 0..1, "wrong": 0..1 }, ...]
+  measures jsonb not null default '[]'::jsonb,
+  duration_seconds real not null,
+  created_at timestamptz not null default now(),
+  check (group_score_id is not null or file_hash is not null)
+);
+
+-- If you applied an older schema already, ensure new columns exist:
+alter table public.practice_sessions
+  add column if not exists voice_label text;
+
+create index if not exists practice_sessions_score_created_idx
+  on public.practice_sessions (group_score_id, created_at desc);
+
+create index if not exists practice_sessions_user_created_idx
+  on public.practice_sessions (user_id, created_at desc);
+
+alter table public.practice_sessions enable row level security;
+
+-- Users can read their own history. (The leader dashboard reads via service role,
+-- honouring profiles.share_practice.)
+create policy "practice_sessions_select_own"
+on public.practice_sessions for select
+using (auth.uid() = user_id);
+
+-- Users can record their own takes (if not disabled); group scores only while an active member.
+create policy "practice_sessions_insert_own"
+on public.practice_sessions for insert
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.disabled_at is null
+  )
+  and (
+    group_score_id is null
+    or exists (
+      select 1
+      from public.group_scores s
+      join public.group_memberships m on m.group_id = s.group_id
+      where s.id = practice_sessions.group_score_id
+        and m.user_id = auth.uid()
+        and m.status = 'active'
+    )
+  )
+);
+
+-- Users can delete their own history.
+create policy "practice_sessions_delete_own"
+on public.practice_sessions for delete
+using (auth.uid() = user_id);
+
+-- EAR TRAINING RESULTS (one row per interval / scale degree / dictation exercise)
+create table if not exists public.ear_training_results (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  mode text not null check (mode in ('interval', 'degree', 'dictation')),
+  difficulty text not null check (difficulty in ('normal', 'advanced', 'expert')),
+  prompt text not null,
+  -- One entry per note to sing: MIDI target, sung pitch (null = not sung), pass
+  target_midis integer[] not null,
+  sung_midis real[] not null,
+  notes_passed boolean[] not null,
+  passed boolean not null,
+  mean_abs_cents real,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ear_training_results_user_created_idx
+  on public.ear_training_results (user_id, created_at desc);
+
+alter table public.ear_training_results enable row level security;
+
+-- Users read, record and delete only their own results.
+create policy "ear_training_results_select_own"
+on public.ear_training_results for select
+using (auth.uid() = user_id);
+
+create policy "ear_training_results_insert_own"
+on public.ear_training_results for insert
+with check (
+  auth.uid() = user_id
+  and exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.disabled_at is null
+  )
+);
+
+create policy "ear_training_results_delete_own"
+on public.ear_training_results for delete
+using (auth.uid() = user_id);
+
+-- GROUP WARM-UPS (a leader's saved warm-up routines, played with the score player)
+create table if not exists public.group_warmups (
+  id uuid primary key default gen_random_uuid(),
+  group_id uuid not null references public.groups(id) on delete cascade,
+  name text not null,
+  -- WarmupRoutine JSON (range + exercises), see src/utils/warmupGenerator.ts
+  routine jsonb not null,
+  created_by uuid not null references public.profiles(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists group_warmups_group_idx
+  on public.group_warmups (group_id, created_at);
+
+alter table public.group_warmups enable row level security;
+
+-- Active members can list their groups' warm-ups.
+create policy "group_warmups_select_active_members"
+on public.group_warmups for select
+using (
+  exists (
+    select 1 from public.group_memberships m
+    where m.group_id = group_warmups.group_id
+      and m.user_id = auth.uid()
+      and m.status = 'active'
+  )
+);
+
+-- Active admins can add, edit and remove warm-ups in their groups.
+create policy "group_warmups_insert_admin"
+on public.group_warmups for insert
+with check (
+  created_by = auth.uid()
+  and exists (
+    select 1 from public.group_memberships m
+    where m.group_id = group_warmups.group_id
+      and m.user_id = auth.uid()
+      and m.role = 'admin'
+      and m.status = 'active'
+  )
+);
+
+create policy "group_warmups_update_admin"
+on public.group_warmups for update
+using (
+  exists (
+    select 1 from public.group_memberships m
+    where m.group_id = group_warmups.group_id
+      and m.user_id = auth.uid()
+      and m.role = 'admin'
+      and m.status = 'active'
+  )
+)
+with check (
+  exists (
+    select 1 from public.group_memberships m
+    where m.group_id = group_warmups.group_id
+      and m.user_id = auth.uid()
+      and m.role = 'admin'
+      and m.status = 'active'
+  )
+);
+
+create policy "group_warmups_delete_admin"
+on public.group_warmups for delete
+using (
+  exists (
+    select 1 from public.group_memberships m
+    where m.group_id = group_warmups.group_id
+      and m.user_id = auth.uid()
+      and m.role = 'admin'
+      and m.status = 'active'
+  )
+);